@@ -1,4 +1,5 @@
 
+import {useState} from "react";
 import {Toaster} from "@/components/ui/toaster";
 import {Toaster as Sonner} from "@/components/ui/sonner";
 import {TooltipProvider} from "@/components/ui/tooltip";
@@ -6,6 +7,7 @@ import {QueryClient, QueryClientProvider} from "@tanstack/react-query";
 import {BrowserRouter, Route, Routes} from "react-router-dom";
 import {AuthProvider} from "@/context/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import SessionExpiryDialog from "@/components/SessionExpiryDialog";
 import {Role} from "@/types";
 
 // Pages
@@ -18,18 +20,26 @@ import AddBook from "./pages/AddBook";
 import Loans from "./pages/Loans";
 import Users from "./pages/Users";
 import Profile from "./pages/Profile";
+import LoanPolicy from "./pages/LoanPolicy";
+import CirculationDesk from "./pages/CirculationDesk";
+import BatchImport from "./pages/BatchImport";
 import NotFound from "./pages/NotFound";
 
 const App = () => {
-  // Create a client inside the component to prevent the useEffect error
-  const queryClient = new QueryClient({
-    defaultOptions: {
-      queries: {
-        refetchOnWindowFocus: false,
-        retry: 1,
-      },
-    },
-  });
+  // Create a client inside the component to prevent the useEffect error.
+  // useState keeps the same cache across re-renders.
+  const [queryClient] = useState(
+    () =>
+      new QueryClient({
+        defaultOptions: {
+          queries: {
+            refetchOnWindowFocus: false,
+            retry: 1,
+            staleTime: 30_000,
+          },
+        },
+      })
+  );
 
   return (
     <QueryClientProvider client={queryClient}>
@@ -38,6 +48,7 @@ const App = () => {
           <AuthProvider>
             <Toaster />
             <Sonner position="top-right" />
+            <SessionExpiryDialog />
             <Routes>
               {/* Public routes */}
               <Route path="/login" element={<Login />} />
@@ -110,6 +121,22 @@ const App = () => {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/importar-livros"
+                element={
+                  <ProtectedRoute allowedRoles={[Role.LIBRARIAN, Role.ADMIN]}>
+                    <BatchImport />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/balcao"
+                element={
+                  <ProtectedRoute allowedRoles={[Role.LIBRARIAN, Role.ADMIN]}>
+                    <CirculationDesk />
+                  </ProtectedRoute>
+                }
+              />
 
               {/* Admin-only routes */}
               <Route
@@ -120,6 +147,14 @@ const App = () => {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/politica-emprestimos"
+                element={
+                  <ProtectedRoute allowedRoles={[Role.ADMIN]}>
+                    <LoanPolicy />
+                  </ProtectedRoute>
+                }
+              />
 
               {/* Catch-all route */}
               <Route path="*" element={<NotFound />} />
@@ -1,6 +1,8 @@
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useScanner } from '@/hooks/useScanner';
+import { SCAN_REGION, decodeImageFile } from '@/services/barcodeDecoding';
+import { Slider } from '@/components/ui/slider';
 import {
   Card,
   CardContent,
@@ -12,7 +14,14 @@ import {
   Camera,
   RefreshCw,
   Scan,
-  Barcode
+  Barcode,
+  CheckCircle,
+  Flashlight,
+  FlashlightOff,
+  ImagePlus,
+  Loader2,
+  X,
+  ZoomIn
 } from 'lucide-react';
 import {
   Select,
@@ -27,14 +36,210 @@ interface BarcodeScannerProps {
   onDetected: (isbn: string) => void;
   isVisible: boolean;
   onClose: () => void;
+  title?: string;
+  // Modo contínuo: a câmera fica aberta e cada código novo entra na lista da
+  // sessão, entregue em onFinish ao concluir
+  continuous?: boolean;
+  onFinish?: (codes: string[]) => void;
+  finishLabel?: string;
+  // Motivo para recusar o código lido (ex.: EAN que não é ISBN), ou null;
+  // códigos recusados não chegam a onDetected e a câmera segue lendo
+  validate?: (code: string) => string | null;
 }
 
+// A câmera lê o mesmo código várias vezes por segundo enquanto ele está no
+// quadro; leituras repetidas dentro deste intervalo são ignoradas
+const SCAN_COOLDOWN_MS = 2500;
+const FLASH_MS = 400;
+const FOCUS_RING_MS = 800;
+
+type ScanFeedback = 'new' | 'repeated' | 'rejected';
+
+const FEEDBACK_TONES: Record<ScanFeedback, number> = {
+  new: 880,
+  repeated: 440,
+  rejected: 220,
+};
+
+let audioContext: AudioContext | null = null;
+
+// Bipe curto de confirmação; navegadores sem Web Audio ficam só com o aviso visual
+const playConfirmation = (feedback: ScanFeedback) => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = FEEDBACK_TONES[feedback];
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.12);
+  } catch (err) {
+    console.warn('Confirmação sonora indisponível:', err);
+  }
+};
+
+// Sem câmera (ou sem permissão): lê o código de uma foto escolhida ou arrastada,
+// como a contracapa fotografada pelo celular
+const PhotoFallback: React.FC<{ onDecoded: (code: string) => void }> = ({ onDecoded }) => {
+  const [decoding, setDecoding] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file?: File) => {
+    if (!file || decoding) return;
+    setDecoding(true);
+    setError(null);
+    try {
+      onDecoded(await decodeImageFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível ler a imagem');
+    } finally {
+      setDecoding(false);
+    }
+  };
+
+  return (
+    <div
+      className={`border-2 border-dashed rounded-md p-4 text-center text-sm transition-colors ${
+        dragging ? 'border-primary bg-primary/5' : 'border-muted'
+      }`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        handleFile(e.dataTransfer.files[0]);
+      }}
+    >
+      <p className="text-muted-foreground mb-2">
+        Envie ou arraste uma foto do código de barras.
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={decoding}
+      >
+        {decoding ? (
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        ) : (
+          <ImagePlus className="h-3 w-3 mr-1" />
+        )}
+        {decoding ? 'Lendo imagem...' : 'Escolher foto'}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-destructive mt-2">{error}</p>}
+    </div>
+  );
+};
+
 const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
   onDetected,
   isVisible,
-  onClose
+  onClose,
+  title = 'Escanear ISBN',
+  continuous = false,
+  onFinish,
+  finishLabel = 'Concluir',
+  validate
 }) => {
-  const scanner = useScanner({ onDetected });
+  const [sessionCodes, setSessionCodes] = useState<string[]>([]);
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
+  const [showPhoto, setShowPhoto] = useState(false);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null);
+  const lastReadsRef = useRef(new Map<string, number>());
+  const feedbackTimer = useRef<ReturnType<typeof setTimeout>>();
+  const focusTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const showFeedback = (result: ScanFeedback) => {
+    playConfirmation(result);
+    setFeedback(result);
+    clearTimeout(feedbackTimer.current);
+    feedbackTimer.current = setTimeout(() => setFeedback(null), FLASH_MS);
+  };
+
+  const handleDetected = (code: string) => {
+    const reason = validate?.(code) ?? null;
+    if (!continuous && !reason) {
+      onDetected(code);
+      return;
+    }
+
+    const now = Date.now();
+    const lastRead = lastReadsRef.current.get(code);
+    lastReadsRef.current.set(code, now);
+    if (lastRead !== undefined && now - lastRead < SCAN_COOLDOWN_MS) return;
+
+    setRejection(reason);
+    if (reason) {
+      showFeedback('rejected');
+      return;
+    }
+
+    const isNew = !sessionCodes.includes(code);
+    showFeedback(isNew ? 'new' : 'repeated');
+
+    if (isNew) {
+      setSessionCodes((current) => [code, ...current]);
+      onDetected(code);
+    }
+  };
+
+  // O scanner guarda o callback ao iniciar a câmera; a ref mantém a lista atual
+  const detectedRef = useRef(handleDetected);
+  detectedRef.current = handleDetected;
+  const detect = useCallback((code: string) => detectedRef.current(code), []);
+
+  const scanner = useScanner({ onDetected: detect });
+
+  useEffect(
+    () => () => {
+      clearTimeout(feedbackTimer.current);
+      clearTimeout(focusTimer.current);
+    },
+    []
+  );
+
+  const handleFocusTap = (event: React.MouseEvent<HTMLVideoElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - bounds.left) / bounds.width,
+      y: (event.clientY - bounds.top) / bounds.height
+    };
+    scanner.focusAt(point.x, point.y);
+    setFocusPoint(point);
+    clearTimeout(focusTimer.current);
+    focusTimer.current = setTimeout(() => setFocusPoint(null), FOCUS_RING_MS);
+  };
+
+  // Cada abertura começa uma sessão nova
+  useEffect(() => {
+    if (isVisible) {
+      setSessionCodes([]);
+      setRejection(null);
+      setShowPhoto(false);
+      lastReadsRef.current.clear();
+    }
+  }, [isVisible]);
+
+  const handleFinish = () => {
+    onFinish?.([...sessionCodes].reverse());
+  };
 
   useEffect(() => {
     if (isVisible) {
@@ -64,11 +269,13 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
 
   if (!isVisible) return null;
 
+  const cameraUnavailable = !!scanner.error || scanner.cameras.length === 0;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm p-4">
       <Card className="w-full max-w-md mx-auto overflow-hidden animate-scale-in">
         <CardHeader className="relative">
-          <CardTitle className="text-center">Escanear ISBN</CardTitle>
+          <CardTitle className="text-center">{title}</CardTitle>
           <Button
             className="absolute right-4 top-4"
             variant="ghost"
@@ -102,7 +309,8 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
               <>
                 <video
                   ref={scanner.videoRef}
-                  className="w-full h-full object-cover"
+                  className={`w-full h-full object-cover ${scanner.controls?.focusMode ? 'cursor-crosshair' : ''}`}
+                  onClick={scanner.controls?.focusMode ? handleFocusTap : undefined}
                   muted
                   playsInline
                   autoPlay
@@ -111,9 +319,45 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
                 {/* Overlay */}
                 <div className="absolute inset-0 pointer-events-none">
                   <div className="absolute top-1/2 left-0 right-0 h-0.5 bg-red-500 transform -translate-y-1/2 animate-pulse" />
-                  <div className="absolute inset-16 border-2 border-primary/50 rounded-md" />
+                  {/* Quadro = área decodificada (SCAN_REGION) */}
+                  <div
+                    style={{
+                      left: `${SCAN_REGION.x * 100}%`,
+                      top: `${SCAN_REGION.y * 100}%`,
+                      width: `${SCAN_REGION.width * 100}%`,
+                      height: `${SCAN_REGION.height * 100}%`
+                    }}
+                    className={`absolute border-2 rounded-md transition-colors ${
+                      feedback === 'new'
+                        ? 'border-green-500 bg-green-500/20'
+                        : feedback === 'repeated'
+                        ? 'border-amber-500 bg-amber-500/20'
+                        : feedback === 'rejected'
+                        ? 'border-red-500 bg-red-500/20'
+                        : 'border-primary/50'
+                    }`}
+                  />
+                  {focusPoint && (
+                    <div
+                      style={{ left: `${focusPoint.x * 100}%`, top: `${focusPoint.y * 100}%` }}
+                      className="absolute h-12 w-12 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-yellow-400 animate-pulse"
+                    />
+                  )}
                 </div>
 
+                {/* Lanterna */}
+                {scanner.controls?.torch && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-2 right-2 h-8 w-8 bg-black/70 hover:bg-black/90 text-white"
+                    onClick={() => scanner.toggleTorch()}
+                    aria-label={scanner.torchOn ? 'Desligar lanterna' : 'Ligar lanterna'}
+                  >
+                    {scanner.torchOn ? <FlashlightOff className="h-4 w-4" /> : <Flashlight className="h-4 w-4" />}
+                  </Button>
+                )}
+
                 {/* Status + botão de controle */}
                 <div className="absolute bottom-2 left-2 right-2 flex items-center justify-between">
                   <div className="flex items-center space-x-2 bg-black/70 px-2 py-1 rounded-md">
@@ -152,6 +396,24 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
             )}
           </div>
 
+          {/* Zoom, quando a câmera permite */}
+          {scanner.controls?.zoom && (
+            <div className="flex items-center space-x-3">
+              <ZoomIn className="h-4 w-4 text-muted-foreground" />
+              <Slider
+                min={scanner.controls.zoom.min}
+                max={scanner.controls.zoom.max}
+                step={scanner.controls.zoom.step || 0.1}
+                value={[scanner.zoom ?? scanner.controls.zoom.min]}
+                onValueChange={([value]) => scanner.setZoom(value)}
+                aria-label="Zoom"
+              />
+              <span className="text-xs text-muted-foreground w-10 text-right">
+                {(scanner.zoom ?? scanner.controls.zoom.min).toFixed(1)}x
+              </span>
+            </div>
+          )}
+
           {/* Seletor de câmera (caso haja mais de uma) */}
           {scanner.cameras.length > 1 && (
             <div className="flex items-center space-x-2">
@@ -174,14 +436,85 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
             </div>
           )}
 
+          {/* Foto no lugar da câmera */}
+          {cameraUnavailable || showPhoto ? (
+            <PhotoFallback onDecoded={handleDetected} />
+          ) : (
+            <Button
+              variant="link"
+              size="sm"
+              className="w-full"
+              onClick={() => setShowPhoto(true)}
+            >
+              <ImagePlus className="h-3 w-3 mr-1" />
+              Ler de uma foto
+            </Button>
+          )}
+
+          {rejection && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {rejection}
+            </div>
+          )}
+
           <div className="text-center text-sm text-muted-foreground">
-            <p>Posicione o código de barras dentro da área para escanear.</p>
+            <p>
+              {continuous
+                ? 'Passe os livros um a um; cada código novo entra na lista com um bipe.'
+                : 'Posicione o código de barras dentro da área para escanear.'}
+              {scanner.controls?.focusMode && ' Toque na imagem para focar.'}
+            </p>
           </div>
 
+          {continuous && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">
+                  {sessionCodes.length} código(s) lido(s)
+                </span>
+                {sessionCodes.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setSessionCodes([])}>
+                    Limpar
+                  </Button>
+                )}
+              </div>
+              {sessionCodes.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto border rounded-md divide-y text-sm">
+                  {sessionCodes.map((code, index) => (
+                    <li key={code} className="flex items-center justify-between px-3 py-1">
+                      <span className="flex items-center font-mono">
+                        {index === 0 && (
+                          <CheckCircle className="h-3 w-3 mr-2 text-green-600" />
+                        )}
+                        {code}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setSessionCodes((current) => current.filter((item) => item !== code))
+                        }
+                        aria-label={`Remover ${code}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end space-x-2">
             <Button variant="outline" onClick={onClose}>
               Cancelar
             </Button>
+            {continuous && onFinish && (
+              <Button onClick={handleFinish} disabled={sessionCodes.length === 0}>
+                <Scan className="h-4 w-4 mr-2" />
+                {finishLabel} ({sessionCodes.length})
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
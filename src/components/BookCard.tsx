@@ -3,6 +3,8 @@ import { Book } from "@/types";
 import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
+import BookCover from "@/components/BookCover";
+import { formatIsbn } from "@/services/isbn";
 
 interface BookCardProps {
   book: Book;
@@ -19,8 +21,9 @@ const BookCard: React.FC<BookCardProps> = ({ book, className }) => {
       className
     )}
   >
-    <Link to={`/livros/${book.id}`} className="block h-full">
-      <div className="flex flex-col justify-between h-full p-4">
+    <Link to={`/livros/${book.id}`} className="flex flex-col h-full">
+      <BookCover book={book} className="border-b" />
+      <div className="flex flex-col justify-between flex-1 p-4">
         <div>
           <h3 className="font-medium leading-tight line-clamp-2">{book.title}</h3>
           <p className="text-sm text-muted-foreground mt-1 line-clamp-1">{book.author}</p>
@@ -34,7 +37,7 @@ const BookCard: React.FC<BookCardProps> = ({ book, className }) => {
           >
             {isAvailable ? 'Disponível' : 'Indisponível'}
           </Badge>
-          <span className="text-xs">ISBN: {book.isbn}</span>
+          <span className="text-xs">ISBN: {formatIsbn(book.isbn)}</span>
         </div>
       </div>
     </Link>
@@ -0,0 +1,413 @@
+import React, { useState } from "react";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useBookCopies,
+  useCreateCopy,
+  useDeleteCopy,
+  useUpdateCopy,
+} from "@/hooks/useCopies";
+import { CopyInput } from "@/services/api";
+import { applyFieldErrors, getErrorMessage } from "@/services/apiErrors";
+import {
+  COPY_CONDITION_LABELS,
+  COPY_STATUS_LABELS,
+  MANUAL_COPY_STATUSES,
+} from "@/services/bookMetadata";
+import { Book, BookCopy, CopyCondition, CopyStatus } from "@/types";
+
+interface BookCopiesProps {
+  book: Book;
+}
+
+interface CopyFormData {
+  barcode: string;
+  shelf_location: string;
+  condition: CopyCondition;
+  acquired_at: string;
+  status: CopyStatus;
+  notes: string;
+}
+
+const COPY_FORM_FIELDS = [
+  "barcode",
+  "shelf_location",
+  "condition",
+  "acquired_at",
+  "status",
+  "notes",
+] as const;
+
+const EMPTY_COPY_FORM: CopyFormData = {
+  barcode: "",
+  shelf_location: "",
+  condition: CopyCondition.NEW,
+  acquired_at: "",
+  status: CopyStatus.AVAILABLE,
+  notes: "",
+};
+
+const STATUS_BADGE_CLASSES: Record<CopyStatus, string> = {
+  [CopyStatus.AVAILABLE]: "bg-green-500/10 text-green-700",
+  [CopyStatus.ON_LOAN]: "bg-blue-500/10 text-blue-700",
+  [CopyStatus.ON_HOLD]: "bg-purple-500/10 text-purple-700",
+  [CopyStatus.IN_REPAIR]: "bg-yellow-500/10 text-yellow-700",
+  [CopyStatus.LOST]: "bg-destructive/10 text-destructive",
+  [CopyStatus.WITHDRAWN]: "bg-muted text-muted-foreground",
+};
+
+const copyToForm = (copy: BookCopy): CopyFormData => ({
+  barcode: copy.barcode,
+  shelf_location: copy.shelf_location ?? "",
+  condition: copy.condition,
+  acquired_at: copy.acquired_at ?? "",
+  status: copy.status,
+  notes: copy.notes ?? "",
+});
+
+// Campos vazios vão como null para o servidor limpar o valor anterior
+const formToCopy = (form: CopyFormData): CopyInput => ({
+  barcode: form.barcode.trim() || undefined,
+  shelf_location: form.shelf_location.trim() || null,
+  condition: form.condition,
+  acquired_at: form.acquired_at || null,
+  status: form.status,
+  notes: form.notes.trim() || null,
+});
+
+const formatDate = (date?: string) =>
+  date ? new Date(`${date}T00:00:00`).toLocaleDateString("pt-BR") : "—";
+
+const BookCopies: React.FC<BookCopiesProps> = ({ book }) => {
+  const { data: copies = [], isLoading } = useBookCopies(book.id);
+  const createCopy = useCreateCopy();
+  const updateCopy = useUpdateCopy();
+  const deleteCopy = useDeleteCopy();
+
+  const [editing, setEditing] = useState<BookCopy | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState<CopyFormData>(EMPTY_COPY_FORM);
+  const [errors, setErrors] = useState<Partial<Record<keyof CopyFormData, string>>>({});
+  const saving = createCopy.isPending || updateCopy.isPending;
+
+  const openDialog = (copy: BookCopy | null) => {
+    setEditing(copy);
+    setForm(copy ? copyToForm(copy) : EMPTY_COPY_FORM);
+    setErrors({});
+    setShowDialog(true);
+  };
+
+  const setField = <K extends keyof CopyFormData>(field: K, value: CopyFormData[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const handleSave = async () => {
+    if (editing && !form.barcode.trim()) {
+      setErrors({ barcode: "Informe o código de barras" });
+      return;
+    }
+
+    try {
+      if (editing) {
+        await updateCopy.mutateAsync({ id: editing.id, copy: formToCopy(form) });
+        toast.success(`Exemplar ${form.barcode} atualizado`);
+      } else {
+        const created = await createCopy.mutateAsync({
+          bookId: book.id,
+          copy: formToCopy(form),
+        });
+        toast.success(`Exemplar ${created.barcode} cadastrado`);
+      }
+      setShowDialog(false);
+    } catch (error) {
+      console.error("Erro ao salvar exemplar:", error);
+      const showedInline = applyFieldErrors(error, COPY_FORM_FIELDS, (field, message) =>
+        setErrors((current) => ({ ...current, [field]: message }))
+      );
+      if (!showedInline) {
+        toast.error(getErrorMessage(error, "Erro ao salvar o exemplar."));
+      }
+    }
+  };
+
+  const handleDelete = async (copy: BookCopy) => {
+    try {
+      await deleteCopy.mutateAsync(copy);
+      toast.success(`Exemplar ${copy.barcode} excluído`);
+    } catch (error) {
+      console.error("Erro ao excluir exemplar:", error);
+      toast.error(getErrorMessage(error, "Erro ao excluir o exemplar."));
+    }
+  };
+
+  // Emprestados e reservados mudam de situação pela circulação
+  const inCirculation =
+    editing?.status === CopyStatus.ON_LOAN || editing?.status === CopyStatus.ON_HOLD;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Exemplares</h3>
+        <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Adicionar exemplar
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="p-4 text-center text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin mx-auto mb-2" />
+          Carregando exemplares...
+        </div>
+      ) : copies.length === 0 ? (
+        <div className="border rounded-md p-4 text-center text-muted-foreground">
+          Nenhum exemplar cadastrado para este livro.
+        </div>
+      ) : (
+        <div className="border rounded-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-muted text-left">
+                <th className="px-4 py-2 font-medium">Código</th>
+                <th className="px-4 py-2 font-medium">Localização</th>
+                <th className="px-4 py-2 font-medium">Estado</th>
+                <th className="px-4 py-2 font-medium">Aquisição</th>
+                <th className="px-4 py-2 font-medium">Situação</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {copies.map((copy) => (
+                <tr key={copy.id} className="border-t">
+                  <td className="px-4 py-2 font-mono">{copy.barcode}</td>
+                  <td className="px-4 py-2">{copy.shelf_location || "—"}</td>
+                  <td className="px-4 py-2">
+                    {COPY_CONDITION_LABELS[copy.condition]}
+                  </td>
+                  <td className="px-4 py-2">{formatDate(copy.acquired_at)}</td>
+                  <td className="px-4 py-2">
+                    <Badge
+                      variant="outline"
+                      className={STATUS_BADGE_CLASSES[copy.status]}
+                    >
+                      {COPY_STATUS_LABELS[copy.status]}
+                    </Badge>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => openDialog(copy)}
+                        aria-label={`Editar exemplar ${copy.barcode}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            disabled={
+                              copy.status === CopyStatus.ON_LOAN ||
+                              copy.status === CopyStatus.ON_HOLD
+                            }
+                            aria-label={`Excluir exemplar ${copy.barcode}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir exemplar?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              O exemplar {copy.barcode} será removido do acervo.
+                              Exemplares com histórico de empréstimos não podem
+                              ser excluídos; marque-os como "Baixado".
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              onClick={() => handleDelete(copy)}
+                            >
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? `Exemplar ${editing.barcode}` : "Novo exemplar"}
+            </DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Atualize os dados do exemplar."
+                : `Cadastre um exemplar de "${book.title}". Deixe o código em branco para gerar um automaticamente.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="copy-barcode">Código de barras</Label>
+              <Input
+                id="copy-barcode"
+                className="font-mono"
+                value={form.barcode}
+                onChange={(e) => setField("barcode", e.target.value)}
+              />
+              {errors.barcode && (
+                <p className="text-sm font-medium text-destructive">
+                  {errors.barcode}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="copy-location">Localização</Label>
+              <Input
+                id="copy-location"
+                placeholder="Ex.: Estante B-3"
+                value={form.shelf_location}
+                onChange={(e) => setField("shelf_location", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="copy-condition">Estado de conservação</Label>
+              <Select
+                value={form.condition}
+                onValueChange={(value) => setField("condition", value as CopyCondition)}
+              >
+                <SelectTrigger id="copy-condition">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(CopyCondition).map((condition) => (
+                    <SelectItem key={condition} value={condition}>
+                      {COPY_CONDITION_LABELS[condition]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="copy-acquired">Data de aquisição</Label>
+              <Input
+                id="copy-acquired"
+                type="date"
+                value={form.acquired_at}
+                onChange={(e) => setField("acquired_at", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="copy-status">Situação</Label>
+              <Select
+                value={form.status}
+                onValueChange={(value) => setField("status", value as CopyStatus)}
+                disabled={inCirculation}
+              >
+                <SelectTrigger id="copy-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(inCirculation ? [editing.status] : MANUAL_COPY_STATUSES).map(
+                    (status) => (
+                      <SelectItem key={status} value={status}>
+                        {COPY_STATUS_LABELS[status]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              {inCirculation && (
+                <p className="text-xs text-muted-foreground">
+                  A situação muda pela devolução ou pela retirada da reserva.
+                </p>
+              )}
+              {errors.status && (
+                <p className="text-sm font-medium text-destructive">
+                  {errors.status}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="copy-notes">Observações</Label>
+              <Textarea
+                id="copy-notes"
+                rows={2}
+                value={form.notes}
+                onChange={(e) => setField("notes", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowDialog(false)}
+              disabled={saving}
+            >
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? "Salvar" : "Cadastrar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BookCopies;
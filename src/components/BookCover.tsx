@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Book } from "@/types";
+import { cn } from "@/lib/utils";
+import { useBookCover } from "@/hooks/useBookCover";
+import { CoverSize, PLACEHOLDER_COVER } from "@/services/covers";
+
+interface BookCoverProps {
+  book: Pick<Book, "isbn" | "cover_url" | "title">;
+  size?: CoverSize;
+  // Só busca a capa quando o card chega perto da área visível
+  lazy?: boolean;
+  className?: string;
+}
+
+const BookCover: React.FC<BookCoverProps> = ({
+  book,
+  size = "M",
+  lazy = true,
+  className,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [inView, setInView] = useState(!lazy);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (inView || typeof IntersectionObserver === "undefined") {
+      setInView(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setInView(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    if (containerRef.current) observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [inView]);
+
+  const { src, isLoading } = useBookCover(book, size, { enabled: inView });
+
+  useEffect(() => {
+    setFailed(false);
+  }, [src]);
+
+  const showCover = !!src && !failed;
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("aspect-[2/3] overflow-hidden bg-muted", className)}
+    >
+      <img
+        src={showCover ? src : PLACEHOLDER_COVER}
+        alt={showCover ? `Capa de ${book.title}` : ""}
+        loading="lazy"
+        decoding="async"
+        onError={() => setFailed(true)}
+        className={cn(
+          "h-full w-full object-cover transition-opacity",
+          isLoading && inView && "animate-pulse opacity-60"
+        )}
+      />
+    </div>
+  );
+};
+
+export default BookCover;
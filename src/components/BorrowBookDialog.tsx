@@ -0,0 +1,150 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, BookCopy, CalendarClock, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { usePersonFees } from "@/hooks/useFees";
+import { useLoanRules, useLoanStatus } from "@/hooks/useLoanPolicy";
+import { useBorrowBook, usePersonLoans } from "@/hooks/useLoans";
+import { getErrorMessage } from "@/services/apiErrors";
+import { formatCurrency } from "@/services/fees";
+import { previewDueDate } from "@/services/loanPolicy";
+import { LoanState } from "@/services/loanStatus";
+import { Book } from "@/types";
+
+interface BorrowBookDialogProps {
+  book: Book;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("pt-BR", { day: "2-digit", month: "long", year: "numeric" });
+
+// Confirmação do empréstimo pedido pelo leitor. As regras mostradas aqui só
+// evitam pedidos que seriam recusados; a validação final é do servidor.
+const BorrowBookDialog: React.FC<BorrowBookDialogProps> = ({
+  book,
+  open,
+  onOpenChange,
+}) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: loans = [], isLoading: loadingLoans } = usePersonLoans(
+    open ? user?.id : undefined
+  );
+  const { data: fees, isLoading: loadingFees } = usePersonFees(open ? user?.id : undefined);
+  const isLoading = loadingLoans || loadingFees;
+  const borrowBook = useBorrowBook();
+  const rules = useLoanRules(user?.role);
+  const { stateOf } = useLoanStatus();
+
+  const activeLoans = loans.filter((loan) => !loan.return_date);
+  const overdueLoans = activeLoans.filter((loan) => stateOf(loan) === LoanState.OVERDUE);
+  const alreadyBorrowed = activeLoans.some((loan) => loan.book.id === book.id);
+  const balance = fees?.balance ?? 0;
+
+  const blockReason =
+    overdueLoans.length > 0
+      ? `Você tem ${overdueLoans.length} empréstimo(s) em atraso. Devolva-os para pegar novos livros.`
+      : balance > rules.max_balance
+      ? `Você deve ${formatCurrency(balance)} em multas e taxas, acima do limite de ${formatCurrency(
+          rules.max_balance
+        )}. Quite o débito no balcão.`
+      : alreadyBorrowed
+      ? "Você já está com um exemplar deste livro."
+      : activeLoans.length >= rules.max_active_loans
+      ? `Você atingiu o limite de ${rules.max_active_loans} empréstimos simultâneos.`
+      : null;
+
+  const dueDate = previewDueDate(rules);
+
+  const handleConfirm = async () => {
+    if (!user) return;
+
+    onOpenChange(false);
+
+    try {
+      const loan = await borrowBook.mutateAsync({ book, person: user });
+      toast.success(`Empréstimo de "${book.title}" realizado`, {
+        description: loan.copy
+          ? `Retire o exemplar ${loan.copy.barcode} no balcão.`
+          : "Retire o exemplar no balcão.",
+        action: {
+          label: "Ver empréstimos",
+          onClick: () => navigate("/emprestimos"),
+        },
+      });
+    } catch (error) {
+      console.error("Erro ao pedir empréstimo:", error);
+      toast.error(getErrorMessage(error, "Erro ao realizar o empréstimo."));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pegar emprestado</DialogTitle>
+          <DialogDescription>
+            Confirme o empréstimo de "{book.title}".
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mx-auto mb-2" />
+            Verificando seus empréstimos...
+          </div>
+        ) : (
+          <div className="space-y-3 py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              <span>
+                Devolução até <strong>{formatDate(dueDate)}</strong> (
+                {rules.loan_duration_days} dias)
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <BookCopy className="h-4 w-4 text-muted-foreground" />
+              <span>
+                Empréstimos ativos: {activeLoans.length} de {rules.max_active_loans}
+              </span>
+            </div>
+
+            {blockReason && (
+              <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{blockReason}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isLoading || !!blockReason || borrowBook.isPending}
+          >
+            <BookCopy className="h-4 w-4 mr-2" />
+            Confirmar empréstimo
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BorrowBookDialog;
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { BookFacets, BookSearchFilters, FacetCount } from "@/types";
+import { CatalogFilterKey } from "@/hooks/useCatalogSearch";
+import { languageLabel } from "@/services/bookMetadata";
+
+// Quantos valores cada faceta mostra antes do "Mostrar mais"
+const VISIBLE_VALUES = 6;
+
+interface FacetSectionProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+const FacetSection: React.FC<FacetSectionProps> = ({ title, children }) => {
+  const [open, setOpen] = useState(true);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-b py-3">
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium">
+        {title}
+        <ChevronDown
+          className={cn("h-4 w-4 transition-transform", open && "rotate-180")}
+        />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2">{children}</CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+interface FacetListProps {
+  values: FacetCount[];
+  selected?: string;
+  onSelect: (value: string | undefined) => void;
+  formatValue?: (value: string) => string;
+}
+
+// Um valor por faceta: clicar no selecionado remove o filtro
+const FacetList: React.FC<FacetListProps> = ({
+  values,
+  selected,
+  onSelect,
+  formatValue = (value) => value,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // O valor escolhido continua visível mesmo sem resultados com os demais filtros
+  const items =
+    selected && !values.some((item) => item.value === selected)
+      ? [{ value: selected, count: 0 }, ...values]
+      : values;
+  const visible = expanded ? items : items.slice(0, VISIBLE_VALUES);
+
+  if (items.length === 0) {
+    return <p className="text-xs text-muted-foreground">Nenhum valor</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {visible.map((item) => {
+        const isSelected = item.value === selected;
+        return (
+          <li key={item.value}>
+            <button
+              type="button"
+              aria-pressed={isSelected}
+              onClick={() => onSelect(isSelected ? undefined : item.value)}
+              className={cn(
+                "flex w-full items-center justify-between rounded px-2 py-1 text-left text-sm hover:bg-muted",
+                isSelected && "bg-primary/10 font-medium text-primary"
+              )}
+            >
+              <span className="truncate">{formatValue(item.value)}</span>
+              <span className="ml-2 shrink-0 text-xs text-muted-foreground">
+                {item.count}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+      {items.length > VISIBLE_VALUES && (
+        <li>
+          <button
+            type="button"
+            onClick={() => setExpanded((value) => !value)}
+            className="px-2 py-1 text-xs text-primary hover:underline"
+          >
+            {expanded ? "Mostrar menos" : `Mostrar mais (${items.length - VISIBLE_VALUES})`}
+          </button>
+        </li>
+      )}
+    </ul>
+  );
+};
+
+interface YearRangeProps {
+  from?: number;
+  to?: number;
+  onChange: (from: number | undefined, to: number | undefined) => void;
+}
+
+const YearRange: React.FC<YearRangeProps> = ({ from, to, onChange }) => {
+  const [draftFrom, setDraftFrom] = useState(from?.toString() ?? "");
+  const [draftTo, setDraftTo] = useState(to?.toString() ?? "");
+
+  // Mantém os campos em sincronia com a URL (voltar/avançar do navegador)
+  useEffect(() => setDraftFrom(from?.toString() ?? ""), [from]);
+  useEffect(() => setDraftTo(to?.toString() ?? ""), [to]);
+
+  const apply = () => {
+    const parse = (value: string) => (value.trim() ? Number(value) : undefined);
+    onChange(parse(draftFrom), parse(draftTo));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") apply();
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        inputMode="numeric"
+        aria-label="Ano inicial"
+        placeholder="De"
+        value={draftFrom}
+        onChange={(e) => setDraftFrom(e.target.value)}
+        onBlur={apply}
+        onKeyDown={handleKeyDown}
+        className="h-8"
+      />
+      <span className="text-muted-foreground">–</span>
+      <Input
+        type="number"
+        inputMode="numeric"
+        aria-label="Ano final"
+        placeholder="Até"
+        value={draftTo}
+        onChange={(e) => setDraftTo(e.target.value)}
+        onBlur={apply}
+        onKeyDown={handleKeyDown}
+        className="h-8"
+      />
+    </div>
+  );
+};
+
+interface CatalogFacetsProps {
+  facets: BookFacets | null;
+  filters: BookSearchFilters;
+  activeFilterCount: number;
+  onFilterChange: <K extends CatalogFilterKey>(
+    key: K,
+    value: BookSearchFilters[K] | undefined
+  ) => void;
+  onYearRangeChange: (from: number | undefined, to: number | undefined) => void;
+  onClear: () => void;
+}
+
+const CatalogFacets: React.FC<CatalogFacetsProps> = ({
+  facets,
+  filters,
+  activeFilterCount,
+  onFilterChange,
+  onYearRangeChange,
+  onClear,
+}) => {
+  const selectedYear =
+    filters.year_from !== undefined && filters.year_from === filters.year_to
+      ? String(filters.year_from)
+      : undefined;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between pb-2">
+        <h2 className="text-base font-semibold">Filtros</h2>
+        {activeFilterCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            <X className="h-3 w-3 mr-1" />
+            Limpar ({activeFilterCount})
+          </Button>
+        )}
+      </div>
+
+      <FacetSection title="Disponibilidade">
+        <div className="flex items-center space-x-2 px-2">
+          <Checkbox
+            id="facet-available"
+            checked={!!filters.available}
+            onCheckedChange={(checked) =>
+              onFilterChange("available", checked === true ? true : undefined)
+            }
+          />
+          <Label htmlFor="facet-available" className="text-sm font-normal">
+            Somente disponíveis
+            {facets && (
+              <span className="ml-1 text-xs text-muted-foreground">
+                ({facets.availability.available})
+              </span>
+            )}
+          </Label>
+        </div>
+      </FacetSection>
+
+      <FacetSection title="Autor">
+        <FacetList
+          values={facets?.author ?? []}
+          selected={filters.author}
+          onSelect={(value) => onFilterChange("author", value)}
+        />
+      </FacetSection>
+
+      <FacetSection title="Ano de publicação">
+        <div className="space-y-3">
+          <YearRange
+            from={filters.year_from}
+            to={filters.year_to}
+            onChange={onYearRangeChange}
+          />
+          <FacetList
+            values={facets?.published_year ?? []}
+            selected={selectedYear}
+            onSelect={(value) =>
+              onYearRangeChange(
+                value ? Number(value) : undefined,
+                value ? Number(value) : undefined
+              )
+            }
+          />
+        </div>
+      </FacetSection>
+
+      <FacetSection title="Editora">
+        <FacetList
+          values={facets?.publisher ?? []}
+          selected={filters.publisher}
+          onSelect={(value) => onFilterChange("publisher", value)}
+        />
+      </FacetSection>
+
+      <FacetSection title="Idioma">
+        <FacetList
+          values={facets?.language ?? []}
+          selected={filters.language}
+          onSelect={(value) => onFilterChange("language", value)}
+          formatValue={languageLabel}
+        />
+      </FacetSection>
+    </div>
+  );
+};
+
+export default CatalogFacets;
@@ -0,0 +1,215 @@
+import React, { useMemo, useRef, useState } from "react";
+import { AlertCircle, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  CATALOG_QUERY_FIELDS,
+  CatalogQueryToken,
+  ParsedCatalogQuery,
+} from "@/services/catalogQuery";
+
+interface CatalogSearchInputProps {
+  value: string;
+  parsed: ParsedCatalogQuery;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+const TOKEN_CLASSES: Record<CatalogQueryToken["kind"], string> = {
+  field: "text-primary font-medium",
+  value: "",
+  phrase: "text-emerald-700 dark:text-emerald-400",
+  operator: "text-amber-600 font-semibold",
+  paren: "text-muted-foreground",
+};
+
+// Palavra sendo digitada antes do cursor (candidata a nome de campo)
+const wordBeforeCaret = (value: string, caret: number) => {
+  const match = /[^\s()"]*$/.exec(value.slice(0, caret));
+  const word = match ? match[0] : "";
+  return { word, start: caret - word.length };
+};
+
+// Divide a busca em trechos com a mesma classe de realce
+const buildSegments = (value: string, parsed: ParsedCatalogQuery) => {
+  const classes = Array.from({ length: value.length }, () => "");
+  parsed.tokens.forEach((token) => {
+    for (let i = token.start; i < token.end; i++) classes[i] = TOKEN_CLASSES[token.kind];
+  });
+
+  const errorAt = Array.from({ length: value.length }, () => false);
+  parsed.errors.forEach((error) => {
+    // Erros no fim da busca marcam ao menos o último caractere
+    const start = Math.min(error.start, Math.max(0, value.length - 1));
+    for (let i = start; i < Math.max(error.end, start + 1); i++) errorAt[i] = true;
+  });
+
+  const segments: { text: string; className: string; error: boolean }[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.className === classes[i] && last.error === errorAt[i]) {
+      last.text += value[i];
+    } else {
+      segments.push({ text: value[i], className: classes[i], error: errorAt[i] });
+    }
+  }
+  return segments;
+};
+
+const CatalogSearchInput: React.FC<CatalogSearchInputProps> = ({
+  value,
+  parsed,
+  onChange,
+  placeholder,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const { word, start } = wordBeforeCaret(value, caret);
+  const suggestions = useMemo(() => {
+    if (!word || word.includes(":")) return [];
+    const prefix = word.toLowerCase();
+    return CATALOG_QUERY_FIELDS.filter(
+      (field) => field.name.startsWith(prefix) && field.name !== prefix
+    );
+  }, [word]);
+
+  const showSuggestions = focused && !dismissed && suggestions.length > 0;
+  const hasErrors = parsed.errors.length > 0;
+  const segments = useMemo(() => buildSegments(value, parsed), [value, parsed]);
+
+  const syncCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    setHighlighted(0);
+    setDismissed(false);
+  };
+
+  const acceptSuggestion = (fieldName: string) => {
+    const insertion = `${fieldName}:`;
+    const next = value.slice(0, start) + insertion + value.slice(caret);
+    const nextCaret = start + insertion.length;
+    onChange(next);
+    setCaret(nextCaret);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted(
+        (current) => (current + step + suggestions.length) % suggestions.length
+      );
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      acceptSuggestion(suggestions[highlighted]?.name ?? suggestions[0].name);
+    } else if (e.key === "Escape") {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+        <Input
+          ref={inputRef}
+          placeholder={placeholder}
+          className={cn(
+            "pl-10",
+            hasErrors && "border-destructive focus-visible:ring-destructive"
+          )}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onKeyUp={syncCaret}
+          onClick={syncCaret}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          aria-invalid={hasErrors}
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          spellCheck={false}
+          autoComplete="off"
+        />
+
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute z-20 mt-1 w-72 rounded-md border bg-popover p-1 text-sm shadow-md"
+          >
+            {suggestions.map((field, index) => (
+              <li
+                key={field.name}
+                role="option"
+                aria-selected={index === highlighted}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between rounded-sm px-2 py-1.5",
+                  index === highlighted && "bg-accent text-accent-foreground"
+                )}
+                // mousedown para não perder o foco do campo antes do clique
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(field.name);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+              >
+                <span className="font-mono text-primary font-medium">
+                  {field.name}:
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {field.description} · {field.example}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Prévia com realce de sintaxe, só para buscas avançadas */}
+      {value && (parsed.isAdvanced || hasErrors) && (
+        <div className="px-3 text-sm">
+          <p className="font-mono whitespace-pre-wrap break-all">
+            {segments.map((segment, index) => (
+              <span
+                key={index}
+                className={cn(
+                  segment.className,
+                  segment.error &&
+                    "underline decoration-wavy decoration-destructive underline-offset-4"
+                )}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </p>
+          {parsed.errors.map((error) => (
+            <p
+              key={`${error.start}-${error.message}`}
+              className="flex items-center text-destructive mt-1"
+            >
+              <AlertCircle className="h-3.5 w-3.5 mr-1 shrink-0" />
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatalogSearchInput;
@@ -0,0 +1,166 @@
+import React from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DataPaginationProps {
+  // Página atual, começando em 0
+  page: number;
+  pageSize: number;
+  // null quando o servidor não informa o total (resposta em array)
+  total: number | null;
+  // Quantidade de itens recebidos na página atual
+  itemCount: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange?: (pageSize: number) => void;
+  pageSizeOptions?: number[];
+  className?: string;
+}
+
+type PageSlot = number | "ellipsis-start" | "ellipsis-end";
+
+// Primeira, última e as vizinhas da página atual, com reticências entre elas
+const getPageSlots = (page: number, totalPages: number): PageSlot[] => {
+  if (totalPages <= 7) {
+    return Array.from({ length: totalPages }, (_, index) => index);
+  }
+
+  const start = Math.max(1, Math.min(page - 1, totalPages - 4));
+  const end = Math.min(totalPages - 2, Math.max(page + 1, 3));
+  const slots: PageSlot[] = [0];
+
+  if (start > 1) slots.push("ellipsis-start");
+  for (let index = start; index <= end; index++) slots.push(index);
+  if (end < totalPages - 2) slots.push("ellipsis-end");
+  slots.push(totalPages - 1);
+
+  return slots;
+};
+
+const DataPagination: React.FC<DataPaginationProps> = ({
+  page,
+  pageSize,
+  total,
+  itemCount,
+  onPageChange,
+  onPageSizeChange,
+  pageSizeOptions = [10, 25, 50],
+  className,
+}) => {
+  const totalPages = total === null ? null : Math.max(1, Math.ceil(total / pageSize));
+  const hasPrevious = page > 0;
+  const hasNext = totalPages === null ? itemCount >= pageSize : page < totalPages - 1;
+
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    onPageChange(target);
+  };
+
+  const sizeOptions = Array.from(new Set([...pageSizeOptions, pageSize])).sort(
+    (a, b) => a - b
+  );
+  const firstItem = itemCount > 0 ? page * pageSize + 1 : 0;
+  const lastItem = page * pageSize + itemCount;
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col sm:flex-row items-center justify-between gap-4 mt-8",
+        className
+      )}
+    >
+      <p className="text-sm text-muted-foreground">
+        {total === null
+          ? `Página ${page + 1}`
+          : `Mostrando ${firstItem}–${lastItem} de ${total}`}
+      </p>
+
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationLink
+              href="#"
+              size="default"
+              aria-label="Página anterior"
+              aria-disabled={!hasPrevious}
+              className={cn("gap-1 pl-2.5", !hasPrevious && "pointer-events-none opacity-50")}
+              onClick={goTo(page - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              <span>Anterior</span>
+            </PaginationLink>
+          </PaginationItem>
+
+          {totalPages !== null &&
+            getPageSlots(page, totalPages).map((slot) =>
+              typeof slot === "number" ? (
+                <PaginationItem key={slot}>
+                  <PaginationLink
+                    href="#"
+                    isActive={slot === page}
+                    onClick={goTo(slot)}
+                  >
+                    {slot + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              ) : (
+                <PaginationItem key={slot}>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              )
+            )}
+
+          <PaginationItem>
+            <PaginationLink
+              href="#"
+              size="default"
+              aria-label="Próxima página"
+              aria-disabled={!hasNext}
+              className={cn("gap-1 pr-2.5", !hasNext && "pointer-events-none opacity-50")}
+              onClick={goTo(page + 1)}
+            >
+              <span>Próxima</span>
+              <ChevronRight className="h-4 w-4" />
+            </PaginationLink>
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+
+      {onPageSizeChange && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>Itens por página</span>
+          <Select
+            value={String(pageSize)}
+            onValueChange={(value) => onPageSizeChange(Number(value))}
+          >
+            <SelectTrigger className="w-[80px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sizeOptions.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataPagination;
@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { Server, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ENVIRONMENT_PROFILES,
+  EnvironmentProfile,
+  getBuildProfile,
+  getEnvironment,
+  getEnvironmentOverride,
+  setEnvironmentOverride,
+} from "@/services/environment";
+
+// Painel do administrador para apontar o mesmo build para outro servidor
+const EnvironmentPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const current = getEnvironment();
+  const override = getEnvironmentOverride();
+
+  const [profile, setProfile] = useState<EnvironmentProfile>(current.profile);
+  const [apiBaseUrl, setApiBaseUrl] = useState(override?.apiBaseUrl ?? "");
+  const [openLibraryBaseUrl, setOpenLibraryBaseUrl] = useState(
+    override?.openLibraryBaseUrl ?? ""
+  );
+  const [openLibraryCoversUrl, setOpenLibraryCoversUrl] = useState(
+    override?.openLibraryCoversUrl ?? ""
+  );
+
+  const selected = ENVIRONMENT_PROFILES[profile];
+
+  // As instâncias do axios são criadas no carregamento, então recarrega a página
+  const applyAndReload = () => {
+    window.location.reload();
+  };
+
+  const handleSave = () => {
+    setEnvironmentOverride({
+      profile,
+      apiBaseUrl: apiBaseUrl.trim() || undefined,
+      openLibraryBaseUrl: openLibraryBaseUrl.trim() || undefined,
+      openLibraryCoversUrl: openLibraryCoversUrl.trim() || undefined,
+    });
+    applyAndReload();
+  };
+
+  const handleReset = () => {
+    setEnvironmentOverride(null);
+    applyAndReload();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Configurar servidor">
+          <Server className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Servidor da biblioteca</DialogTitle>
+          <DialogDescription>
+            Ambiente atual: <strong>{current.label}</strong> ({current.apiBaseUrl})
+            {override ? " — sobrescrito neste navegador" : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="environment-profile">Perfil</Label>
+            <Select
+              value={profile}
+              onValueChange={(value) => setProfile(value as EnvironmentProfile)}
+            >
+              <SelectTrigger id="environment-profile">
+                <SelectValue placeholder="Selecione um perfil" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ENVIRONMENT_PROFILES).map((item) => (
+                  <SelectItem key={item.profile} value={item.profile}>
+                    {item.label}
+                    {item.profile === getBuildProfile() ? " (padrão do build)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!selected.useMockBackend && (
+            <div className="space-y-2">
+              <Label htmlFor="environment-api-url">URL da API</Label>
+              <Input
+                id="environment-api-url"
+                value={apiBaseUrl}
+                onChange={(e) => setApiBaseUrl(e.target.value)}
+                placeholder={selected.apiBaseUrl}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="environment-openlibrary-url">URL do Open Library</Label>
+            <Input
+              id="environment-openlibrary-url"
+              value={openLibraryBaseUrl}
+              onChange={(e) => setOpenLibraryBaseUrl(e.target.value)}
+              placeholder={selected.openLibraryBaseUrl}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="environment-covers-url">URL das capas</Label>
+            <Input
+              id="environment-covers-url"
+              value={openLibraryCoversUrl}
+              onChange={(e) => setOpenLibraryCoversUrl(e.target.value)}
+              placeholder={selected.openLibraryCoversUrl}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            A página será recarregada para aplicar as alterações. Pode ser
+            necessário entrar novamente no novo servidor.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleReset} disabled={!override}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restaurar padrão
+          </Button>
+          <Button onClick={handleSave}>
+            <Save className="h-4 w-4 mr-2" />
+            Salvar e recarregar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EnvironmentPanel;
@@ -0,0 +1,333 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2, Plus, Receipt } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useRecordFee, usePersonFees } from "@/hooks/useFees";
+import { usePersonLoans } from "@/hooks/useLoans";
+import { applyFieldErrors, getErrorMessage } from "@/services/apiErrors";
+import { FEE_TYPE_LABELS, formatCurrency } from "@/services/fees";
+import { FeeType, User } from "@/types";
+
+// Lançamentos manuais; multas por atraso são geradas na devolução
+const MANUAL_FEE_TYPES = [
+  FeeType.PAYMENT,
+  FeeType.WAIVER,
+  FeeType.LOST_ITEM,
+  FeeType.DAMAGED_ITEM,
+];
+
+const FEE_FORM_FIELDS = ["amount", "reason", "loan_id"] as const;
+
+type FeeFormErrors = Partial<Record<(typeof FEE_FORM_FIELDS)[number], string>>;
+
+const NO_LOAN = "none";
+
+interface FeeEntryDialogProps {
+  personId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FeeEntryDialog: React.FC<FeeEntryDialogProps> = ({
+  personId,
+  open,
+  onOpenChange,
+}) => {
+  const [type, setType] = useState<FeeType>(FeeType.PAYMENT);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [loanId, setLoanId] = useState(NO_LOAN);
+  const [errors, setErrors] = useState<FeeFormErrors>({});
+  const recordFee = useRecordFee();
+  const isCharge = type === FeeType.LOST_ITEM || type === FeeType.DAMAGED_ITEM;
+  const { data: loans = [] } = usePersonLoans(open && isCharge ? personId : undefined);
+
+  const reset = () => {
+    setType(FeeType.PAYMENT);
+    setAmount("");
+    setReason("");
+    setLoanId(NO_LOAN);
+    setErrors({});
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setErrors({});
+
+    try {
+      await recordFee.mutateAsync({
+        personId,
+        fee: {
+          type,
+          amount: Number(amount.replace(",", ".")),
+          reason: reason.trim() || undefined,
+          loan_id: isCharge && loanId !== NO_LOAN ? Number(loanId) : undefined,
+        },
+      });
+      toast.success(`${FEE_TYPE_LABELS[type]} registrado`);
+      onOpenChange(false);
+      reset();
+    } catch (error) {
+      console.error("Erro ao registrar lançamento:", error);
+      const fieldErrors: FeeFormErrors = {};
+      const showedInline = applyFieldErrors(error, FEE_FORM_FIELDS, (field, message) => {
+        fieldErrors[field] = message;
+      });
+      setErrors(fieldErrors);
+      if (!showedInline) {
+        toast.error(getErrorMessage(error, "Erro ao registrar o lançamento."));
+      }
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Novo lançamento</DialogTitle>
+          <DialogDescription>
+            Registre um pagamento, uma isenção ou a cobrança de um exemplar perdido ou danificado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="fee-entry-form" onSubmit={handleSubmit} className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="feeType">Tipo</Label>
+            <Select value={type} onValueChange={(value) => setType(value as FeeType)}>
+              <SelectTrigger id="feeType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MANUAL_FEE_TYPES.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {FEE_TYPE_LABELS[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="feeAmount">Valor (R$)</Label>
+            <Input
+              id="feeAmount"
+              inputMode="decimal"
+              placeholder="0,00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={errors.amount ? "border-destructive" : ""}
+            />
+            {errors.amount && <p className="text-xs text-destructive">{errors.amount}</p>}
+          </div>
+
+          {isCharge && (
+            <div className="space-y-2">
+              <Label htmlFor="feeLoan">Empréstimo</Label>
+              <Select value={loanId} onValueChange={setLoanId}>
+                <SelectTrigger id="feeLoan">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LOAN}>Nenhum</SelectItem>
+                  {loans.map((loan) => (
+                    <SelectItem key={loan.id} value={String(loan.id)}>
+                      {loan.book.title}
+                      {loan.copy && ` · ${loan.copy.barcode}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.loan_id && <p className="text-xs text-destructive">{errors.loan_id}</p>}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="feeReason">
+              {type === FeeType.PAYMENT ? "Observação" : "Motivo"}
+            </Label>
+            <Textarea
+              id="feeReason"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className={errors.reason ? "border-destructive" : ""}
+            />
+            {errors.reason && <p className="text-xs text-destructive">{errors.reason}</p>}
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            type="submit"
+            form="fee-entry-form"
+            disabled={!amount.trim() || recordFee.isPending}
+          >
+            {recordFee.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Registrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface FeeLedgerProps {
+  personId: number;
+  // Equipe pode registrar pagamentos, isenções e cobranças
+  canManage?: boolean;
+}
+
+// Extrato de multas e taxas de um leitor, com o saldo devedor atual
+export const FeeLedger: React.FC<FeeLedgerProps> = ({ personId, canManage }) => {
+  const { data: ledger, isLoading } = usePersonFees(personId);
+  const [showEntryDialog, setShowEntryDialog] = useState(false);
+
+  if (isLoading || !ledger) {
+    return (
+      <div className="py-6 text-center text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mx-auto mb-2" />
+        Carregando extrato...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-sm text-muted-foreground">Saldo devedor</p>
+          <p
+            className={`text-2xl font-semibold ${
+              ledger.balance > 0 ? "text-destructive" : ""
+            }`}
+          >
+            {formatCurrency(ledger.balance)}
+          </p>
+          {ledger.accruing > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Inclui {formatCurrency(ledger.accruing)} de multas de empréstimos ainda em
+              atraso, lançadas na devolução.
+            </p>
+          )}
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => setShowEntryDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo lançamento
+          </Button>
+        )}
+      </div>
+
+      {ledger.entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum lançamento.</p>
+      ) : (
+        <div className="border rounded-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-muted text-left">
+                <th className="px-3 py-2 font-medium">Data</th>
+                <th className="px-3 py-2 font-medium">Lançamento</th>
+                <th className="px-3 py-2 font-medium text-right">Valor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.entries.map((entry) => (
+                <tr key={entry.id} className="border-t align-top">
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {new Date(entry.created_at).toLocaleDateString("pt-BR")}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium">{FEE_TYPE_LABELS[entry.type]}</div>
+                    {entry.loan && (
+                      <Link
+                        to={`/livros/${entry.loan.book.id}`}
+                        className="text-xs hover:underline"
+                      >
+                        {entry.loan.book.title}
+                        {entry.loan.copy && ` · ${entry.loan.copy.barcode}`}
+                      </Link>
+                    )}
+                    {(entry.reason || entry.created_by) && (
+                      <div className="text-xs text-muted-foreground">
+                        {[entry.reason, entry.created_by && `por ${entry.created_by}`]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    )}
+                  </td>
+                  <td
+                    className={`px-3 py-2 text-right whitespace-nowrap ${
+                      entry.amount < 0 ? "text-green-700" : ""
+                    }`}
+                  >
+                    {formatCurrency(entry.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canManage && (
+        <FeeEntryDialog
+          personId={personId}
+          open={showEntryDialog}
+          onOpenChange={setShowEntryDialog}
+        />
+      )}
+    </div>
+  );
+};
+
+interface FeeLedgerDialogProps {
+  person: User | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Extrato aberto a partir da lista de usuários
+export const FeeLedgerDialog: React.FC<FeeLedgerDialogProps> = ({
+  person,
+  onOpenChange,
+}) => (
+  <Dialog open={!!person} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-2xl">
+      <DialogHeader>
+        <DialogTitle className="flex items-center">
+          <Receipt className="h-5 w-5 mr-2" />
+          Multas e taxas
+        </DialogTitle>
+        <DialogDescription>{person?.name}</DialogDescription>
+      </DialogHeader>
+      {person && <FeeLedger personId={Number(person.id)} canManage />}
+    </DialogContent>
+  </Dialog>
+);
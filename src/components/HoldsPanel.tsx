@@ -0,0 +1,209 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Bookmark, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCancelHold, useHolds, usePersonHolds } from "@/hooks/useHolds";
+import { getErrorMessage } from "@/services/apiErrors";
+import { describeHold } from "@/services/bookMetadata";
+import { Hold, HoldStatus } from "@/types";
+
+const ACTIVE_STATUSES = [HoldStatus.WAITING, HoldStatus.READY];
+
+const useCancelHoldAction = () => {
+  const cancelHold = useCancelHold();
+
+  const cancel = async (hold: Hold) => {
+    try {
+      await cancelHold.mutateAsync(hold.id);
+      toast.success(`Reserva de "${hold.book.title}" cancelada`);
+    } catch (error) {
+      console.error("Erro ao cancelar reserva:", error);
+      toast.error(getErrorMessage(error, "Erro ao cancelar a reserva."));
+    }
+  };
+
+  return { cancel, cancelingId: cancelHold.isPending ? cancelHold.variables : null };
+};
+
+interface HoldsShelfDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Estante de reservas do balcão: exemplares separados aguardando retirada e,
+// abaixo, as filas de espera
+export const HoldsShelfDialog: React.FC<HoldsShelfDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { data: holds = [], isLoading } = useHolds(ACTIVE_STATUSES, {
+    enabled: open,
+  });
+  const { cancel, cancelingId } = useCancelHoldAction();
+
+  const ready = holds.filter((hold) => hold.status === HoldStatus.READY);
+  const waiting = holds.filter((hold) => hold.status === HoldStatus.WAITING);
+
+  const renderRow = (hold: Hold) => (
+    <tr key={hold.id} className="border-t">
+      <td className="px-3 py-2">
+        <Link
+          to={`/livros/${hold.book.id}`}
+          className="font-medium hover:underline"
+          onClick={() => onOpenChange(false)}
+        >
+          {hold.book.title}
+        </Link>
+        {hold.copy && (
+          <div className="text-xs text-muted-foreground font-mono">
+            {hold.copy.barcode}
+          </div>
+        )}
+      </td>
+      <td className="px-3 py-2">{hold.person.name}</td>
+      <td className="px-3 py-2 text-muted-foreground">{describeHold(hold)}</td>
+      <td className="px-3 py-2 text-right">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => cancel(hold)}
+          disabled={cancelingId === hold.id}
+        >
+          {cancelingId === hold.id ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <X className="h-3 w-3" />
+          )}
+          <span className="ml-1">Cancelar</span>
+        </Button>
+      </td>
+    </tr>
+  );
+
+  const renderTable = (items: Hold[], empty: string) =>
+    items.length === 0 ? (
+      <p className="text-sm text-muted-foreground">{empty}</p>
+    ) : (
+      <div className="border rounded-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-muted text-left">
+              <th className="px-3 py-2 font-medium">Livro</th>
+              <th className="px-3 py-2 font-medium">Leitor</th>
+              <th className="px-3 py-2 font-medium">Situação</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>{items.map(renderRow)}</tbody>
+        </table>
+      </div>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Estante de reservas</DialogTitle>
+          <DialogDescription>
+            Para entregar, escaneie o exemplar em "Emitir novo empréstimo". Reservas
+            não retiradas no prazo expiram e o exemplar passa ao próximo da fila.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mx-auto mb-2" />
+            Carregando reservas...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <h3 className="font-semibold">Aguardando retirada</h3>
+              {renderTable(ready, "Nenhum exemplar separado no momento.")}
+            </div>
+            <div className="space-y-2">
+              <h3 className="font-semibold">Filas de espera</h3>
+              {renderTable(waiting, "Nenhum leitor aguardando.")}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface MyHoldsProps {
+  personId: number | string;
+}
+
+// Reservas em aberto do leitor, na página "Meus empréstimos"
+export const MyHolds: React.FC<MyHoldsProps> = ({ personId }) => {
+  const { data: holds = [] } = usePersonHolds(personId);
+  const { cancel, cancelingId } = useCancelHoldAction();
+  const active = holds.filter((hold) => ACTIVE_STATUSES.includes(hold.status));
+
+  if (active.length === 0) return null;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <h2 className="text-lg font-semibold flex items-center">
+        <Bookmark className="h-4 w-4 mr-2" />
+        Minhas reservas
+      </h2>
+      <ul className="divide-y">
+        {active.map((hold) => (
+          <li
+            key={hold.id}
+            className="flex items-center justify-between gap-3 py-2 text-sm"
+          >
+            <div>
+              <Link
+                to={`/livros/${hold.book.id}`}
+                className="font-medium hover:underline"
+              >
+                {hold.book.title}
+              </Link>
+              <div className="text-xs text-muted-foreground">
+                {hold.book.author}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge
+                variant="outline"
+                className={
+                  hold.status === HoldStatus.READY
+                    ? "bg-green-500/10 text-green-700"
+                    : ""
+                }
+              >
+                {describeHold(hold)}
+              </Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => cancel(hold)}
+                disabled={cancelingId === hold.id}
+                aria-label={`Cancelar reserva de ${hold.book.title}`}
+              >
+                {cancelingId === hold.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <X className="h-3 w-3" />
+                )}
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
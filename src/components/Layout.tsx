@@ -9,11 +9,19 @@ import {
   Users,
   LogOut,
   Menu,
-  X
+  X,
+  WifiOff,
+  RefreshCw,
+  Scale,
+  ScanLine,
 } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Role } from '@/types';
+import { useBackendHealth } from '@/hooks/useBackendHealth';
+import { useHoldNotifications } from '@/hooks/useHolds';
+import { useResumePendingReturns } from '@/hooks/useLoans';
+import { getEnvironment } from '@/services/environment';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -23,6 +31,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { user, logout, hasRole } = useAuth();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { isReachable, isChecking, recheck } = useBackendHealth();
+  useHoldNotifications(user?.id);
+  useResumePendingReturns(!!user && hasRole([Role.LIBRARIAN, Role.ADMIN]));
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
   const closeSidebar = () => setSidebarOpen(false);
@@ -46,12 +57,24 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       href: '/emprestimos',
       roles: [Role.READER, Role.LIBRARIAN, Role.ADMIN],
     },
+    {
+      label: 'Balcão',
+      icon: <ScanLine className="h-5 w-5" />,
+      href: '/balcao',
+      roles: [Role.LIBRARIAN, Role.ADMIN],
+    },
     {
       label: 'Usuários',
       icon: <Users className="h-5 w-5" />,
       href: '/usuarios',
       roles: [Role.LIBRARIAN, Role.ADMIN, Role.READER],
     },
+    {
+      label: 'Política de empréstimos',
+      icon: <Scale className="h-5 w-5" />,
+      href: '/politica-emprestimos',
+      roles: [Role.ADMIN],
+    },
   ];
 
   const filteredNavItems = navItems.filter(item =>
@@ -164,6 +187,29 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
 
       <div className="flex-1 flex flex-col overflow-hidden">
         <Navbar user={user} logout={logout} />
+        {!isReachable && (
+          <div
+            role="alert"
+            className="flex items-center justify-between gap-3 border-b border-destructive/50 bg-destructive/10 px-6 py-2 text-sm text-destructive"
+          >
+            <div className="flex items-center gap-2">
+              <WifiOff className="h-4 w-4 flex-shrink-0" />
+              <span>
+                Servidor indisponível ({getEnvironment().apiBaseUrl}). Algumas
+                informações podem estar desatualizadas.
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => recheck()}
+              disabled={isChecking}
+            >
+              <RefreshCw className={cn("h-3 w-3 mr-1", isChecking && "animate-spin")} />
+              Tentar novamente
+            </Button>
+          </div>
+        )}
         <main className="flex-1 overflow-y-auto py-6 px-6 lg:py-8 lg:px-10 bg-background">
           {children}
         </main>
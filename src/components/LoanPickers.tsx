@@ -0,0 +1,257 @@
+import React, { forwardRef, useCallback, useEffect, useRef } from "react";
+import AsyncSelect from "react-select/async";
+import { SelectInstance, StylesConfig } from "react-select";
+import { useQueryClient } from "@tanstack/react-query";
+import { booksAPI, usersAPI } from "@/services/api";
+import { queryKeys } from "@/hooks/queryKeys";
+import { formatCurrency } from "@/services/fees";
+import { formatIsbn } from "@/services/isbn";
+import { Book, User } from "@/types";
+
+// Seletores de livro e pessoa do balcão: a busca acontece no servidor (com
+// debounce), então funcionam com acervos grandes. Todo o fluxo funciona pelo
+// teclado: digitar, setas, Enter para escolher, Esc para fechar, Tab para sair.
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_LIMIT = 20;
+
+const selectStyles: StylesConfig<Book | User, false> = {
+  control: (provided, state) => ({
+    ...provided,
+    backgroundColor: "hsl(var(--input))",
+    borderColor: state.isFocused ? "hsl(var(--ring))" : "hsl(var(--border))",
+    color: "hsl(var(--foreground))",
+    boxShadow: state.isFocused ? "0 0 0 1px hsl(var(--ring))" : "none",
+    "&:hover": {
+      borderColor: "hsl(var(--ring))",
+    },
+  }),
+  menu: (provided) => ({
+    ...provided,
+    backgroundColor: "hsl(var(--popover))",
+    color: "hsl(var(--popover-foreground))",
+    zIndex: 20,
+  }),
+  singleValue: (provided) => ({
+    ...provided,
+    color: "hsl(var(--foreground))",
+  }),
+  input: (provided) => ({
+    ...provided,
+    color: "hsl(var(--foreground))",
+  }),
+  option: (provided, state) => ({
+    ...provided,
+    backgroundColor: state.isFocused
+      ? "hsl(var(--muted))"
+      : "hsl(var(--popover))",
+    color: "hsl(var(--foreground))",
+    opacity: state.isDisabled ? 0.6 : 1,
+    cursor: state.isDisabled ? "not-allowed" : "pointer",
+  }),
+  placeholder: (provided) => ({
+    ...provided,
+    color: "hsl(var(--muted-foreground))",
+  }),
+};
+
+// loadOptions do react-select com debounce: só a última digitação chega ao
+// servidor. As buscas substituídas resolvem com [] para nenhuma promessa ficar
+// pendente, inclusive a carga inicial de defaultOptions.
+function useDebouncedLoader<T>(search: (query: string) => Promise<T[]>) {
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const pending = useRef<(options: T[]) => void>();
+
+  useEffect(
+    () => () => {
+      clearTimeout(timer.current);
+      pending.current?.([]);
+    },
+    []
+  );
+
+  return useCallback(
+    (input: string) =>
+      new Promise<T[]>((resolve) => {
+        clearTimeout(timer.current);
+        pending.current?.([]);
+        pending.current = resolve;
+        timer.current = setTimeout(() => {
+          pending.current = undefined;
+          search(input.trim())
+            .then(resolve)
+            .catch(() => resolve([]));
+        }, SEARCH_DEBOUNCE_MS);
+      }),
+    [search]
+  );
+}
+
+interface PickerProps<T> {
+  id?: string;
+  value: T | null;
+  onChange: (value: T | null) => void;
+  placeholder?: string;
+  // No diálogo de empréstimo, livros sem exemplar e pessoas bloqueadas não
+  // podem ser escolhidos; nos filtros, qualquer registro vale
+  forLoan?: boolean;
+  isClearable?: boolean;
+  autoFocus?: boolean;
+}
+
+type BookSelect = SelectInstance<Book, false>;
+type PersonSelect = SelectInstance<User, false>;
+
+const availabilityLabel = (book: Book) =>
+  book.available > 0
+    ? `${book.available} de ${book.quantity} disponíveis`
+    : "Indisponível";
+
+export const BookPicker = forwardRef<BookSelect, PickerProps<Book>>(
+  ({ id, value, onChange, placeholder = "Buscar livro por título, autor ou ISBN", forLoan, isClearable, autoFocus }, ref) => {
+    const queryClient = useQueryClient();
+
+    const searchBooks = useCallback(
+      async (query: string) => {
+        const params = { page: 0, limit: SEARCH_LIMIT, query, filters: {} };
+        const result = await queryClient.fetchQuery({
+          queryKey: queryKeys.books.list(params),
+          queryFn: () => booksAPI.getAll(0, SEARCH_LIMIT, query),
+        });
+        return result.items;
+      },
+      [queryClient]
+    );
+    const loadOptions = useDebouncedLoader(searchBooks);
+
+    return (
+      <AsyncSelect<Book, false>
+        ref={ref}
+        inputId={id}
+        styles={selectStyles as StylesConfig<Book, false>}
+        value={value}
+        onChange={(option) => onChange(option ?? null)}
+        loadOptions={loadOptions}
+        defaultOptions
+        getOptionValue={(book) => String(book.id)}
+        getOptionLabel={(book) => `${book.title} - ${book.author}`}
+        isOptionDisabled={(book) => !!forLoan && book.available <= 0}
+        formatOptionLabel={(book, { context }) =>
+          context === "value" ? (
+            `${book.title} - ${book.author}`
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="truncate font-medium">{book.title}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {book.author} · ISBN {formatIsbn(book.isbn)}
+                </p>
+              </div>
+              <span
+                className={
+                  book.available > 0
+                    ? "shrink-0 text-xs text-green-700"
+                    : "shrink-0 text-xs text-destructive"
+                }
+              >
+                {availabilityLabel(book)}
+              </span>
+            </div>
+          )
+        }
+        placeholder={placeholder}
+        loadingMessage={() => "Buscando livros..."}
+        noOptionsMessage={({ inputValue }) =>
+          inputValue ? `Nenhum livro encontrado para "${inputValue}"` : "Digite para buscar"
+        }
+        isClearable={isClearable}
+        autoFocus={autoFocus}
+        openMenuOnFocus
+      />
+    );
+  }
+);
+BookPicker.displayName = "BookPicker";
+
+const personStatusLabel = (person: User) => {
+  if (person.blocked) {
+    if (person.overdue_loans_count) {
+      return `Bloqueado · ${person.overdue_loans_count} em atraso`;
+    }
+    return person.balance
+      ? `Bloqueado · deve ${formatCurrency(person.balance)}`
+      : "Bloqueado";
+  }
+  if (person.active_loans_count === undefined) return null;
+  return person.active_loans_count === 1
+    ? "1 empréstimo ativo"
+    : `${person.active_loans_count} empréstimos ativos`;
+};
+
+export const PersonPicker = forwardRef<PersonSelect, PickerProps<User>>(
+  ({ id, value, onChange, placeholder = "Buscar usuário por nome ou e-mail", forLoan, isClearable, autoFocus }, ref) => {
+    const queryClient = useQueryClient();
+
+    const searchPeople = useCallback(
+      async (query: string) => {
+        const params = { page: 0, limit: SEARCH_LIMIT, query, roles: undefined };
+        const result = await queryClient.fetchQuery({
+          queryKey: queryKeys.people.list(params),
+          queryFn: () => usersAPI.getAll(0, SEARCH_LIMIT, query, undefined),
+        });
+        return result.items;
+      },
+      [queryClient]
+    );
+    const loadOptions = useDebouncedLoader(searchPeople);
+
+    return (
+      <AsyncSelect<User, false>
+        ref={ref}
+        inputId={id}
+        styles={selectStyles as StylesConfig<User, false>}
+        value={value}
+        onChange={(option) => onChange(option ?? null)}
+        loadOptions={loadOptions}
+        defaultOptions
+        getOptionValue={(person) => String(person.id)}
+        getOptionLabel={(person) => `${person.name} (${person.email})`}
+        isOptionDisabled={(person) => !!forLoan && !!person.blocked}
+        formatOptionLabel={(person, { context }) =>
+          context === "value" ? (
+            `${person.name} (${person.email})`
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="truncate font-medium">{person.name}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {person.email}
+                </p>
+              </div>
+              {personStatusLabel(person) && (
+                <span
+                  className={
+                    person.blocked
+                      ? "shrink-0 text-xs text-destructive"
+                      : "shrink-0 text-xs text-muted-foreground"
+                  }
+                >
+                  {personStatusLabel(person)}
+                </span>
+              )}
+            </div>
+          )
+        }
+        placeholder={placeholder}
+        loadingMessage={() => "Buscando usuários..."}
+        noOptionsMessage={({ inputValue }) =>
+          inputValue ? `Nenhum usuário encontrado para "${inputValue}"` : "Digite para buscar"
+        }
+        isClearable={isClearable}
+        autoFocus={autoFocus}
+        openMenuOnFocus
+      />
+    );
+  }
+);
+PersonPicker.displayName = "PersonPicker";
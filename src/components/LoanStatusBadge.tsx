@@ -0,0 +1,30 @@
+import React from "react";
+import { AlarmClock, BookCopy, CheckCircle, Clock, Hourglass, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { LOAN_STATE_LABELS, LOAN_STATE_STYLES, LoanState } from "@/services/loanStatus";
+
+const STATE_ICONS: Record<LoanState, React.ElementType> = {
+  [LoanState.PENDING]: Hourglass,
+  [LoanState.ACTIVE]: BookCopy,
+  [LoanState.DUE_SOON]: AlarmClock,
+  [LoanState.OVERDUE]: Clock,
+  [LoanState.RETURNED]: CheckCircle,
+  [LoanState.CANCELED]: XCircle,
+};
+
+interface LoanStatusBadgeProps {
+  state: LoanState;
+}
+
+const LoanStatusBadge: React.FC<LoanStatusBadgeProps> = ({ state }) => {
+  const Icon = STATE_ICONS[state];
+
+  return (
+    <Badge variant="outline" className={LOAN_STATE_STYLES[state]}>
+      <Icon className="h-3 w-3 mr-1" />
+      {LOAN_STATE_LABELS[state]}
+    </Badge>
+  );
+};
+
+export default LoanStatusBadge;
@@ -12,6 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useIsMobile } from "@/hooks/use-mobile";
+import EnvironmentPanel from "@/components/EnvironmentPanel";
 
 interface NavbarProps {
   user: UserType | null;
@@ -81,6 +82,9 @@ const Navbar: React.FC<NavbarProps> = ({ user, logout }) => {
             )}
           </Button>
 
+          {/* Server configuration (only for admins) */}
+          {user && user.role === "ADMIN" && <EnvironmentPanel />}
+
           {/* Add book button (only for librarians and admins) */}
           {user && (user.role === "LIBRARIAN" || user.role === "ADMIN") && (
             <Button variant="ghost" size="icon" asChild>
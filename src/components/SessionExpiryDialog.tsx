@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Clock, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// Quanto tempo antes do "exp" do token a sessão é renovada (ou o aviso aparece)
+const WARNING_BEFORE_MS = 5 * 60 * 1000;
+// Interações dentro dessa janela fazem a renovação ser silenciosa
+const ACTIVITY_WINDOW_MS = 5 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "touchstart", "scroll"];
+
+const SessionExpiryDialog: React.FC = () => {
+  const { isAuthenticated, sessionExpiresAt, renewSession, logout } = useAuth();
+  const [showWarning, setShowWarning] = useState(false);
+  const [renewing, setRenewing] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const lastActivityRef = useRef(Date.now());
+  const renewSessionRef = useRef(renewSession);
+  const logoutRef = useRef(logout);
+  renewSessionRef.current = renewSession;
+  logoutRef.current = logout;
+
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, markActive, { passive: true })
+    );
+    return () =>
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, markActive)
+      );
+  }, []);
+
+  // Agenda a renovação proativa sempre que um novo token é emitido
+  useEffect(() => {
+    setShowWarning(false);
+    if (!isAuthenticated || !sessionExpiresAt) return;
+
+    const delay = Math.max(0, sessionExpiresAt - WARNING_BEFORE_MS - Date.now());
+    const timer = setTimeout(async () => {
+      const isActive = Date.now() - lastActivityRef.current < ACTIVITY_WINDOW_MS;
+      if (isActive && (await renewSessionRef.current())) return;
+
+      setNow(Date.now());
+      setShowWarning(true);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, sessionExpiresAt]);
+
+  // Contagem regressiva enquanto o aviso está aberto
+  useEffect(() => {
+    if (!showWarning || !sessionExpiresAt) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+
+      if (current >= sessionExpiresAt) {
+        setShowWarning(false);
+        logoutRef.current();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [showWarning, sessionExpiresAt]);
+
+  const handleContinue = async () => {
+    setRenewing(true);
+    const renewed = await renewSession();
+    setRenewing(false);
+
+    if (renewed) {
+      setShowWarning(false);
+      toast.success("Sessão renovada.");
+    } else {
+      toast.error("Não foi possível renovar a sessão. Faça login novamente.");
+      setShowWarning(false);
+      logout();
+    }
+  };
+
+  if (!isAuthenticated || !sessionExpiresAt) return null;
+
+  const minutesLeft = Math.max(1, Math.ceil((sessionExpiresAt - now) / 60000));
+
+  return (
+    <AlertDialog open={showWarning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            Sua sessão está expirando
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Sua sessão vai expirar em {minutesLeft}{" "}
+            {minutesLeft === 1 ? "minuto" : "minutos"}. Deseja continuar
+            conectado?
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setShowWarning(false);
+              logout();
+            }}
+            disabled={renewing}
+          >
+            Sair
+          </Button>
+          <Button onClick={handleContinue} disabled={renewing}>
+            {renewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Continuar conectado
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SessionExpiryDialog;
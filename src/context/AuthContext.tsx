@@ -1,23 +1,60 @@
 import React, {createContext, useContext, useReducer, useEffect} from 'react';
 import {AuthState, User, Role} from '@/types';
 import {useNavigate} from 'react-router-dom';
+import {useQueryClient} from '@tanstack/react-query';
 import {toast} from "sonner";
-import {authAPI} from "@/services/api";
+import {authAPI, refreshAccessToken, setTokenRefreshedCallback} from "@/services/api";
 import {jwtDecode} from "jwt-decode";
 import {setLogoutCallback} from "@/services/api";
+import {clearTokens, getAccessToken, getRefreshToken, setTokens} from "@/services/tokenStorage";
+import {broadcastSession, subscribeSession} from "@/services/sessionSync";
+import {getErrorMessage, UnauthorizedError} from "@/services/apiErrors";
+
+interface TokenClaims {
+    id?: number | string;
+    name?: string;
+    email: string;
+    role: Role;
+    exp?: number;
+}
+
+const userFromToken = (token: string): User => {
+    const decoded = jwtDecode<TokenClaims>(token);
+
+    return {
+        id: decoded.id ?? 0,
+        name: decoded.name ?? decoded.email.split('@')[0],
+        email: decoded.email,
+        role: decoded.role,
+    };
+};
+
+// Momento (em ms) em que o access token expira, ou null se não tiver "exp"
+const getTokenExpiry = (token: string | null): number | null => {
+    if (!token) return null;
+
+    try {
+        const {exp} = jwtDecode<TokenClaims>(token);
+        return exp ? exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
 
 // Initial state
 const initialState: AuthState = {
     user: null,
-    token: localStorage.getItem('token'),
-    isAuthenticated: !!localStorage.getItem('token'),
+    token: getAccessToken(),
+    refreshToken: getRefreshToken(),
+    isAuthenticated: !!getAccessToken(),
     loading: true,
     error: null
 };
 
 // Action types
 type AuthAction =
-    | { type: 'LOGIN_SUCCESS'; payload: { user: User; token: string } }
+    | { type: 'LOGIN_SUCCESS'; payload: { user: User; token: string; refreshToken?: string | null } }
+    | { type: 'TOKEN_REFRESHED'; payload: { user: User; token: string; refreshToken: string } }
     | { type: 'LOGIN_FAILURE'; payload: string }
     | { type: 'REGISTER_SUCCESS'; payload: { user: User; token: string } }
     | { type: 'REGISTER_FAILURE'; payload: string }
@@ -31,34 +68,51 @@ type AuthAction =
 const authReducer = (state: AuthState, action: AuthAction): AuthState => {
     switch (action.type) {
         case 'LOGIN_SUCCESS':
-        case 'REGISTER_SUCCESS':
-            localStorage.setItem('token', action.payload.token);
+        case 'REGISTER_SUCCESS': {
+            const refreshToken = action.type === 'LOGIN_SUCCESS'
+                ? action.payload.refreshToken ?? state.refreshToken
+                : state.refreshToken;
+            setTokens(action.payload.token, refreshToken);
             return {
                 ...state,
                 user: action.payload.user,
                 token: action.payload.token,
+                refreshToken,
+                isAuthenticated: true,
+                loading: false,
+                error: null
+            };
+        }
+        case 'TOKEN_REFRESHED':
+            return {
+                ...state,
+                user: action.payload.user,
+                token: action.payload.token,
+                refreshToken: action.payload.refreshToken,
                 isAuthenticated: true,
                 loading: false,
                 error: null
             };
         case 'LOGIN_FAILURE':
         case 'REGISTER_FAILURE':
-            localStorage.removeItem('token');
+            clearTokens();
             return {
                 ...state,
                 user: null,
                 token: null,
+                refreshToken: null,
                 isAuthenticated: false,
                 loading: false,
                 error: action.payload
             };
         case 'LOGOUT':
         case 'AUTH_ERROR':
-            localStorage.removeItem('token');
+            clearTokens();
             return {
                 ...state,
                 user: null,
                 token: null,
+                refreshToken: null,
                 isAuthenticated: false,
                 loading: false,
                 error: action.type === 'AUTH_ERROR' ? 'Erro de autenticação' : null
@@ -92,6 +146,8 @@ interface AuthContextType extends AuthState {
     updateUser: (user: User) => void;
     clearError: () => void;
     hasRole: (roles: Role | Role[]) => boolean;
+    sessionExpiresAt: number | null;
+    renewSession: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -108,7 +164,9 @@ const AuthContext = createContext<AuthContextType>({
     },
     clearError: () => {
     },
-    hasRole: () => false
+    hasRole: () => false,
+    sessionExpiresAt: null,
+    renewSession: async () => false
 });
 
 
@@ -118,32 +176,63 @@ const AuthContext = createContext<AuthContextType>({
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({children}) => {
     const [state, dispatch] = useReducer(authReducer, initialState);
     const navigate = useNavigate();
+    const queryClient = useQueryClient();
 
     useEffect(() => {
         setLogoutCallback(logout);
       }, []);
 
+    // Mantém o estado em sincronia quando o interceptor renova o token
+    useEffect(() => {
+        setTokenRefreshedCallback(({access_token, refresh_token}) => {
+            try {
+                dispatch({
+                    type: 'TOKEN_REFRESHED',
+                    payload: {user: userFromToken(access_token), token: access_token, refreshToken: refresh_token}
+                });
+                broadcastSession({type: 'TOKEN_REFRESHED', token: access_token, refreshToken: refresh_token});
+            } catch (error) {
+                console.error("Erro ao decodificar token renovado:", error);
+                dispatch({type: 'AUTH_ERROR'});
+            }
+        });
+    }, []);
+
+    // Aplica login, logout e tokens renovados vindos de outras abas
+    useEffect(() => {
+        return subscribeSession((message) => {
+            if (message.type === 'LOGOUT') {
+                dispatch({type: 'LOGOUT'});
+                queryClient.clear();
+                toast.info('Você foi desconectado em outra aba');
+                navigate('/login');
+                return;
+            }
+
+            try {
+                const user = userFromToken(message.token);
+                if (message.type === 'LOGIN') {
+                    dispatch({type: 'LOGIN_SUCCESS', payload: {user, token: message.token, refreshToken: message.refreshToken}});
+                } else {
+                    dispatch({
+                        type: 'TOKEN_REFRESHED',
+                        payload: {user, token: message.token, refreshToken: message.refreshToken ?? getRefreshToken()}
+                    });
+                }
+            } catch (error) {
+                console.error("Erro ao sincronizar sessão entre abas:", error);
+            }
+        });
+    }, [navigate, queryClient]);
+
     // Load user from token on mount
     useEffect(() => {
         const loadUser = () => {
-            const token = localStorage.getItem('token');
+            const token = getAccessToken();
             if (token) {
                 try {
-                    const decoded: {
-                        id?: string;
-                        name?: string;
-                        email: string;
-                        role: Role;
-                    } = jwtDecode(token);
-
-                    const userFromToken: User = {
-                        id: Number(decoded.id ?? decoded.id ?? 0),
-                        name: decoded.name ?? decoded.email.split('@')[0],
-                        email: decoded.email,
-                        role: decoded.role,
-                    };
-
-                    dispatch({ type: 'LOGIN_SUCCESS', payload: { user: userFromToken, token } });
+                    const user = userFromToken(token);
+                    dispatch({ type: 'LOGIN_SUCCESS', payload: { user: {...user, id: Number(user.id)}, token } });
                 } catch (error) {
                     console.error("Erro ao decodificar token:", error);
                     dispatch({ type: 'AUTH_ERROR' });
@@ -161,42 +250,30 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({children}
     const login = async (email: string, password: string) => {
         try {
             dispatch({type: 'SET_LOADING', payload: true});
-            const response = await authAPI.login(email, password); // resposta tem access_token e refresh_token
+            const response = await authAPI.login(email, password, {suppressErrorToast: true}); // resposta tem access_token e refresh_token
 
             const token = response.access_token;
 
             // PODE SER opcional: decodificar o token pra extrair infos do user
-            const decoded: {
-                id: string;
-                name?: string;
-                email: string;
-                role: Role;
-            } = jwtDecode(token);
-
-            console.log("token", decoded);
-
-            const userFromToken = {
-                id: decoded.id,
-                name: decoded.name ?? decoded.email.split('@')[0],
-                email: decoded.email,
-                role: decoded.role,
-                createdAt: '',
-                updatedAt: ''
-            };
+            const user = userFromToken(token);
 
             dispatch({
                 type: 'LOGIN_SUCCESS',
                 payload: {
-                    user: userFromToken,
-                    token
+                    user,
+                    token,
+                    refreshToken: response.refresh_token
                 }
             });
+            broadcastSession({type: 'LOGIN', token, refreshToken: response.refresh_token});
 
-            toast.success(`Bem-vindo de volta, ${userFromToken.name}!`);
+            toast.success(`Bem-vindo de volta, ${user.name}!`);
             navigate('/painel');
-        } catch (error: any) {
+        } catch (error) {
             console.error("Erro no login:", error);
-            const message = error.response?.data?.message || 'Credenciais inválidas';
+            const message = error instanceof UnauthorizedError
+                ? 'Credenciais inválidas'
+                : getErrorMessage(error, 'Credenciais inválidas');
             dispatch({type: 'LOGIN_FAILURE', payload: message});
             toast.error(message);
         }
@@ -206,12 +283,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({children}
         try {
             dispatch({ type: 'SET_LOADING', payload: true });
 
-            await authAPI.register(name, email, password);
+            await authAPI.register(name, email, password, {suppressErrorToast: true});
 
             toast.success('Conta criada com sucesso! Faça login para continuar.');
             navigate('/login'); // 👈 redireciona pro login agora
-        } catch (error: any) {
-            const message = error.response?.data?.message || 'Falha no registro';
+        } catch (error) {
+            const message = getErrorMessage(error, 'Falha no registro');
             dispatch({ type: 'REGISTER_FAILURE', payload: message });
             toast.error(message);
         }
@@ -221,12 +298,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({children}
         try {
             dispatch({ type: 'SET_LOADING', payload: true });
 
-            await authAPI.registerLibrarian(name, email, password);
+            await authAPI.registerLibrarian(name, email, password, {suppressErrorToast: true});
 
             toast.success('Conta de bibliotecário criada com sucesso! Faça login para continuar.');
             navigate('/login'); // 👈 redireciona pro login
-        } catch (error: any) {
-            const message = error.response?.data?.message || 'Falha no registro do bibliotecário';
+        } catch (error) {
+            const message = getErrorMessage(error, 'Falha no registro do bibliotecário');
             dispatch({ type: 'REGISTER_FAILURE', payload: message });
             toast.error(message);
         }
@@ -236,10 +313,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({children}
     // Logout user
     const logout = () => {
         dispatch({type: 'LOGOUT'});
+        // Descarta o cache para o próximo usuário não ver dados da sessão anterior
+        queryClient.clear();
+        broadcastSession({type: 'LOGOUT'});
         toast.info('Você foi desconectado');
         navigate('/login');
     };
 
+    // Renew the session before the access token expires
+    const renewSession = async (): Promise<boolean> => {
+        try {
+            await refreshAccessToken();
+            return true;
+        } catch (error) {
+            console.error("Erro ao renovar sessão:", error);
+            return false;
+        }
+    };
+
     // Update user
     const updateUser = (user: User) => {
         dispatch({type: 'UPDATE_USER', payload: user});
@@ -271,7 +362,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({children}
                 logout,
                 updateUser,
                 clearError,
-                hasRole
+                hasRole,
+                sessionExpiresAt: getTokenExpiry(state.token),
+                renewSession
             }}
         >
             {children}
@@ -1,5 +1,5 @@
 
-import { Book, Loan, LoanStatus, Role, User } from "@/types";
+import { Book, ContributorRole, Loan, LoanStatus, Role, User } from "@/types";
 
 export const mockBooks: Book[] = [
   {
@@ -9,6 +9,13 @@ export const mockBooks: Book[] = [
     author: "J.K. Rowling",
     quantity: 5,
     available: 3,
+    publisher: "Scholastic",
+    published_year: 2007,
+    language: "en",
+    page_count: 309,
+    series: "Harry Potter",
+    series_number: 1,
+    subjects: ["Fantasia", "Literatura juvenil"],
     description: "O primeiro livro da série Harry Potter."
   },
   {
@@ -18,6 +25,12 @@ export const mockBooks: Book[] = [
     author: "J.R.R. Tolkien",
     quantity: 3,
     available: 1,
+    publisher: "Houghton Mifflin",
+    published_year: 2003,
+    language: "en",
+    series: "O Senhor dos Anéis",
+    series_number: 1,
+    subjects: ["Fantasia", "Aventura"],
     description: "A primeira parte da trilogia O Senhor dos Anéis."
   },
   {
@@ -27,6 +40,9 @@ export const mockBooks: Book[] = [
     author: "Harper Lee",
     quantity: 2,
     available: 2,
+    publisher: "Harper Perennial",
+    published_year: 2006,
+    language: "en",
     description: "Um clássico da literatura americana que aborda questões de racismo e injustiça."
   },
   {
@@ -36,6 +52,11 @@ export const mockBooks: Book[] = [
     author: "George Orwell",
     quantity: 4,
     available: 4,
+    publisher: "Signet Classics",
+    published_year: 1961,
+    language: "en",
+    page_count: 328,
+    subjects: ["Distopia", "Ficção política"],
     description: "Um romance distópico sobre totalitarismo e vigilância governamental."
   },
   {
@@ -45,7 +66,113 @@ export const mockBooks: Book[] = [
     author: "Jane Austen",
     quantity: 3,
     available: 2,
+    publisher: "Penguin Classics",
+    published_year: 2003,
+    language: "en",
     description: "Um romance clássico sobre classes sociais e relacionamentos."
+  },
+  {
+    id: 6,
+    isbn: "9788535907735",
+    title: "A Revolução dos Bichos",
+    author: "George Orwell",
+    contributors: [
+      { name: "George Orwell", role: ContributorRole.AUTHOR },
+      { name: "Heitor Aquino Ferreira", role: ContributorRole.TRANSLATOR },
+    ],
+    quantity: 3,
+    available: 3,
+    publisher: "Companhia das Letras",
+    published_year: 2007,
+    language: "pt",
+    subjects: ["Fábula", "Ficção política"],
+    description: "Uma fábula sobre os animais de uma granja que se rebelam contra o dono."
+  },
+  {
+    id: 7,
+    isbn: "9780451526342",
+    title: "Animal Farm",
+    author: "George Orwell",
+    quantity: 2,
+    available: 2,
+    publisher: "Signet Classics",
+    published_year: 1996,
+    language: "en",
+    page_count: 140,
+    subjects: ["Fable", "Political fiction"],
+    description: "Orwell's allegorical novella about a farm taken over by its animals."
+  },
+  {
+    id: 8,
+    isbn: "9788582850275",
+    title: "Dom Casmurro",
+    author: "Machado de Assis",
+    quantity: 4,
+    available: 4,
+    publisher: "Penguin-Companhia",
+    published_year: 2016,
+    language: "pt",
+    description: "Bentinho relembra a juventude e o ciúme que sente de Capitu."
+  },
+  {
+    id: 9,
+    isbn: "9788532508126",
+    title: "A Hora da Estrela",
+    author: "Clarice Lispector",
+    quantity: 2,
+    available: 2,
+    publisher: "Rocco",
+    published_year: 1998,
+    language: "pt",
+    description: "A história de Macabéa, uma jovem nordestina no Rio de Janeiro."
+  },
+  {
+    id: 10,
+    isbn: "9788595081598",
+    title: "O Hobbit",
+    author: "J.R.R. Tolkien",
+    contributors: [
+      { name: "J.R.R. Tolkien", role: ContributorRole.AUTHOR },
+      { name: "Reinaldo José Lopes", role: ContributorRole.TRANSLATOR },
+      { name: "J.R.R. Tolkien", role: ContributorRole.ILLUSTRATOR },
+    ],
+    quantity: 3,
+    available: 3,
+    publisher: "HarperCollins Brasil",
+    published_year: 2019,
+    language: "pt",
+    page_count: 336,
+    subjects: ["Fantasia", "Aventura"],
+    description: "A aventura de Bilbo Bolseiro até a Montanha Solitária."
+  },
+  {
+    id: 11,
+    isbn: "9788501012432",
+    title: "Cem Anos de Solidão",
+    author: "Gabriel García Márquez",
+    contributors: [
+      { name: "Gabriel García Márquez", role: ContributorRole.AUTHOR },
+      { name: "Eric Nepomuceno", role: ContributorRole.TRANSLATOR },
+    ],
+    quantity: 2,
+    available: 2,
+    publisher: "Record",
+    published_year: 2014,
+    language: "pt",
+    subjects: ["Realismo mágico"],
+    description: "Sete gerações da família Buendía na cidade de Macondo."
+  },
+  {
+    id: 12,
+    isbn: "9788497592468",
+    title: "Cien años de soledad",
+    author: "Gabriel García Márquez",
+    quantity: 1,
+    available: 1,
+    publisher: "Debolsillo",
+    published_year: 2003,
+    language: "es",
+    description: "La historia de la familia Buendía a lo largo de siete generaciones."
   }
 ];
 
@@ -82,36 +209,94 @@ export const mockUsers: User[] = [
   }
 ];
 
-export const mockLoans = [
+// Senha aceita pelo backend offline para todos os usuários de demonstração
+export const MOCK_DEFAULT_PASSWORD = "password123";
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString();
+};
+
+export interface MockLoanSeed {
+  id: number;
+  bookId: number;
+  personId: number;
+  start_date: string;
+  duration: number;
+  return_date: string | null;
+}
+
+export const mockLoans: MockLoanSeed[] = [
   {
     id: 1,
     bookId: 1,
-    userId: 1,
-    bookTitle: "Harry Potter e a Pedra Filosofal",
-    userName: "João Silva",
-    startDate: "2023-05-10",
-    dueDate: "2023-05-24",
-    status: "active"
+    personId: 1,
+    start_date: daysAgo(5),
+    duration: 14,
+    return_date: null
   },
   {
     id: 2,
     bookId: 2,
-    userId: 2,
-    bookTitle: "O Senhor dos Anéis: A Sociedade do Anel",
-    userName: "Maria Santos",
-    startDate: "2023-05-12",
-    dueDate: "2023-05-26",
-    status: "overdue"
+    personId: 2,
+    start_date: daysAgo(20),
+    duration: 14,
+    return_date: null
   },
   {
     id: 3,
     bookId: 3,
-    userId: 3,
-    bookTitle: "O Sol é para Todos",
-    userName: "Carlos Oliveira",
-    startDate: "2023-05-15",
-    dueDate: "2023-05-29",
-    status: "returned",
-    returnDate: "2023-05-28"
+    personId: 3,
+    start_date: daysAgo(30),
+    duration: 14,
+    return_date: daysAgo(18)
+  },
+  {
+    id: 4,
+    bookId: 1,
+    personId: 2,
+    start_date: daysAgo(2),
+    duration: 14,
+    return_date: null
+  },
+  {
+    id: 5,
+    bookId: 5,
+    personId: 3,
+    start_date: daysAgo(9),
+    duration: 14,
+    return_date: null
+  },
+  {
+    id: 6,
+    bookId: 12,
+    personId: 1,
+    start_date: daysAgo(4),
+    duration: 14,
+    return_date: null
+  }
+];
+
+export interface MockHoldSeed {
+  id: number;
+  bookId: number;
+  personId: number;
+  created_at: string;
+}
+
+// Fila de espera do único exemplar de "Cien años de soledad"
+export const mockHolds: MockHoldSeed[] = [
+  {
+    id: 1,
+    bookId: 12,
+    personId: 2,
+    created_at: daysAgo(3)
+  },
+  {
+    id: 2,
+    bookId: 12,
+    personId: 3,
+    created_at: daysAgo(1)
   }
 ];
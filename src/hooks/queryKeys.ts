@@ -0,0 +1,70 @@
+import { BookSearchFilters, LoanStatus, Role } from "@/types";
+
+// Fábrica de chaves do TanStack Query. Cada entidade tem uma raiz ("all") para
+// que as mutações possam invalidar listas e detalhes de uma vez.
+
+export interface BookListParams {
+  page?: number;
+  limit?: number;
+  query?: string;
+  filters?: BookSearchFilters;
+}
+
+export interface LoanListParams {
+  page?: number;
+  limit?: number;
+  person_id?: number;
+  book_id?: number;
+  types?: LoanStatus | string;
+}
+
+export interface PeopleListParams {
+  page?: number;
+  limit?: number;
+  query?: string;
+  roles?: Role;
+}
+
+export interface ActivityParams {
+  maximum_date: string;
+  page: number;
+  limit: number;
+}
+
+export const queryKeys = {
+  books: {
+    all: ["books"] as const,
+    lists: () => [...queryKeys.books.all, "list"] as const,
+    list: (params: BookListParams) => [...queryKeys.books.lists(), params] as const,
+    detail: (id: number | string) => [...queryKeys.books.all, "detail", String(id)] as const,
+  },
+  copies: {
+    all: ["copies"] as const,
+    byBook: (bookId: number | string) => [...queryKeys.copies.all, "book", String(bookId)] as const,
+  },
+  holds: {
+    all: ["holds"] as const,
+    list: (statuses: string[]) => [...queryKeys.holds.all, "list", statuses] as const,
+    byPerson: (personId: number | string) =>
+      [...queryKeys.holds.all, "person", String(personId)] as const,
+  },
+  fees: {
+    all: ["fees"] as const,
+    byPerson: (personId: number | string) => [...queryKeys.fees.all, "person", String(personId)] as const,
+  },
+  loans: {
+    all: ["loans"] as const,
+    list: (params: LoanListParams) => [...queryKeys.loans.all, "list", params] as const,
+    byPerson: (personId: number | string) =>
+      [...queryKeys.loans.all, "person", String(personId)] as const,
+    activity: (params: ActivityParams) => [...queryKeys.loans.all, "activity", params] as const,
+  },
+  people: {
+    all: ["people"] as const,
+    list: (params: PeopleListParams) => [...queryKeys.people.all, "list", params] as const,
+    detail: (id: number | string) => [...queryKeys.people.all, "detail", String(id)] as const,
+  },
+  summary: ["summary"] as const,
+  loanPolicy: ["loanPolicy"] as const,
+  cover: (url: string) => ["covers", url] as const,
+};
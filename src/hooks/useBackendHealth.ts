@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { healthAPI } from "@/services/api";
+
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+
+export function useBackendHealth() {
+  const { data: isReachable, isFetching, refetch } = useQuery({
+    queryKey: ["backendHealth"],
+    queryFn: healthAPI.check,
+    refetchInterval: HEALTH_CHECK_INTERVAL_MS,
+    refetchOnWindowFocus: true,
+    retry: false,
+  });
+
+  return {
+    // Enquanto a primeira verificação não termina, assume que está no ar
+    isReachable: isReachable ?? true,
+    isChecking: isFetching,
+    recheck: refetch,
+  };
+}
@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+import { QueryCache, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Book } from "@/types";
+import {
+  CoverSize,
+  getCoverUrl,
+  loadCoverImage,
+  releaseCoverImage,
+} from "@/services/covers";
+import { queryKeys } from "./queryKeys";
+
+// Capas sem uso saem do cache do Query depois desse tempo; a Cache Storage
+// usada por loadCoverImage evita baixá-las de novo
+const COVER_GC_TIME_MS = 10 * 60 * 1000;
+
+const watchedCaches = new WeakSet<QueryCache>();
+
+// Revoga a URL blob: de cada capa removida do cache, para as imagens vistas
+// não ficarem em memória até o fim da sessão
+const releaseRemovedCovers = (queryCache: QueryCache) => {
+  if (watchedCaches.has(queryCache)) return;
+  watchedCaches.add(queryCache);
+
+  queryCache.subscribe((event) => {
+    if (event.type !== "removed" || event.query.queryKey[0] !== queryKeys.cover("")[0]) return;
+    releaseCoverImage(event.query.state.data as string | null | undefined);
+  });
+};
+
+// Capas não mudam durante a sessão, então nunca ficam obsoletas
+export function useBookCover(
+  book: Pick<Book, "isbn" | "cover_url">,
+  size: CoverSize = "M",
+  options: { enabled?: boolean } = {}
+) {
+  const { enabled = true } = options;
+  const url = getCoverUrl(book, size);
+  const queryClient = useQueryClient();
+
+  useEffect(() => releaseRemovedCovers(queryClient.getQueryCache()), [queryClient]);
+
+  const query = useQuery({
+    queryKey: queryKeys.cover(url ?? ""),
+    queryFn: () => loadCoverImage(url!),
+    enabled: !!url && enabled,
+    staleTime: Infinity,
+    gcTime: COVER_GC_TIME_MS,
+    retry: false,
+  });
+
+  return {
+    src: query.data ?? null,
+    isLoading: !!url && query.isPending,
+    // Nenhuma capa: nem enviada pela biblioteca, nem no provedor
+    isMissing: !url || query.data === null,
+  };
+}
@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { booksAPI } from "@/services/api";
+import { Book } from "@/types";
+import { BookListParams, queryKeys } from "./queryKeys";
+
+// As mutações não usam o toast global: a página decide a mensagem de erro
+// (inline no formulário ou via getErrorMessage).
+
+export function useBooks(params: BookListParams = {}, options: { enabled?: boolean } = {}) {
+  const { page = 0, limit = 12, query = "", filters = {} } = params;
+
+  return useQuery({
+    queryKey: queryKeys.books.list({ page, limit, query, filters }),
+    queryFn: () => booksAPI.getAll(page, limit, query, filters),
+    placeholderData: (previous) => previous,
+    ...options,
+  });
+}
+
+export function useBook(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.books.detail(id ?? ""),
+    queryFn: () => booksAPI.getById(id!),
+    enabled: !!id,
+  });
+}
+
+export function useCreateBook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (book: Partial<Book>) =>
+      booksAPI.create(book, { suppressErrorToast: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+    },
+  });
+}
+
+export function useUpdateBook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, book }: { id: number; book: Partial<Book> }) =>
+      booksAPI.update(id, book, { suppressErrorToast: true }),
+    onSuccess: (updated, { id }) => {
+      queryClient.setQueryData(queryKeys.books.detail(id), updated);
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+      // Os empréstimos trazem o livro embutido (título, autor)
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+    },
+  });
+}
+
+export function useUploadBookCover() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, file }: { id: number; file: File }) =>
+      booksAPI.uploadCover(id, file, { suppressErrorToast: true }),
+    onSuccess: (updated, { id }) => {
+      queryClient.setQueryData(queryKeys.books.detail(id), updated);
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.lists() });
+    },
+  });
+}
+
+export function useDeleteBook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => booksAPI.delete(id, { suppressErrorToast: true }),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.books.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+    },
+  });
+}
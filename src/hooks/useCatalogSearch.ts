@@ -0,0 +1,98 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { BookSearchFilters, BookSort } from "@/types";
+
+// Estado da busca do catálogo na query string, para que a busca possa ser
+// salva nos favoritos ou enviada a um leitor:
+// /catalogo?q=orwell&language=pt&available=true&sort=newest
+const BOOK_SORTS: BookSort[] = ["title", "author", "newest", "most_borrowed"];
+
+const TEXT_FILTERS = ["author", "publisher", "language"] as const;
+const NUMBER_FILTERS = ["year_from", "year_to"] as const;
+
+export type CatalogFilterKey = keyof Omit<BookSearchFilters, "sort">;
+
+const toNumber = (value: string | null) => {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function useCatalogSearch() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = searchParams.get("q") ?? "";
+
+  const filters = useMemo<BookSearchFilters>(() => {
+    const result: BookSearchFilters = {};
+
+    TEXT_FILTERS.forEach((key) => {
+      const value = searchParams.get(key);
+      if (value) result[key] = value;
+    });
+    NUMBER_FILTERS.forEach((key) => {
+      const value = toNumber(searchParams.get(key));
+      if (value !== undefined) result[key] = value;
+    });
+    if (searchParams.get("available") === "true") result.available = true;
+
+    const sort = searchParams.get("sort") as BookSort | null;
+    if (sort && BOOK_SORTS.includes(sort)) result.sort = sort;
+
+    return result;
+  }, [searchParams]);
+
+  // Toda mudança de busca ou filtro volta para a primeira página
+  const update = useCallback(
+    (changes: Record<string, string | number | boolean | undefined>, replace = false) => {
+      setSearchParams(
+        (previous) => {
+          const next = new URLSearchParams(previous);
+          Object.entries(changes).forEach(([key, value]) => {
+            if (value === undefined || value === "" || value === false) next.delete(key);
+            else next.set(key, String(value));
+          });
+          next.delete("page");
+          return next;
+        },
+        { replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const activeFilterCount = (Object.keys(filters) as (keyof BookSearchFilters)[]).filter(
+    (key) => key !== "sort"
+  ).length;
+
+  return {
+    query,
+    filters,
+    activeFilterCount,
+    // A digitação não cria uma entrada no histórico a cada tecla
+    setQuery: useCallback((value: string) => update({ q: value.trim() }, true), [update]),
+    setFilter: useCallback(
+      <K extends CatalogFilterKey>(key: K, value: BookSearchFilters[K] | undefined) =>
+        update({ [key]: value }),
+      [update]
+    ),
+    setYearRange: useCallback(
+      (from: number | undefined, to: number | undefined) =>
+        update({ year_from: from, year_to: to }),
+      [update]
+    ),
+    setSort: useCallback((sort: BookSort | undefined) => update({ sort }), [update]),
+    clearFilters: useCallback(
+      () =>
+        update({
+          author: undefined,
+          publisher: undefined,
+          language: undefined,
+          year_from: undefined,
+          year_to: undefined,
+          available: undefined,
+        }),
+      [update]
+    ),
+  };
+}
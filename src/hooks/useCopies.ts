@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { copiesAPI, CopyInput } from "@/services/api";
+import { BookCopy } from "@/types";
+import { queryKeys } from "./queryKeys";
+
+export function useBookCopies(bookId: number | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.copies.byBook(bookId ?? ""),
+    queryFn: () => copiesAPI.getByBook(bookId!),
+    enabled: !!bookId && (options.enabled ?? true),
+  });
+}
+
+// Exemplares alteram quantidade e disponibilidade do livro
+const useInvalidateCopies = () => {
+  const queryClient = useQueryClient();
+
+  return (bookId: number) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.copies.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.books.detail(bookId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.books.lists() });
+    queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+  };
+};
+
+export function useCreateCopy() {
+  const invalidate = useInvalidateCopies();
+
+  return useMutation({
+    mutationFn: ({ bookId, copy }: { bookId: number; copy: CopyInput }) =>
+      copiesAPI.create(bookId, copy, { suppressErrorToast: true }),
+    onSuccess: (_, { bookId }) => invalidate(bookId),
+  });
+}
+
+export function useUpdateCopy() {
+  const invalidate = useInvalidateCopies();
+
+  return useMutation({
+    mutationFn: ({ id, copy }: { id: number; copy: CopyInput }) =>
+      copiesAPI.update(id, copy, { suppressErrorToast: true }),
+    onSuccess: (updated) => invalidate(updated.book_id),
+  });
+}
+
+export function useDeleteCopy() {
+  const invalidate = useInvalidateCopies();
+
+  return useMutation({
+    mutationFn: (copy: BookCopy) => copiesAPI.delete(copy.id, { suppressErrorToast: true }),
+    onSuccess: (_, copy) => invalidate(copy.book_id),
+  });
+}
+
+// Consulta pontual de um código lido pelo scanner: não fica em cache, porque a
+// situação do exemplar muda a cada empréstimo
+export function useCopyLookup() {
+  return useMutation({
+    mutationFn: (barcode: string) =>
+      copiesAPI.getByBarcode(barcode.trim(), { suppressErrorToast: true }),
+  });
+}
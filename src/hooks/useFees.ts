@@ -0,0 +1,26 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { feesAPI } from "@/services/api";
+import { FeeRequest } from "@/types";
+import { queryKeys } from "./queryKeys";
+
+export function usePersonFees(personId: number | string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.fees.byPerson(personId ?? ""),
+    queryFn: () => feesAPI.getByPerson(Number(personId)),
+    enabled: !!personId,
+  });
+}
+
+// O saldo aparece também na listagem de pessoas (e decide o bloqueio)
+export function useRecordFee() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ personId, fee }: { personId: number; fee: FeeRequest }) =>
+      feesAPI.create(personId, fee, { suppressErrorToast: true }),
+    onSuccess: (_, { personId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.fees.byPerson(personId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.people.all });
+    },
+  });
+}
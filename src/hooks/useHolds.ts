@@ -0,0 +1,102 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { holdsAPI } from "@/services/api";
+import { HoldStatus } from "@/types";
+import { queryKeys } from "./queryKeys";
+
+const HOLD_POLL_INTERVAL_MS = 60_000;
+
+export function useHolds(statuses: HoldStatus[] = [], options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.holds.list(statuses),
+    queryFn: () => holdsAPI.getAll(statuses),
+    ...options,
+  });
+}
+
+export function usePersonHolds(
+  personId: number | string | undefined,
+  options: { refetchInterval?: number } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.holds.byPerson(personId ?? ""),
+    queryFn: () => holdsAPI.getByPerson(Number(personId)),
+    enabled: !!personId,
+    ...options,
+  });
+}
+
+// Reservas mexem na disponibilidade exibida do livro
+const useInvalidateHolds = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.copies.all });
+  };
+};
+
+export function usePlaceHold() {
+  const invalidate = useInvalidateHolds();
+
+  return useMutation({
+    mutationFn: ({ bookId, personId }: { bookId: number; personId?: number }) =>
+      holdsAPI.create(bookId, personId, { suppressErrorToast: true }),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCancelHold() {
+  const invalidate = useInvalidateHolds();
+
+  return useMutation({
+    mutationFn: (holdId: number) => holdsAPI.cancel(holdId, { suppressErrorToast: true }),
+    onSuccess: invalidate,
+  });
+}
+
+const notifiedKey = (personId: number | string) => `holds:notified:${personId}`;
+
+const readNotified = (personId: number | string): number[] => {
+  try {
+    return JSON.parse(localStorage.getItem(notifiedKey(personId)) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+// Avisa o leitor, uma única vez por reserva, quando um exemplar foi separado
+// para ele. Os ids já avisados ficam no localStorage porque o Layout é montado
+// de novo a cada página.
+export function useHoldNotifications(personId: number | string | undefined) {
+  const { data: holds } = usePersonHolds(personId, {
+    refetchInterval: HOLD_POLL_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (!personId || !holds) return;
+
+    const notified = readNotified(personId);
+    const ready = holds.filter(
+      (hold) => hold.status === HoldStatus.READY && !notified.includes(hold.id)
+    );
+    if (ready.length === 0) return;
+
+    ready.forEach((hold) => {
+      toast.success(`"${hold.book.title}" está disponível para retirada`, {
+        description: hold.expires_at
+          ? `Retire no balcão até ${new Date(hold.expires_at).toLocaleDateString("pt-BR")}.`
+          : undefined,
+        duration: 10_000,
+      });
+    });
+
+    // Guarda só as reservas ainda prontas, para a lista não crescer sem limite
+    const stillReady = holds
+      .filter((hold) => hold.status === HoldStatus.READY)
+      .map((hold) => hold.id);
+    localStorage.setItem(notifiedKey(personId), JSON.stringify(stillReady));
+  }, [personId, holds]);
+}
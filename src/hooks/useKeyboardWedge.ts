@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+
+// Leitores de código de barras USB funcionam como teclado ("wedge"): digitam o
+// código em rajada, muito mais rápido que uma pessoa, e terminam com Enter.
+// Um único listener global reconhece essas rajadas e entrega o código à tela
+// ativa, sem precisar focar um campo antes. Campos de texto com foco recebem
+// a digitação normalmente, como qualquer teclado.
+
+// Intervalo máximo entre teclas de uma rajada; pessoas raramente ficam abaixo
+const MAX_KEY_INTERVAL_MS = 40;
+// Alguns leitores fazem uma pausa curta antes do Enter
+const MAX_ENTER_DELAY_MS = 100;
+const MIN_CODE_LENGTH = 4;
+
+type ScanHandler = (code: string) => void;
+type HandlerRef = { current: ScanHandler };
+
+// Pilha de telas interessadas: o código vai para a registrada por último
+// (ex.: um diálogo aberto por cima da página)
+const handlers: HandlerRef[] = [];
+
+let buffer = "";
+let lastKeyAt = 0;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const handleKeyDown = (event: KeyboardEvent) => {
+  if (isEditable(event.target) || event.ctrlKey || event.altKey || event.metaKey) {
+    buffer = "";
+    return;
+  }
+
+  const now = event.timeStamp;
+  const elapsed = now - lastKeyAt;
+  lastKeyAt = now;
+
+  if (event.key === "Enter") {
+    const code = buffer;
+    buffer = "";
+    if (code.length < MIN_CODE_LENGTH || elapsed > MAX_ENTER_DELAY_MS) return;
+
+    // Evita que o Enter acione o botão com foco
+    event.preventDefault();
+    event.stopPropagation();
+    handlers[handlers.length - 1]?.current(code);
+    return;
+  }
+
+  if (event.key.length !== 1) return;
+  buffer = elapsed > MAX_KEY_INTERVAL_MS ? event.key : buffer + event.key;
+};
+
+const register = (handler: HandlerRef) => {
+  if (handlers.length === 0) window.addEventListener("keydown", handleKeyDown, true);
+  handlers.push(handler);
+};
+
+const unregister = (handler: HandlerRef) => {
+  const index = handlers.lastIndexOf(handler);
+  if (index >= 0) handlers.splice(index, 1);
+  if (handlers.length === 0) {
+    window.removeEventListener("keydown", handleKeyDown, true);
+    buffer = "";
+  }
+};
+
+// Recebe os códigos lidos por um leitor USB enquanto a tela estiver montada
+// (e enabled). O callback pode mudar a cada render sem registrar de novo.
+export function useKeyboardWedge(onScan: ScanHandler, { enabled = true } = {}) {
+  const handlerRef = useRef(onScan);
+  handlerRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    register(handlerRef);
+    return () => unregister(handlerRef);
+  }, [enabled]);
+}
@@ -0,0 +1,62 @@
+import { useMemo } from "react";
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { policyAPI } from "@/services/api";
+import { DEFAULT_LOAN_POLICY, resolveLoanPolicy } from "@/services/loanPolicy";
+import { LoanAction, getLoanActionBlock, getLoanState } from "@/services/loanStatus";
+import { Loan, LoanPolicy, Role } from "@/types";
+import { queryKeys } from "./queryKeys";
+
+// A política muda raramente; fica em cache e é recarregada após a edição
+const POLICY_STALE_TIME_MS = 5 * 60_000;
+
+export function useLoanPolicy() {
+  return useQuery({
+    queryKey: queryKeys.loanPolicy,
+    queryFn: policyAPI.get,
+    staleTime: POLICY_STALE_TIME_MS,
+  });
+}
+
+// Regras valendo para o papel informado. Até a política carregar, usa os
+// valores padrão para que prazos e limites possam ser exibidos.
+export function useLoanRules(role?: Role) {
+  const { data: policy = DEFAULT_LOAN_POLICY } = useLoanPolicy();
+  return resolveLoanPolicy(policy, role);
+}
+
+// Situação de cada empréstimo e motivo para recusar uma ação, com as regras
+// do papel de quem pegou o livro
+export function useLoanStatus() {
+  const { data: policy = DEFAULT_LOAN_POLICY } = useLoanPolicy();
+
+  return useMemo(() => {
+    const rulesOf = (loan: Loan) => resolveLoanPolicy(policy, loan.person?.role);
+    return {
+      stateOf: (loan: Loan) => getLoanState(loan, rulesOf(loan)),
+      actionBlock: (loan: Loan, action: LoanAction) =>
+        getLoanActionBlock(loan, action, rulesOf(loan)),
+    };
+  }, [policy]);
+}
+
+// Para as atualizações otimistas, que rodam fora de componentes
+export const getCachedLoanRules = (queryClient: QueryClient, role?: Role) =>
+  resolveLoanPolicy(
+    queryClient.getQueryData<LoanPolicy>(queryKeys.loanPolicy) ?? DEFAULT_LOAN_POLICY,
+    role
+  );
+
+export function useUpdateLoanPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (policy: LoanPolicy) => policyAPI.update(policy, { suppressErrorToast: true }),
+    onSuccess: (policy) => {
+      queryClient.setQueryData(queryKeys.loanPolicy, policy);
+      // Carência e prazos mudam quais empréstimos contam como atrasados
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.people.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+    },
+  });
+}
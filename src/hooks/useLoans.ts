@@ -0,0 +1,394 @@
+import { useEffect } from "react";
+import {
+  Query,
+  QueryClient,
+  QueryKey,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { toast } from "sonner";
+import { loansAPI, usersAPI } from "@/services/api";
+import { getLoanState, toLoanStatus } from "@/services/loanStatus";
+import { Book, BookCopy, Loan, LoanStatus, Paginated, User } from "@/types";
+import { getCachedLoanRules } from "./useLoanPolicy";
+import { ActivityParams, LoanListParams, queryKeys } from "./queryKeys";
+
+export function useLoans(params: LoanListParams = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.loans.list(params),
+    queryFn: () => loansAPI.getAllLoans(params),
+    placeholderData: (previous) => previous,
+    ...options,
+  });
+}
+
+export function usePersonLoans(personId: number | string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.loans.byPerson(personId ?? ""),
+    queryFn: () => usersAPI.getLoanByUser(Number(personId)),
+    enabled: !!personId,
+  });
+}
+
+export function useActivity(params: ActivityParams, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.loans.activity(params),
+    queryFn: () => loansAPI.getActivity(params),
+    ...options,
+  });
+}
+
+const LOAN_MUTATION_KEY = ["loanMutation"];
+
+// Qualquer movimentação de empréstimo altera a disponibilidade dos livros, as
+// reservas, as multas, a situação dos leitores (empréstimos ativos, saldo e
+// bloqueio) e os contadores do painel, além das listas de empréstimos e
+// atividades.
+// Com outras mutações ainda em andamento, espera a última terminar para não
+// sobrescrever as atualizações otimistas delas com dados antigos do servidor.
+const useInvalidateCirculation = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    if (queryClient.isMutating({ mutationKey: LOAN_MUTATION_KEY }) > 1) return;
+
+    queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.copies.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.fees.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.people.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+  };
+};
+
+// --- Atualizações otimistas -------------------------------------------------
+// As mutações aplicam o resultado esperado no cache antes da resposta do
+// servidor e, se a requisição falhar, desfazem só o que elas mesmas mudaram.
+// Restaurar um retrato inteiro do cache apagaria as atualizações de outras
+// mutações ainda em andamento.
+
+// Tempo em que a devolução pode ser desfeita antes de ir para o servidor
+export const RETURN_UNDO_WINDOW_MS = 5000;
+
+interface OptimisticContext {
+  rollback: () => void;
+}
+
+// Listas de empréstimos (paginada e por pessoa); o histórico de atividades
+// também fica sob "loans", mas tem outro formato
+const isLoanListQuery = (query: Query) =>
+  query.queryKey[0] === queryKeys.loans.all[0] && query.queryKey[1] !== "activity";
+
+// Evita que uma busca em andamento sobrescreva a atualização otimista
+const cancelCirculationQueries = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.cancelQueries({ queryKey: queryKeys.loans.all }),
+    queryClient.cancelQueries({ queryKey: queryKeys.books.all }),
+  ]);
+
+const rollback = (context: OptimisticContext | undefined) => context?.rollback();
+
+// A listagem paginada guarda um envelope; a lista por pessoa, um array
+type ListData<T> = T[] | Paginated<T> | undefined;
+
+const updateItems = <T>(data: ListData<T>, update: (items: T[]) => T[], totalDelta = 0): ListData<T> => {
+  if (Array.isArray(data)) return update(data);
+  if (!data) return data;
+
+  return {
+    ...data,
+    items: update(data.items),
+    total: data.total === null ? null : data.total + totalDelta,
+  };
+};
+
+const patchLoan = (queryClient: QueryClient, loanId: number, update: (loan: Loan) => Loan) => {
+  queryClient.setQueriesData<ListData<Loan>>({ predicate: isLoanListQuery }, (data) =>
+    updateItems(data, (loans) => loans.map((loan) => (loan.id === loanId ? update(loan) : loan)))
+  );
+};
+
+const adjustAvailability = (queryClient: QueryClient, bookId: number, delta: number) => {
+  const update = (book: Book) =>
+    book.id === bookId
+      ? { ...book, available: Math.min(book.quantity, Math.max(0, book.available + delta)) }
+      : book;
+
+  queryClient.setQueriesData<ListData<Book>>({ queryKey: queryKeys.books.lists() }, (data) =>
+    updateItems(data, (books) => books.map(update))
+  );
+  queryClient.setQueryData<Book>(queryKeys.books.detail(bookId), (book) =>
+    book ? update(book) : book
+  );
+};
+
+// Empréstimo provisório exibido até a resposta do servidor (id negativo)
+const buildPendingLoan = (
+  book: Book,
+  person: User,
+  duration: number,
+  copy?: BookCopy
+): Loan => ({
+  id: -Date.now(),
+  book: { ...book, available: book.available - 1 },
+  copy,
+  person,
+  start_date: new Date().toISOString(),
+  duration,
+  renewals: 0,
+  return_date: null,
+  type: LoanStatus.IN_DAYS,
+});
+
+const acceptsPendingLoan = (queryKey: QueryKey, book: Book, person: User) => {
+  const [, scope, params] = queryKey;
+
+  if (scope === "person") return String(params) === String(person.id);
+  if (scope !== "list") return false;
+
+  const { page = 0, person_id, book_id, types } = (params ?? {}) as LoanListParams;
+  return (
+    page === 0 &&
+    (!person_id || String(person_id) === String(person.id)) &&
+    (!book_id || book_id === book.id) &&
+    (!types || String(types).split(",").includes(LoanStatus.IN_DAYS))
+  );
+};
+
+const addPendingLoan = async (
+  queryClient: QueryClient,
+  { book, person, copy }: { book: Book; person: User; copy?: BookCopy }
+): Promise<OptimisticContext> => {
+  await cancelCirculationQueries(queryClient);
+  const rules = getCachedLoanRules(queryClient, person.role);
+  const pending = buildPendingLoan(book, person, rules.loan_duration_days, copy);
+
+  queryClient
+    .getQueryCache()
+    .findAll({ predicate: isLoanListQuery })
+    .filter((query) => acceptsPendingLoan(query.queryKey, book, person))
+    .forEach((query) =>
+      queryClient.setQueryData<ListData<Loan>>(query.queryKey, (data) =>
+        updateItems(data, (loans) => [pending, ...loans], 1)
+      )
+    );
+  adjustAvailability(queryClient, book.id, -1);
+
+  return {
+    rollback: () => {
+      queryClient.setQueriesData<ListData<Loan>>({ predicate: isLoanListQuery }, (data) => {
+        const items = Array.isArray(data) ? data : data?.items;
+        if (!items?.some((loan) => loan.id === pending.id)) return data;
+        return updateItems(data, (loans) => loans.filter((loan) => loan.id !== pending.id), -1);
+      });
+      adjustAvailability(queryClient, book.id, 1);
+    },
+  };
+};
+
+export function useCreateLoan() {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateCirculation();
+
+  // O empréstimo é sempre de um exemplar específico (escaneado ou escolhido)
+  return useMutation<Loan, Error, { book: Book; person: User; copy: BookCopy }, OptimisticContext>({
+    mutationKey: LOAN_MUTATION_KEY,
+    mutationFn: ({ person, copy }) =>
+      loansAPI.create(copy.barcode, String(person.id), { suppressErrorToast: true }),
+    onMutate: (variables) => addPendingLoan(queryClient, variables),
+    onError: (_, __, context) => rollback(context),
+    onSettled: invalidate,
+  });
+}
+
+// Pedido de empréstimo feito pelo próprio leitor na página do livro
+export function useBorrowBook() {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateCirculation();
+
+  return useMutation<Loan, Error, { book: Book; person: User }, OptimisticContext>({
+    mutationKey: LOAN_MUTATION_KEY,
+    mutationFn: ({ book, person }) =>
+      loansAPI.borrow(book.id, person.id, { suppressErrorToast: true }),
+    onMutate: (variables) => addPendingLoan(queryClient, variables),
+    onError: (_, __, context) => rollback(context),
+    onSettled: invalidate,
+  });
+}
+
+export function useExtendLoan() {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateCirculation();
+
+  return useMutation<Loan, Error, Loan, OptimisticContext>({
+    mutationKey: LOAN_MUTATION_KEY,
+    mutationFn: (loan) => loansAPI.extend(loan.id, { suppressErrorToast: true }),
+    onMutate: async (loan) => {
+      await cancelCirculationQueries(queryClient);
+
+      const rules = getCachedLoanRules(queryClient, loan.person.role);
+      patchLoan(queryClient, loan.id, (current) => {
+        const extended: Loan = {
+          ...current,
+          duration: current.duration + rules.extension_days,
+          // Recalculada a partir da nova duração até o servidor responder
+          due_date: undefined,
+          renewals: (current.renewals ?? 0) + 1,
+        };
+        return {
+          ...extended,
+          type: toLoanStatus(getLoanState(extended, rules)),
+        };
+      });
+
+      return {
+        rollback: () =>
+          patchLoan(queryClient, loan.id, (current) => ({
+            ...current,
+            duration: loan.duration,
+            due_date: loan.due_date,
+            renewals: loan.renewals,
+            type: loan.type,
+          })),
+      };
+    },
+    onError: (_, __, context) => rollback(context),
+    onSettled: invalidate,
+  });
+}
+
+// Devolução desfeita pelo usuário dentro da janela de desfazer
+export class ReturnUndoneError extends Error {
+  name = "ReturnUndoneError";
+}
+
+interface PendingReturn {
+  send: () => void;
+  undo: () => void;
+}
+
+const pendingReturns = new Map<number, PendingReturn>();
+
+const waitForUndoWindow = (loanId: number) =>
+  new Promise<void>((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer);
+      pendingReturns.delete(loanId);
+    };
+    const send = () => {
+      settle();
+      resolve();
+    };
+    const timer = setTimeout(send, RETURN_UNDO_WINDOW_MS);
+
+    pendingReturns.set(loanId, {
+      send,
+      undo: () => {
+        settle();
+        reject(new ReturnUndoneError("Devolução desfeita"));
+      },
+    });
+  });
+
+export const undoReturn = (loanId: number) => {
+  pendingReturns.get(loanId)?.undo();
+};
+
+// Devoluções ainda na janela de desfazer quando a aba é fechada. O navegador
+// não garante requisições iniciadas durante o descarregamento da página (no
+// modo offline elas nunca saem), então os ids ficam guardados e são enviados
+// no próximo carregamento por useResumePendingReturns.
+const PENDING_RETURNS_STORAGE_KEY = "pendingReturns";
+
+const readStoredReturns = (): number[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_RETURNS_STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+const flushPendingReturns = () => {
+  if (pendingReturns.size === 0) return;
+
+  const loanIds = new Set([...readStoredReturns(), ...pendingReturns.keys()]);
+  localStorage.setItem(PENDING_RETURNS_STORAGE_KEY, JSON.stringify([...loanIds]));
+  // Tentativa imediata; se não chegar ao servidor, o próximo carregamento reenvia
+  [...pendingReturns.values()].forEach(({ send }) => send());
+};
+
+if (typeof window !== "undefined") {
+  window.addEventListener("pagehide", flushPendingReturns);
+  window.addEventListener("beforeunload", flushPendingReturns);
+}
+
+let resumingReturns = false;
+
+// Envia as devoluções guardadas por flushPendingReturns. Devoluções que já
+// chegaram ao servidor antes de a aba fechar voltam com erro e são ignoradas.
+export function useResumePendingReturns(enabled: boolean) {
+  const invalidate = useInvalidateCirculation();
+
+  useEffect(() => {
+    const loanIds = readStoredReturns();
+    if (!enabled || resumingReturns || loanIds.length === 0) return;
+
+    resumingReturns = true;
+    localStorage.removeItem(PENDING_RETURNS_STORAGE_KEY);
+    Promise.allSettled(
+      loanIds.map((loanId) => loansAPI.return(loanId, { suppressErrorToast: true }))
+    )
+      .then((results) => {
+        const sent = results.filter((result) => result.status === "fulfilled").length;
+        if (sent > 0) {
+          toast.info(`${sent} devolução(ões) pendente(s) da sessão anterior registrada(s)`);
+          invalidate();
+        }
+      })
+      .finally(() => {
+        resumingReturns = false;
+      });
+  }, [enabled, invalidate]);
+}
+
+// A devolução aparece na hora, mas só é enviada ao servidor quando a janela de
+// desfazer termina (se a aba for fechada antes, no próximo carregamento);
+// desfazer cai no mesmo caminho de rollback de uma falha.
+// No balcão, as devoluções em sequência vão direto (undoable: false).
+export function useReturnLoan({ undoable = true }: { undoable?: boolean } = {}) {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateCirculation();
+
+  return useMutation<Loan, Error, Loan, OptimisticContext>({
+    mutationKey: LOAN_MUTATION_KEY,
+    mutationFn: async (loan) => {
+      if (undoable) await waitForUndoWindow(loan.id);
+      return loansAPI.return(loan.id, { suppressErrorToast: true });
+    },
+    onMutate: async (loan) => {
+      await cancelCirculationQueries(queryClient);
+
+      patchLoan(queryClient, loan.id, (current) => ({
+        ...current,
+        return_date: new Date().toISOString(),
+        type: LoanStatus.RETURNED,
+      }));
+      adjustAvailability(queryClient, loan.book.id, 1);
+
+      return {
+        rollback: () => {
+          patchLoan(queryClient, loan.id, (current) => ({
+            ...current,
+            return_date: loan.return_date,
+            type: loan.type,
+          }));
+          adjustAvailability(queryClient, loan.book.id, -1);
+        },
+      };
+    },
+    onError: (_, __, context) => rollback(context),
+    onSettled: invalidate,
+  });
+}
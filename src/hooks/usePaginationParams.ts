@@ -0,0 +1,46 @@
+import { useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+
+// Página e tamanho de página guardados na query string (?page=2&pageSize=24).
+// Na URL a página começa em 1; para o restante do client ela começa em 0.
+export function usePaginationParams(defaultPageSize: number) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const page = Math.max(0, (Number(searchParams.get("page")) || 1) - 1);
+  const pageSize = Math.max(1, Number(searchParams.get("pageSize")) || defaultPageSize);
+
+  const update = useCallback(
+    (changes: { page?: number; pageSize?: number }, replace = false) => {
+      setSearchParams(
+        (previous) => {
+          const next = new URLSearchParams(previous);
+
+          if (changes.page !== undefined) {
+            if (changes.page > 0) next.set("page", String(changes.page + 1));
+            else next.delete("page");
+          }
+          if (changes.pageSize !== undefined) {
+            if (changes.pageSize !== defaultPageSize) next.set("pageSize", String(changes.pageSize));
+            else next.delete("pageSize");
+          }
+
+          return next;
+        },
+        { replace }
+      );
+    },
+    [setSearchParams, defaultPageSize]
+  );
+
+  return {
+    page,
+    pageSize,
+    setPage: useCallback((nextPage: number) => update({ page: nextPage }), [update]),
+    // Volta para a primeira página sem criar uma entrada no histórico (ex.: nova busca)
+    resetPage: useCallback(() => update({ page: 0 }, true), [update]),
+    setPageSize: useCallback(
+      (nextPageSize: number) => update({ page: 0, pageSize: nextPageSize }),
+      [update]
+    ),
+  };
+}
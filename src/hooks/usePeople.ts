@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authAPI, usersAPI } from "@/services/api";
+import { Role, User } from "@/types";
+import { PeopleListParams, queryKeys } from "./queryKeys";
+
+export function usePeople(params: PeopleListParams = {}, options: { enabled?: boolean } = {}) {
+  const { page = 0, limit = 12, query = "", roles } = params;
+
+  return useQuery({
+    queryKey: queryKeys.people.list({ page, limit, query, roles }),
+    queryFn: () => usersAPI.getAll(page, limit, query, roles),
+    placeholderData: (previous) => previous,
+    ...options,
+  });
+}
+
+export function usePerson(id: number | string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.people.detail(id ?? ""),
+    queryFn: () => usersAPI.getById(String(id)),
+    enabled: !!id,
+  });
+}
+
+export function useRegisterLibrarian() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ name, email, password }: { name: string; email: string; password: string }) =>
+      authAPI.registerLibrarian(name, email, password, { suppressErrorToast: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.people.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+    },
+  });
+}
+
+export function useUpdatePerson() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<User> }) =>
+      usersAPI.update(id, data, { suppressErrorToast: true }),
+    onSuccess: (updated, { id }) => {
+      queryClient.setQueryData(queryKeys.people.detail(id), updated);
+      queryClient.invalidateQueries({ queryKey: queryKeys.people.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+    },
+  });
+}
+
+export function useChangeRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, role }: { id: number; role: Role }) =>
+      usersAPI.changeRole(id, role, { suppressErrorToast: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.people.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+    },
+  });
+}
+
+export function useDeletePerson() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => usersAPI.delete(id, { suppressErrorToast: true }),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.people.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.people.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+    },
+  });
+}
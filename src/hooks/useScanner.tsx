@@ -1,40 +1,79 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import {
-  BrowserMultiFormatReader,
-  BarcodeFormat,
-  DecodeHintType,
-} from "@zxing/library";
+  RegionBarcodeReader,
+  createScannerHints,
+  previewPointToVideo,
+} from "@/services/barcodeDecoding";
 
 interface ScannerOptions {
   onDetected: (result: string) => void;
 }
 
+// Câmera escolhida por último neste aparelho; os ids valem por site e navegador
+const PREFERRED_CAMERA_KEY = "scanner:preferredCamera";
+
+// Recursos da Image Capture API que ainda não estão no lib.dom do TypeScript
+interface CameraCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step: number };
+  focusMode?: string[];
+}
+
+interface CameraSettings extends MediaTrackSettings {
+  zoom?: number;
+}
+
+type CameraConstraints = MediaTrackConstraintSet & {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  pointsOfInterest?: { x: number; y: number }[];
+};
+
+// O que a câmera aberta deixa controlar; depende do aparelho e do navegador
+export interface CameraControls {
+  torch: boolean;
+  zoom: { min: number; max: number; step: number } | null;
+  // Modo de foco usado ao tocar na imagem, ou null se a câmera não foca por ponto
+  focusMode: string | null;
+}
+
+const readCameraControls = (track: MediaStreamTrack): CameraControls => {
+  const capabilities: CameraCapabilities = track.getCapabilities?.() ?? {};
+  const focusModes = capabilities.focusMode ?? [];
+  const supported = navigator.mediaDevices.getSupportedConstraints() as Record<string, boolean>;
+
+  return {
+    torch: !!capabilities.torch,
+    zoom:
+      capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min
+        ? capabilities.zoom
+        : null,
+    focusMode: focusModes.includes("single-shot")
+      ? "single-shot"
+      : supported.pointsOfInterest && focusModes.includes("continuous")
+      ? "continuous"
+      : null,
+  };
+};
+
 export function useScanner({ onDetected }: ScannerOptions) {
   const [isScanning, setIsScanning] = useState(false);
   const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
   const [selectedCamera, setSelectedCamera] = useState<string>("");
   const [error, setError] = useState<string>("");
+  const [controls, setControls] = useState<CameraControls | null>(null);
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoomValue] = useState<number | null>(null);
 
-  const readerRef = useRef<BrowserMultiFormatReader | null>(null);
+  const readerRef = useRef<RegionBarcodeReader | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const trackRef = useRef<MediaStreamTrack | null>(null);
 
   // Initialize the barcode reader
   useEffect(() => {
-    const hints = new Map();
-    const formats = [
-      BarcodeFormat.EAN_13,
-      BarcodeFormat.EAN_8,
-      BarcodeFormat.UPC_A,
-      BarcodeFormat.UPC_E,
-      BarcodeFormat.CODE_39,
-      BarcodeFormat.CODE_128,
-    ];
-
-    hints.set(DecodeHintType.POSSIBLE_FORMATS, formats);
-    hints.set(DecodeHintType.TRY_HARDER, true);
-
-    const reader = new BrowserMultiFormatReader(hints, 500);
+    const reader = new RegionBarcodeReader(createScannerHints(), 500);
     readerRef.current = reader;
 
     return () => {
@@ -51,8 +90,12 @@ export function useScanner({ onDetected }: ScannerOptions) {
       streamRef.current = null;
     }
 
+    trackRef.current = null;
     readerRef.current?.reset();
     setIsScanning(false);
+    setControls(null);
+    setTorchOn(false);
+    setZoomValue(null);
   }, []);
 
   const getCameras = useCallback(async () => {
@@ -76,6 +119,9 @@ export function useScanner({ onDetected }: ScannerOptions) {
       setCameras(devices);
 
       if (devices.length > 0 && !selectedCamera) {
+        const preferredCamera = devices.find(
+          (device) => device.deviceId === localStorage.getItem(PREFERRED_CAMERA_KEY)
+        );
         const backCamera = devices.find(
           (device) =>
             device.label?.toLowerCase().includes("back") ||
@@ -83,7 +129,8 @@ export function useScanner({ onDetected }: ScannerOptions) {
             device.label?.toLowerCase().includes("rear")
         );
 
-        const cameraToUse = backCamera?.deviceId || devices[0].deviceId;
+        const cameraToUse =
+          preferredCamera?.deviceId || backCamera?.deviceId || devices[0].deviceId;
         console.log("Auto-selecting camera:", cameraToUse);
         setSelectedCamera(cameraToUse);
       }
@@ -139,6 +186,13 @@ export function useScanner({ onDetected }: ScannerOptions) {
         streamRef.current = videoElement.srcObject;
       }
 
+      const track = streamRef.current?.getVideoTracks()[0] ?? null;
+      trackRef.current = track;
+      if (track) {
+        setControls(readCameraControls(track));
+        setZoomValue((track.getSettings() as CameraSettings).zoom ?? null);
+      }
+
     } catch (err) {
       console.error("Error starting scanner:", err);
       setError("Erro ao iniciar o scanner.");
@@ -154,6 +208,7 @@ export function useScanner({ onDetected }: ScannerOptions) {
       }
 
       setSelectedCamera(deviceId);
+      localStorage.setItem(PREFERRED_CAMERA_KEY, deviceId);
 
       setTimeout(() => {
         if (deviceId) {
@@ -164,6 +219,48 @@ export function useScanner({ onDetected }: ScannerOptions) {
     [isScanning, startScanning, stopScanning]
   );
 
+  const applyConstraints = useCallback(async (constraints: CameraConstraints) => {
+    if (!trackRef.current) return false;
+
+    try {
+      await trackRef.current.applyConstraints({ advanced: [constraints] });
+      return true;
+    } catch (err) {
+      console.error("Error applying camera constraints:", err);
+      return false;
+    }
+  }, []);
+
+  const toggleTorch = useCallback(async () => {
+    const next = !torchOn;
+    if (await applyConstraints({ torch: next })) {
+      setTorchOn(next);
+    }
+  }, [applyConstraints, torchOn]);
+
+  const setZoom = useCallback(
+    (value: number) => {
+      setZoomValue(value);
+      applyConstraints({ zoom: value });
+    },
+    [applyConstraints]
+  );
+
+  // Foca no ponto tocado da pré-visualização (x e y em frações dela)
+  const focusAt = useCallback(
+    (x: number, y: number) => {
+      const video = videoRef.current;
+      if (!controls?.focusMode || !video?.videoWidth) return;
+
+      const point = previewPointToVideo(video, x, y);
+      applyConstraints({
+        focusMode: controls.focusMode,
+        pointsOfInterest: [{ x: point.x / video.videoWidth, y: point.y / video.videoHeight }],
+      });
+    },
+    [applyConstraints, controls]
+  );
+
   return {
     isScanning,
     startScanning,
@@ -174,5 +271,11 @@ export function useScanner({ onDetected }: ScannerOptions) {
     getCameras,
     error,
     videoRef,
+    controls,
+    torchOn,
+    toggleTorch,
+    zoom,
+    setZoom,
+    focusAt,
   };
 }
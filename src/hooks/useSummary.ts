@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { summaryAPI } from "@/services/api";
+import { queryKeys } from "./queryKeys";
+
+export function useSummary(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.summary,
+    queryFn: summaryAPI.getAll,
+    ...options,
+  });
+}
@@ -13,22 +13,188 @@ import {
   Plus,
   Minus,
   Save,
+  ImagePlus,
+  X,
+  Trash2,
+  UserPlus,
+  Layers,
 } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/context/AuthContext";
-import { Book, Role } from "@/types";
+import { Book, BookContributor, ContributorRole, Role } from "@/types";
 import BarcodeScanner from "@/components/BarcodeScanner";
 import { parseOpenLibraryBook, searchByISBN } from "@/services/openLibraryApi";
 import { mockBooks } from "@/data/mockData";
-import { booksAPI } from "@/services/api";
-
+import {
+  useBook,
+  useCreateBook,
+  useUpdateBook,
+  useUploadBookCover,
+} from "@/hooks/useBooks";
+import { useBookCover } from "@/hooks/useBookCover";
+import { useKeyboardWedge } from "@/hooks/useKeyboardWedge";
+import { applyFieldErrors, getErrorMessage } from "@/services/apiErrors";
+import {
+  MAX_COVER_UPLOAD_BYTES,
+  MAX_COVER_UPLOAD_LABEL,
+} from "@/services/covers";
+import { cleanIsbn, getIsbnError } from "@/services/isbn";
+import BookCover from "@/components/BookCover";
+import {
+  CONTRIBUTOR_ROLE_LABELS,
+  LANGUAGE_LABELS,
+  getContributors,
+  summarizeAuthors,
+} from "@/services/bookMetadata";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Campos numéricos ficam como texto para permitir o campo vazio
 interface BookFormData {
   title: string;
-  author: string;
   isbn: string;
   quantity: number;
+  contributors: BookContributor[];
+  publisher: string;
+  published_year: string;
+  edition: string;
+  language: string;
+  page_count: string;
+  // Separados por vírgula
+  subjects: string;
+  series: string;
+  series_number: string;
+  description: string;
 }
 
+// "author" é o nome do campo no servidor; no formulário ele vem dos colaboradores
+type BookFormField = keyof BookFormData | "author";
+
+const BOOK_FORM_FIELDS: BookFormField[] = [
+  "title",
+  "author",
+  "isbn",
+  "quantity",
+  "contributors",
+  "publisher",
+  "published_year",
+  "edition",
+  "language",
+  "page_count",
+  "subjects",
+  "series",
+  "series_number",
+  "description",
+];
+
+const NO_LANGUAGE = "none";
+
+const EMPTY_FORM: BookFormData = {
+  title: "",
+  isbn: "",
+  quantity: 1,
+  contributors: [{ name: "", role: ContributorRole.AUTHOR }],
+  publisher: "",
+  published_year: "",
+  edition: "",
+  language: "",
+  page_count: "",
+  subjects: "",
+  series: "",
+  series_number: "",
+  description: "",
+};
+
+const bookToForm = (book: Book): BookFormData => ({
+  title: book.title,
+  isbn: book.isbn,
+  quantity: book.quantity,
+  contributors: getContributors(book),
+  publisher: book.publisher ?? "",
+  published_year: book.published_year?.toString() ?? "",
+  edition: book.edition ?? "",
+  language: book.language ?? "",
+  page_count: book.page_count?.toString() ?? "",
+  subjects: book.subjects?.join(", ") ?? "",
+  series: book.series ?? "",
+  series_number: book.series_number?.toString() ?? "",
+  description: book.description ?? "",
+});
+
+const toNullableNumber = (value: string) =>
+  value.trim() ? Number(value) : null;
+
+// Campos vazios vão como null para que a edição também possa apagá-los
+const formToBook = (form: BookFormData): Partial<Book> => {
+  const contributors = form.contributors
+    .map((contributor) => ({ ...contributor, name: contributor.name.trim() }))
+    .filter((contributor) => contributor.name);
+
+  return {
+    title: form.title.trim(),
+    author: summarizeAuthors(contributors),
+    contributors,
+    isbn: cleanIsbn(form.isbn),
+    quantity: form.quantity,
+    publisher: form.publisher.trim() || null,
+    published_year: toNullableNumber(form.published_year),
+    edition: form.edition.trim() || null,
+    language: form.language || null,
+    page_count: toNullableNumber(form.page_count),
+    subjects: form.subjects
+      .split(",")
+      .map((subject) => subject.trim())
+      .filter(Boolean),
+    series: form.series.trim() || null,
+    series_number: form.series.trim()
+      ? toNullableNumber(form.series_number)
+      : null,
+    description: form.description.trim() || null,
+  };
+};
+
+const isPositiveInteger = (value: string) => /^\d+$/.test(value) && Number(value) > 0;
+
+const validateForm = (form: BookFormData) => {
+  const errors: Partial<Record<BookFormField, string>> = {};
+  const maxYear = new Date().getFullYear() + 1;
+
+  if (!form.title.trim()) errors.title = "Informe o título";
+  if (!form.isbn.trim()) errors.isbn = "Informe o ISBN";
+  else if (getIsbnError(form.isbn)) errors.isbn = getIsbnError(form.isbn);
+  if (!summarizeAuthors(form.contributors)) {
+    errors.contributors = "Informe ao menos um autor";
+  }
+  if (
+    form.published_year &&
+    (!isPositiveInteger(form.published_year) ||
+      Number(form.published_year) > maxYear)
+  ) {
+    errors.published_year = `Ano entre 1 e ${maxYear}`;
+  }
+  if (form.page_count && !isPositiveInteger(form.page_count)) {
+    errors.page_count = "Número de páginas inválido";
+  }
+  if (form.series_number && !isPositiveInteger(form.series_number)) {
+    errors.series_number = "Número na série inválido";
+  }
+  if (form.series_number && !form.series.trim()) {
+    errors.series = "Informe a série";
+  }
+
+  return errors;
+};
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? (
+    <p className="text-sm font-medium text-destructive">{message}</p>
+  ) : null;
+
 const AddBook = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -36,43 +202,52 @@ const AddBook = () => {
 
   const isEditMode = !!id;
 
-  const [formData, setFormData] = useState<BookFormData>({
-    title: "",
-    author: "",
-    isbn: "",
-    quantity: 1,
-  });
+  const [formData, setFormData] = useState<BookFormData>(EMPTY_FORM);
 
-  const [loading, setLoading] = useState(false);
-  const [submitting, setSubmitting] = useState(false);
   const [isbnLoading, setIsbnLoading] = useState(false);
   const [showScanner, setShowScanner] = useState(false);
+  const [showBatchScanner, setShowBatchScanner] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<
+    Partial<Record<BookFormField, string>>
+  >({});
 
   // Fetch book details if in edit mode
+  const { data: book, isLoading: loading, isError } = useBook(id);
+  const createBook = useCreateBook();
+  const updateBook = useUpdateBook();
+  const uploadCover = useUploadBookCover();
+
+  // Capa personalizada: só é oferecida quando o livro não tem nenhuma capa
+  const [coverFile, setCoverFile] = useState<File | null>(null);
+  const [coverPreview, setCoverPreview] = useState<string | null>(null);
+  const [coverError, setCoverError] = useState<string>();
+  const isbnDigits = formData.isbn.replace(/[^0-9Xx]/g, "");
+  const coverLookup = {
+    isbn: isbnDigits.length >= 10 ? formData.isbn : "",
+    cover_url: book?.cover_url,
+    title: formData.title,
+  };
+  const existingCover = useBookCover(coverLookup, "M");
+
+  useEffect(() => {
+    if (!coverFile) {
+      setCoverPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(coverFile);
+    setCoverPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [coverFile]);
+
   useEffect(() => {
-    if (isEditMode) {
-      const fetchBook = async () => {
-        setLoading(true);
-
-        try {
-          const book = await booksAPI.getById(id!);
-          setFormData({
-            title: book.title,
-            author: book.author,
-            isbn: book.isbn,
-            quantity: book.quantity,
-          });
-        } catch (error) {
-          toast.error("Erro ao carregar livro");
-          navigate("/catalogo");
-        } finally {
-          setLoading(false);
-        }
-      };
-
-      fetchBook();
+    if (book) {
+      setFormData(bookToForm(book));
     }
-  }, [id, isEditMode, navigate]);
+  }, [book]);
+
+  useEffect(() => {
+    if (isError) navigate("/catalogo");
+  }, [isError, navigate]);
 
   // Handle form input changes
   const handleChange = (
@@ -80,6 +255,48 @@ const AddBook = () => {
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleLanguageChange = (value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      language: value === NO_LANGUAGE ? "" : value,
+    }));
+  };
+
+  const updateContributor = (
+    index: number,
+    changes: Partial<BookContributor>
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      contributors: prev.contributors.map((contributor, i) =>
+        i === index ? { ...contributor, ...changes } : contributor
+      ),
+    }));
+    setFieldErrors((prev) => ({
+      ...prev,
+      contributors: undefined,
+      author: undefined,
+    }));
+  };
+
+  const addContributor = () => {
+    setFormData((prev) => ({
+      ...prev,
+      contributors: [
+        ...prev.contributors,
+        { name: "", role: ContributorRole.AUTHOR },
+      ],
+    }));
+  };
+
+  const removeContributor = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      contributors: prev.contributors.filter((_, i) => i !== index),
+    }));
   };
 
   // Handle quantity changes
@@ -104,12 +321,23 @@ const AddBook = () => {
       if (bookData) {
         const parsedBook = parseOpenLibraryBook(bookData);
 
-        setFormData({
+        setFormData((prev) => ({
+          ...EMPTY_FORM,
           title: parsedBook.title || "",
-          author: parsedBook.author || "",
           isbn: parsedBook.isbn || isbn,
-          quantity: formData.quantity,
-        });
+          quantity: prev.quantity,
+          contributors: parsedBook.contributors.length
+            ? parsedBook.contributors
+            : EMPTY_FORM.contributors,
+          publisher: parsedBook.publisher,
+          published_year: parsedBook.publishedYear
+            ? String(parsedBook.publishedYear)
+            : "",
+          language: parsedBook.language ?? "",
+          page_count: parsedBook.pageCount ? String(parsedBook.pageCount) : "",
+          subjects: parsedBook.subjects.join(", "),
+          description: parsedBook.description,
+        }));
 
         toast.success("Informações do livro encontradas!");
       } else {
@@ -123,54 +351,97 @@ const AddBook = () => {
     }
   };
 
+  const handleCoverChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      setCoverError("Selecione um arquivo de imagem (JPG, PNG ou WebP)");
+      return;
+    }
+    if (file.size > MAX_COVER_UPLOAD_BYTES) {
+      setCoverError(`A imagem deve ter no máximo ${MAX_COVER_UPLOAD_LABEL}`);
+      return;
+    }
+
+    setCoverError(undefined);
+    setCoverFile(file);
+  };
+
+  // Envia a capa depois que o livro existe no servidor. Uma falha aqui não
+  // desfaz o cadastro: o livro fica salvo e a capa pode ser enviada depois.
+  const saveCover = async (bookId: number) => {
+    if (!coverFile) return;
+    try {
+      await uploadCover.mutateAsync({ id: bookId, file: coverFile });
+    } catch (error) {
+      toast.error(
+        `Livro salvo, mas a capa não foi enviada: ${getErrorMessage(error)}`
+      );
+    }
+  };
+
   // Handle scanner detection
   const handleScannerDetection = (detectedIsbn: string) => {
+    // A câmera já recusa outros códigos; o leitor USB chega direto aqui
+    const isbnError = getIsbnError(detectedIsbn);
+    if (isbnError) {
+      toast.error(isbnError);
+      return;
+    }
+
     setFormData((prev) => ({ ...prev, isbn: detectedIsbn }));
     setShowScanner(false);
     handleIsbnSearch(detectedIsbn);
   };
 
+  // Leitor USB: o ISBN lido preenche o campo e busca os dados, como a câmera.
+  // Na edição, uma leitura acidental não deve sobrescrever o livro.
+  useKeyboardWedge(handleScannerDetection, { enabled: !isEditMode });
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.title || !formData.author || !formData.isbn) {
-      toast.error("Por favor, preencha todos os campos obrigatórios");
+    const errors = validateForm(formData);
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      toast.error("Por favor, corrija os campos destacados");
       return;
     }
 
-    setSubmitting(true);
+    setFieldErrors({});
+    const payload = formToBook(formData);
 
     try {
       if (!isEditMode) {
-        await booksAPI.create({
-          title: formData.title,
-          author: formData.author,
-          isbn: formData.isbn,
-          quantity: formData.quantity,
-        });
+        const created = await createBook.mutateAsync(payload);
 
+        await saveCover(created.id);
         toast.success(`Livro "${formData.title}" adicionado com sucesso`);
       } else {
-        await booksAPI.update(Number(id), {
-          title: formData.title,
-          author: formData.author,
-          isbn: formData.isbn,
-          quantity: formData.quantity,
-        });
+        await updateBook.mutateAsync({ id: Number(id), book: payload });
 
+        await saveCover(Number(id));
         toast.success(`Livro "${formData.title}" atualizado com sucesso`);
       }
 
       navigate("/catalogo");
     } catch (error) {
       console.error("Erro ao enviar formulário:", error);
-      toast.error("Ocorreu um erro ao salvar o livro");
-    } finally {
-      setSubmitting(false);
+      const showedInline = applyFieldErrors(error, BOOK_FORM_FIELDS, (field, message) =>
+        setFieldErrors((prev) => ({ ...prev, [field]: message }))
+      );
+      if (!showedInline) {
+        toast.error(getErrorMessage(error, "Ocorreu um erro ao salvar o livro"));
+      }
     }
   };
 
+  const submitting =
+    createBook.isPending || updateBook.isPending || uploadCover.isPending;
+
   if (loading) {
     return (
       <Layout>
@@ -210,15 +481,28 @@ const AddBook = () => {
             <div className="p-6 border rounded-lg space-y-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold">Busca por ISBN</h2>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowScanner(true)}
-                >
-                  <Scan className="h-4 w-4 mr-2" />
-                  Escanear Código de Barras
-                </Button>
+                <div className="flex gap-2">
+                  {!isEditMode && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowBatchScanner(true)}
+                    >
+                      <Layers className="h-4 w-4 mr-2" />
+                      Leitura em lote
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowScanner(true)}
+                  >
+                    <Scan className="h-4 w-4 mr-2" />
+                    Escanear Código de Barras
+                  </Button>
+                </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -231,6 +515,7 @@ const AddBook = () => {
                     onChange={handleChange}
                     placeholder="Digite o ISBN (ex: 9780061120084)"
                   />
+                  <FieldError message={fieldErrors.isbn} />
                 </div>
                 <div className="flex items-end">
                   <Button
@@ -271,44 +556,152 @@ const AddBook = () => {
                     placeholder="Título do livro"
                     required
                   />
+                  <FieldError message={fieldErrors.title} />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="author">
-                    Autor <span className="text-destructive">*</span>
+                  <Label>
+                    Autores e colaboradores{" "}
+                    <span className="text-destructive">*</span>
                   </Label>
+                  {formData.contributors.map((contributor, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Input
+                        aria-label={`Nome do colaborador ${index + 1}`}
+                        value={contributor.name}
+                        onChange={(e) =>
+                          updateContributor(index, { name: e.target.value })
+                        }
+                        placeholder="Nome"
+                      />
+                      <Select
+                        value={contributor.role}
+                        onValueChange={(role) =>
+                          updateContributor(index, {
+                            role: role as ContributorRole,
+                          })
+                        }
+                      >
+                        <SelectTrigger
+                          className="w-[150px] shrink-0"
+                          aria-label={`Papel do colaborador ${index + 1}`}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.values(ContributorRole).map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {CONTRIBUTOR_ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeContributor(index)}
+                        disabled={formData.contributors.length === 1}
+                        aria-label="Remover colaborador"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addContributor}
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Adicionar colaborador
+                  </Button>
+                  <FieldError
+                    message={fieldErrors.contributors ?? fieldErrors.author}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="publisher">Editora</Label>
                   <Input
-                    id="author"
-                    name="author"
-                    value={formData.author}
+                    id="publisher"
+                    name="publisher"
+                    value={formData.publisher}
                     onChange={handleChange}
-                    placeholder="Nome do autor"
-                    required
+                    placeholder="Nome da editora"
                   />
+                  <FieldError message={fieldErrors.publisher} />
                 </div>
 
-                {/*<div className="space-y-2">*/}
-                {/*  <Label htmlFor="publisher">Editora</Label>*/}
-                {/*  <Input*/}
-                {/*    id="publisher"*/}
-                {/*    name="publisher"*/}
-                {/*    value={formData.publisher}*/}
-                {/*    onChange={handleChange}*/}
-                {/*    placeholder="Nome da editora"*/}
-                {/*  />*/}
-                {/*</div>*/}
-
-                {/*<div className="space-y-2">*/}
-                {/*  <Label htmlFor="publishedYear">Ano de Publicação</Label>*/}
-                {/*  <Input*/}
-                {/*    id="publishedYear"*/}
-                {/*    name="publishedYear"*/}
-                {/*    value={formData.publishedYear}*/}
-                {/*    onChange={handleChange}*/}
-                {/*    placeholder="Ano de publicação"*/}
-                {/*    type="number"*/}
-                {/*  />*/}
-                {/*</div>*/}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="published_year">Ano de Publicação</Label>
+                    <Input
+                      id="published_year"
+                      name="published_year"
+                      value={formData.published_year}
+                      onChange={handleChange}
+                      placeholder="Ex: 2019"
+                      type="number"
+                      min="1"
+                    />
+                    <FieldError message={fieldErrors.published_year} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edition">Edição</Label>
+                    <Input
+                      id="edition"
+                      name="edition"
+                      value={formData.edition}
+                      onChange={handleChange}
+                      placeholder="Ex: 2ª edição"
+                    />
+                    <FieldError message={fieldErrors.edition} />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="language">Idioma</Label>
+                    <Select
+                      value={formData.language || NO_LANGUAGE}
+                      onValueChange={handleLanguageChange}
+                    >
+                      <SelectTrigger id="language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_LANGUAGE}>Não informado</SelectItem>
+                        {Object.entries(LANGUAGE_LABELS).map(([code, label]) => (
+                          <SelectItem key={code} value={code}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                        {formData.language &&
+                          !LANGUAGE_LABELS[formData.language] && (
+                            <SelectItem value={formData.language}>
+                              {formData.language.toUpperCase()}
+                            </SelectItem>
+                          )}
+                      </SelectContent>
+                    </Select>
+                    <FieldError message={fieldErrors.language} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="page_count">Páginas</Label>
+                    <Input
+                      id="page_count"
+                      name="page_count"
+                      value={formData.page_count}
+                      onChange={handleChange}
+                      placeholder="Ex: 336"
+                      type="number"
+                      min="1"
+                    />
+                    <FieldError message={fieldErrors.page_count} />
+                  </div>
+                </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="quantity">Quantidade</Label>
@@ -345,23 +738,132 @@ const AddBook = () => {
                       <Plus className="h-4 w-4" />
                     </Button>
                   </div>
+                  <FieldError message={fieldErrors.quantity} />
                 </div>
               </div>
 
               {/* Right column */}
-              {/*<div className="space-y-4">*/}
-              {/*  <div className="space-y-2">*/}
-              {/*    <Label htmlFor="description">Descrição</Label>*/}
-              {/*    <Textarea*/}
-              {/*      id="description"*/}
-              {/*      name="description"*/}
-              {/*      value={formData.description}*/}
-              {/*      onChange={handleChange}*/}
-              {/*      placeholder="Descrição do livro"*/}
-              {/*      rows={12}*/}
-              {/*    />*/}
-              {/*  </div>*/}
-              {/*</div>*/}
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2 space-y-2">
+                    <Label htmlFor="series">Série</Label>
+                    <Input
+                      id="series"
+                      name="series"
+                      value={formData.series}
+                      onChange={handleChange}
+                      placeholder="Ex: O Senhor dos Anéis"
+                    />
+                    <FieldError message={fieldErrors.series} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="series_number">Volume</Label>
+                    <Input
+                      id="series_number"
+                      name="series_number"
+                      value={formData.series_number}
+                      onChange={handleChange}
+                      placeholder="Ex: 1"
+                      type="number"
+                      min="1"
+                    />
+                    <FieldError message={fieldErrors.series_number} />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="subjects">Assuntos e gêneros</Label>
+                  <Input
+                    id="subjects"
+                    name="subjects"
+                    value={formData.subjects}
+                    onChange={handleChange}
+                    placeholder="Separados por vírgula (ex: Fantasia, Aventura)"
+                  />
+                  <FieldError message={fieldErrors.subjects} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Descrição</Label>
+                  <Textarea
+                    id="description"
+                    name="description"
+                    value={formData.description}
+                    onChange={handleChange}
+                    placeholder="Descrição do livro"
+                    rows={8}
+                  />
+                  <FieldError message={fieldErrors.description} />
+                </div>
+              </div>
+            </div>
+
+            {/* Cover */}
+            <div className="p-6 border rounded-lg">
+              <h2 className="text-lg font-semibold mb-4">Capa</h2>
+              <div className="flex flex-col sm:flex-row gap-6">
+                {coverPreview ? (
+                  <img
+                    src={coverPreview}
+                    alt="Pré-visualização da capa"
+                    className="w-32 aspect-[2/3] object-cover rounded-md border"
+                  />
+                ) : (
+                  <BookCover
+                    book={coverLookup}
+                    lazy={false}
+                    className="w-32 rounded-md border"
+                  />
+                )}
+
+                <div className="space-y-3 text-sm">
+                  {coverFile ? (
+                    <>
+                      <p>
+                        <span className="font-medium">{coverFile.name}</span>{" "}
+                        será enviada ao salvar o livro.
+                      </p>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCoverFile(null)}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Remover imagem
+                      </Button>
+                    </>
+                  ) : existingCover.isLoading ? (
+                    <p className="text-muted-foreground">Procurando capa...</p>
+                  ) : !existingCover.isMissing ? (
+                    <p className="text-muted-foreground">
+                      {book?.cover_url
+                        ? "Este livro já tem uma capa enviada pela biblioteca."
+                        : "Capa encontrada no Open Library pelo ISBN."}
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-muted-foreground">
+                        Nenhuma capa encontrada para este ISBN. Envie uma
+                        imagem (JPG, PNG ou WebP, até {MAX_COVER_UPLOAD_LABEL}).
+                      </p>
+                      <Button type="button" variant="outline" size="sm" asChild>
+                        <label className="cursor-pointer">
+                          <ImagePlus className="h-4 w-4 mr-2" />
+                          Enviar capa
+                          <input
+                            type="file"
+                            accept="image/*"
+                            className="sr-only"
+                            onChange={handleCoverChange}
+                          />
+                        </label>
+                      </Button>
+                    </>
+                  )}
+                  <FieldError message={coverError} />
+                </div>
+              </div>
             </div>
 
             {/* Form actions */}
@@ -395,6 +897,22 @@ const AddBook = () => {
           onDetected={handleScannerDetection}
           isVisible={showScanner}
           onClose={() => setShowScanner(false)}
+          validate={getIsbnError}
+        />
+
+        {/* Leitura contínua de uma caixa de livros, revisada antes do cadastro */}
+        <BarcodeScanner
+          onDetected={() => undefined}
+          isVisible={showBatchScanner}
+          onClose={() => setShowBatchScanner(false)}
+          onFinish={(isbns) => {
+            setShowBatchScanner(false);
+            navigate("/importar-livros", { state: { isbns } });
+          }}
+          finishLabel="Revisar"
+          title="Leitura em lote"
+          validate={getIsbnError}
+          continuous
         />
       </div>
     </Layout>
@@ -0,0 +1,422 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  CheckCircle,
+  Loader2,
+  PackagePlus,
+  Plus,
+  Scan,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import Layout from "@/components/Layout";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCreateBook } from "@/hooks/useBooks";
+import { useKeyboardWedge } from "@/hooks/useKeyboardWedge";
+import { queryKeys } from "@/hooks/queryKeys";
+import { booksAPI } from "@/services/api";
+import { getErrorMessage } from "@/services/apiErrors";
+import { summarizeAuthors } from "@/services/bookMetadata";
+import { cleanIsbn, formatIsbn, getIsbnError, toIsbn13 } from "@/services/isbn";
+import { parseOpenLibraryBook, searchByISBN } from "@/services/openLibraryApi";
+import { Book } from "@/types";
+
+// Revisão de uma leva de ISBNs (caixas de doação): cada código é conferido no
+// acervo e no Open Library, e só os livros escolhidos são cadastrados.
+
+type ImportStatus =
+  | "invalid"
+  | "checking"
+  | "found"
+  | "not_found"
+  | "duplicate"
+  | "saving"
+  | "imported"
+  | "failed";
+
+interface ImportRow {
+  isbn: string;
+  status: ImportStatus;
+  book?: Partial<Book>;
+  // Livro do acervo com o mesmo ISBN
+  existing?: Book;
+  selected: boolean;
+  quantity: number;
+  message?: string;
+}
+
+// Estado enviado por quem abre a página (ex.: a leitura em lote do cadastro)
+export interface BatchImportState {
+  isbns?: string[];
+}
+
+// Cada ISBN-10 vira o ISBN-13 equivalente, para a mesma edição não entrar duas vezes
+const toRowKey = (code: string) => toIsbn13(code) ?? cleanIsbn(code);
+
+const parseIsbnList = (text: string) => text.split(/[\s,;]+/).filter(Boolean);
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  invalid: "ISBN inválido",
+  checking: "Consultando...",
+  found: "Pronto para importar",
+  not_found: "Não encontrado no Open Library",
+  duplicate: "Já está no acervo",
+  saving: "Importando...",
+  imported: "Importado",
+  failed: "Erro ao importar",
+};
+
+const BatchImport = () => {
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const createBook = useCreateBook();
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [pasted, setPasted] = useState("");
+  const [showScanner, setShowScanner] = useState(false);
+  const [importing, setImporting] = useState(false);
+  // Códigos já na revisão; a ref evita consultas repetidas entre renders
+  const requested = useRef(new Set<string>());
+
+  const updateRow = useCallback(
+    (isbn: string, changes: Partial<ImportRow>) =>
+      setRows((current) =>
+        current.map((row) => (row.isbn === isbn ? { ...row, ...changes } : row))
+      ),
+    []
+  );
+
+  const lookup = useCallback(async (isbn: string) => {
+    const update = (changes: Partial<ImportRow>) => updateRow(isbn, changes);
+
+    try {
+      const query = `isbn:${isbn}`;
+      const params = { page: 0, limit: 5, query, filters: {} };
+      const result = await queryClient.fetchQuery({
+        queryKey: queryKeys.books.list(params),
+        queryFn: () => booksAPI.getAll(0, 5, query),
+      });
+      const existing = result.items.find((book) => toIsbn13(book.isbn) === isbn);
+      if (existing) {
+        update({ status: "duplicate", existing, selected: false });
+        return;
+      }
+
+      const data = await searchByISBN(isbn);
+      if (!data) {
+        update({ status: "not_found", selected: false });
+        return;
+      }
+
+      const parsed = parseOpenLibraryBook(data);
+      update({
+        status: "found",
+        selected: true,
+        book: {
+          title: parsed.title,
+          author: summarizeAuthors(parsed.contributors) || parsed.author,
+          contributors: parsed.contributors,
+          // O ISBN lido é o do exemplar em mãos; o Open Library pode listar outro
+          isbn,
+          publisher: parsed.publisher || null,
+          published_year: parsed.publishedYear || null,
+          language: parsed.language ?? null,
+          page_count: parsed.pageCount ?? null,
+          subjects: parsed.subjects,
+          description: parsed.description || null,
+        },
+      });
+    } catch (error) {
+      update({
+        status: "failed",
+        selected: false,
+        message: getErrorMessage(error, "Erro ao consultar o ISBN."),
+      });
+    }
+  }, [queryClient, updateRow]);
+
+  // As consultas ao Open Library vão uma de cada vez
+  const addIsbns = useCallback(async (codes: string[]) => {
+    const fresh = [...new Set(codes.map(toRowKey))].filter(
+      (isbn) => isbn && !requested.current.has(isbn)
+    );
+    if (fresh.length === 0) return;
+
+    fresh.forEach((isbn) => requested.current.add(isbn));
+    setRows((current) => [
+      ...current,
+      ...fresh.map((isbn): ImportRow => {
+        const error = getIsbnError(isbn);
+        return {
+          isbn,
+          status: error ? "invalid" : "checking",
+          selected: false,
+          quantity: 1,
+          message: error ?? undefined,
+        };
+      }),
+    ]);
+
+    for (const isbn of fresh.filter((code) => !getIsbnError(code))) {
+      await lookup(isbn);
+    }
+  }, [lookup]);
+
+  // Códigos recebidos ao abrir a página; os repetidos são ignorados
+  useEffect(() => {
+    const { isbns = [] } = (location.state ?? {}) as BatchImportState;
+    addIsbns(isbns);
+  }, [addIsbns, location.state]);
+
+  useKeyboardWedge((code) => addIsbns([code]), { enabled: !importing });
+
+  const handleRemove = (isbn: string) => {
+    requested.current.delete(isbn);
+    setRows((current) => current.filter((row) => row.isbn !== isbn));
+  };
+
+  const handlePaste = () => {
+    addIsbns(parseIsbnList(pasted));
+    setPasted("");
+  };
+
+  const toImport = rows.filter(
+    (row) => row.selected && (row.status === "found" || row.status === "failed") && row.book
+  );
+
+  // Cadastro um a um, para que cada linha mostre o próprio resultado
+  const handleImport = async () => {
+    setImporting(true);
+    let imported = 0;
+
+    for (const row of toImport) {
+      updateRow(row.isbn, { status: "saving", message: undefined });
+      try {
+        await createBook.mutateAsync({ ...row.book, quantity: row.quantity });
+        imported += 1;
+        updateRow(row.isbn, { status: "imported", selected: false });
+      } catch (error) {
+        updateRow(row.isbn, {
+          status: "failed",
+          message: getErrorMessage(error, "Erro ao cadastrar o livro."),
+        });
+      }
+    }
+
+    setImporting(false);
+    if (imported === toImport.length) {
+      toast.success(`${imported} livro(s) importados`);
+    } else {
+      toast.warning(`${imported} de ${toImport.length} livros importados`, {
+        description: "Veja as linhas com erro na lista.",
+      });
+    }
+  };
+
+  const renderStatus = (row: ImportRow) => {
+    const label = row.message ?? STATUS_LABELS[row.status];
+
+    if (row.status === "checking" || row.status === "saving") {
+      return (
+        <span className="flex items-center text-muted-foreground">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          {label}
+        </span>
+      );
+    }
+    if (row.status === "imported") {
+      return (
+        <span className="flex items-center text-green-700">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          {label}
+        </span>
+      );
+    }
+    if (row.status === "failed" || row.status === "not_found" || row.status === "invalid") {
+      return (
+        <span className="flex items-center text-destructive">
+          <XCircle className="h-3 w-3 mr-1 shrink-0" />
+          {label}
+        </span>
+      );
+    }
+    if (row.status === "duplicate" && row.existing) {
+      return (
+        <Link to={`/livros/${row.existing.id}`} className="text-amber-700 hover:underline">
+          {label}
+        </Link>
+      );
+    }
+    return <span className="text-muted-foreground">{label}</span>;
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-4">
+            <Link to="/adicionar-livro">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Voltar ao cadastro
+            </Link>
+          </Button>
+          <h1>Importação em lote</h1>
+          <p className="text-muted-foreground">
+            Revise os ISBNs lidos antes de cadastrar. Livros já no acervo e ISBNs sem
+            dados no Open Library ficam de fora.
+          </p>
+        </div>
+
+        <div className="p-6 border rounded-lg space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Adicionar ISBNs</h2>
+            <Button variant="outline" size="sm" onClick={() => setShowScanner(true)}>
+              <Scan className="h-4 w-4 mr-2" />
+              Escanear em sequência
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pastedIsbns">Cole ou digite ISBNs</Label>
+            <Textarea
+              id="pastedIsbns"
+              rows={3}
+              className="font-mono"
+              placeholder="Um por linha, ou separados por vírgula"
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handlePaste} disabled={!pasted.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar à revisão
+            </Button>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum ISBN na revisão. Use o scanner, um leitor USB ou cole a lista acima.
+          </p>
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted text-left">
+                  <th className="px-3 py-2" />
+                  <th className="px-3 py-2 font-medium">ISBN</th>
+                  <th className="px-3 py-2 font-medium">Livro</th>
+                  <th className="px-3 py-2 font-medium">Exemplares</th>
+                  <th className="px-3 py-2 font-medium">Situação</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const importable = row.status === "found" || row.status === "failed";
+
+                  return (
+                    <tr key={row.isbn} className="border-t align-top">
+                      <td className="px-3 py-2">
+                        <Checkbox
+                          checked={row.selected}
+                          onCheckedChange={(checked) =>
+                            updateRow(row.isbn, { selected: checked === true })
+                          }
+                          disabled={!importable || !row.book || importing}
+                          aria-label={`Importar ${row.isbn}`}
+                        />
+                      </td>
+                      <td className="px-3 py-2 font-mono whitespace-nowrap">
+                        {formatIsbn(row.isbn)}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.book || row.existing ? (
+                          <>
+                            <div className="font-medium">
+                              {(row.book ?? row.existing).title}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {[
+                                (row.book ?? row.existing).author,
+                                (row.book ?? row.existing).published_year,
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 w-24">
+                        {importable && row.book && (
+                          <Input
+                            type="number"
+                            min={1}
+                            value={row.quantity}
+                            onChange={(e) =>
+                              updateRow(row.isbn, {
+                                quantity: Math.max(1, Number(e.target.value) || 1),
+                              })
+                            }
+                            disabled={importing}
+                            aria-label={`Exemplares de ${row.isbn}`}
+                          />
+                        )}
+                      </td>
+                      <td className="px-3 py-2">{renderStatus(row)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {row.status !== "saving" && row.status !== "imported" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(row.isbn)}
+                            disabled={importing}
+                            aria-label={`Remover ${row.isbn}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleImport} disabled={toImport.length === 0 || importing}>
+            {importing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <PackagePlus className="h-4 w-4 mr-2" />
+            )}
+            Importar {toImport.length} livro(s)
+          </Button>
+        </div>
+
+        <BarcodeScanner
+          isVisible={showScanner}
+          onDetected={(code) => addIsbns([code])}
+          onClose={() => setShowScanner(false)}
+          onFinish={() => setShowScanner(false)}
+          title="Escanear ISBNs"
+          validate={getIsbnError}
+          continuous
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default BatchImport;
@@ -1,8 +1,8 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import Layout from "@/components/Layout";
 import { useAuth } from "@/context/AuthContext";
-import { Book, Loan, Role } from "@/types";
+import { ContributorRole, HoldStatus, Loan, Role } from "@/types";
 import { Button } from "@/components/ui/button";
 import {
   Pencil,
@@ -12,6 +12,8 @@ import {
   CheckCircle,
   Loader2,
   AlertTriangle,
+  Bookmark,
+  X,
 } from "lucide-react";
 import {
   AlertDialog,
@@ -25,9 +27,24 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { Badge } from "@/components/ui/badge";
+import { Badge, badgeVariants } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { booksAPI, loansAPI } from "@/services/api";
+import { useBook, useDeleteBook } from "@/hooks/useBooks";
+import { useLoans } from "@/hooks/useLoans";
+import { useLoanStatus } from "@/hooks/useLoanPolicy";
+import { useCancelHold, usePersonHolds, usePlaceHold } from "@/hooks/useHolds";
+import { getErrorMessage } from "@/services/apiErrors";
+import { formatIsbn } from "@/services/isbn";
+import BookCover from "@/components/BookCover";
+import BookCopies from "@/components/BookCopies";
+import BorrowBookDialog from "@/components/BorrowBookDialog";
+import LoanStatusBadge from "@/components/LoanStatusBadge";
+import {
+  contributorsByRole,
+  describeHold,
+  formatSeries,
+  languageLabel,
+} from "@/services/bookMetadata";
 
 const BookDetails = () => {
   const { id } = useParams<{ id: string }>();
@@ -35,63 +52,50 @@ const BookDetails = () => {
   const navigate = useNavigate();
   const isLibrarianOrAdmin = hasRole([Role.LIBRARIAN, Role.ADMIN]);
 
-  const [book, setBook] = useState<Book | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [borrowing, setBorrowing] = useState(false);
-  const [deleting, setDeleting] = useState(false);
-
-  const [bookLoans, setBookLoans] = useState([]);
-  const [loadingLoans, setLoadingLoans] = useState(false);
-
-  useEffect(() => {
-    const fetchBook = async () => {
-      setLoading(true);
-      try {
-        await new Promise((resolve) => setTimeout(resolve, 1000)); // 👈 só pra testar
-        const bookData = await booksAPI.getById(id!);
-        setBook(bookData);
-      } catch (error) {
-        console.error("Erro ao buscar livro:", error);
-        setBook(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    const fetchLoans = async () => {
-      try {
-        setLoadingLoans(true);
-        const loans = await loansAPI.getAllLoans({
-          book_id: Number(id),
-          limit: 100,
-        });
-        setBookLoans(loans);
-      } catch (err) {
-        console.error("Erro ao buscar empréstimos:", err);
-      } finally {
-        setLoadingLoans(false);
-      }
-    };
-
-    if (id) {
-      fetchBook();
-      fetchLoans();
-    }
-  }, [id]);
+  const { data: book, isLoading: loading } = useBook(id);
+  const { stateOf } = useLoanStatus();
+  const { data: bookLoansPage, isLoading: loadingLoans } = useLoans(
+    { book_id: Number(id), limit: 100 },
+    { enabled: !!id && isLibrarianOrAdmin }
+  );
+  const bookLoans = bookLoansPage?.items ?? [];
+  const deleteBook = useDeleteBook();
+  const [showBorrowDialog, setShowBorrowDialog] = useState(false);
+  const deleting = deleteBook.isPending;
 
-  const handleBorrow = async () => {
-    if (!book || !user) return;
+  const { data: myHolds = [] } = usePersonHolds(
+    !isLibrarianOrAdmin ? user?.id : undefined
+  );
+  const myHold = myHolds.find(
+    (hold) =>
+      hold.book.id === book?.id &&
+      (hold.status === HoldStatus.WAITING || hold.status === HoldStatus.READY)
+  );
+  const placeHold = usePlaceHold();
+  const cancelHold = useCancelHold();
 
-    setBorrowing(true);
+  const handlePlaceHold = async () => {
+    if (!book) return;
 
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    try {
+      const hold = await placeHold.mutateAsync({ bookId: book.id });
+      toast.success(`Reserva feita: você é o ${hold.position}º na fila`, {
+        description: "Avisaremos quando um exemplar estiver separado para você.",
+      });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao reservar o livro."));
+    }
+  };
 
-    toast.success(`Empréstimo de "${book.title}" realizado com sucesso`);
-    setBook((prev) =>
-      prev ? { ...prev, availableQuantity: prev.available - 1 } : null
-    );
+  const handleCancelHold = async () => {
+    if (!myHold) return;
 
-    setBorrowing(false);
+    try {
+      await cancelHold.mutateAsync(myHold.id);
+      toast.success("Reserva cancelada");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao cancelar a reserva."));
+    }
   };
 
   const handleDelete = async () => {
@@ -107,17 +111,13 @@ const BookDetails = () => {
       return;
     }
 
-    setDeleting(true);
-
     try {
-      await booksAPI.delete(book.id);
+      await deleteBook.mutateAsync(book.id);
       toast.success(`Livro "${book.title}" excluído com sucesso`);
-      navigate("/catalog");
+      navigate("/catalogo");
     } catch (error) {
-      toast.error("Erro ao excluir o livro.");
+      toast.error(getErrorMessage(error, "Erro ao excluir o livro."));
       console.error("Erro na exclusão:", error);
-    } finally {
-      setDeleting(false);
     }
   };
 
@@ -155,6 +155,12 @@ const BookDetails = () => {
   }
 
   const isAvailable = book.available > 0;
+  // Quem está na fila espera a vez; com o exemplar separado, pode retirá-lo
+  const canBorrow = myHold
+    ? myHold.status === HoldStatus.READY
+    : isAvailable;
+  const translators = contributorsByRole(book, ContributorRole.TRANSLATOR);
+  const illustrators = contributorsByRole(book, ContributorRole.ILLUSTRATOR);
 
   return (
     <Layout>
@@ -168,16 +174,39 @@ const BookDetails = () => {
           </Button>
         </div>
 
-        <div className="grid grid-cols-1 gap-8">
+        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-8">
+          <BookCover
+            book={book}
+            size="L"
+            lazy={false}
+            className="w-full max-w-[220px] rounded-lg border shadow-sm"
+          />
           <div>
             <div className="mb-4">
               <h1 className="text-3xl font-bold mb-2">{book.title}</h1>
-              <h2 className="text-xl text-muted-foreground mb-4">
-                por {book.author}
+              <h2 className="text-xl text-muted-foreground">
+                por {contributorsByRole(book, ContributorRole.AUTHOR).join(", ")}
               </h2>
+              {(translators.length > 0 || illustrators.length > 0) && (
+                <p className="text-muted-foreground mt-1">
+                  {[
+                    translators.length > 0 &&
+                      `Tradução de ${translators.join(", ")}`,
+                    illustrators.length > 0 &&
+                      `Ilustrações de ${illustrators.join(", ")}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              )}
+              {book.series && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Série: {formatSeries(book)}
+                </p>
+              )}
 
               <Badge
-                className={`py-1 px-2 ${
+                className={`mt-4 py-1 px-2 ${
                   isAvailable
                     ? "bg-green-500 hover:bg-green-600"
                     : "bg-destructive hover:bg-destructive/90"
@@ -208,19 +237,77 @@ const BookDetails = () => {
                 <h3 className="text-lg font-semibold mb-3">Detalhes</h3>
                 <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
                   <dt className="font-medium">ISBN</dt>
-                  <dd className="text-muted-foreground">{book.isbn}</dd>
+                  <dd className="text-muted-foreground">{formatIsbn(book.isbn)}</dd>
+
+                  {book.publisher && (
+                    <>
+                      <dt className="font-medium">Editora</dt>
+                      <dd className="text-muted-foreground">{book.publisher}</dd>
+                    </>
+                  )}
+
+                  {book.published_year && (
+                    <>
+                      <dt className="font-medium">Ano de Publicação</dt>
+                      <dd className="text-muted-foreground">
+                        {book.published_year}
+                      </dd>
+                    </>
+                  )}
+
+                  {book.edition && (
+                    <>
+                      <dt className="font-medium">Edição</dt>
+                      <dd className="text-muted-foreground">{book.edition}</dd>
+                    </>
+                  )}
+
+                  {book.language && (
+                    <>
+                      <dt className="font-medium">Idioma</dt>
+                      <dd className="text-muted-foreground">
+                        {languageLabel(book.language)}
+                      </dd>
+                    </>
+                  )}
+
+                  {book.page_count && (
+                    <>
+                      <dt className="font-medium">Páginas</dt>
+                      <dd className="text-muted-foreground">{book.page_count}</dd>
+                    </>
+                  )}
 
                   <dt className="font-medium">Total de Exemplares</dt>
                   <dd className="text-muted-foreground">{book.quantity}</dd>
-
-                  {/*<dd className={`${isAvailable ? 'text-green-600' : 'text-destructive'} font-medium`}>*/}
-                  {/*  {book.availableQuantity}*/}
-                  {/*</dd>*/}
                 </dl>
+
+                {book.subjects && book.subjects.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {book.subjects.map((subject) => (
+                      <Link
+                        key={subject}
+                        to={`/catalogo?q=${encodeURIComponent(
+                          `subject:"${subject}"`
+                        )}`}
+                        className={badgeVariants({ variant: "secondary" })}
+                      >
+                        {subject}
+                      </Link>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <Separator />
 
+              {isLibrarianOrAdmin && (
+                <>
+                  <BookCopies book={book} />
+                  <Separator />
+                </>
+              )}
+
               {isLibrarianOrAdmin && (
                 <div>
                   <h3 className="text-lg font-semibold mb-3">
@@ -247,6 +334,7 @@ const BookDetails = () => {
                         <thead>
                           <tr className="bg-muted text-left">
                             <th className="px-4 py-2 font-medium">Usuário</th>
+                            <th className="px-4 py-2 font-medium">Exemplar</th>
                             <th className="px-4 py-2 font-medium">
                               Data de Empréstimo
                             </th>
@@ -259,27 +347,16 @@ const BookDetails = () => {
                               <td className="px-4 py-2">
                                 {loan.person?.name || "Desconhecido"}
                               </td>
+                              <td className="px-4 py-2 font-mono">
+                                {loan.copy?.barcode ?? "—"}
+                              </td>
                               <td className="px-4 py-2">
                                 {new Date(loan.start_date).toLocaleDateString(
                                   "pt-BR"
                                 )}
                               </td>
                               <td className="px-4 py-2">
-                                <Badge
-                                  className={`${
-                                    loan.type === "RETURNED"
-                                      ? "bg-green-500"
-                                      : loan.type === "OVERDUE"
-                                      ? "bg-yellow-500"
-                                      : "bg-primary"
-                                  }`}
-                                >
-                                  {loan.type === "RETURNED"
-                                    ? "Retornado"
-                                    : loan.type === "OVERDUE"
-                                    ? "Atrasado"
-                                    : "Ativo"}
-                                </Badge>
+                                <LoanStatusBadge state={stateOf(loan)} />
                               </td>
                             </tr>
                           ))}
@@ -334,19 +411,65 @@ const BookDetails = () => {
                   </>
                 ) : (
                   <>
-                    {isLibrarianOrAdmin && (
+                    {myHold ? (
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                        <Badge
+                          variant="outline"
+                          className={`py-1 ${
+                            myHold.status === HoldStatus.READY
+                              ? "bg-green-500/10 text-green-700"
+                              : ""
+                          }`}
+                        >
+                          <Bookmark className="h-3 w-3 mr-1" />
+                          Sua reserva: {describeHold(myHold)}
+                        </Badge>
+                        <Button
+                          variant="outline"
+                          className="justify-start"
+                          onClick={handleCancelHold}
+                          disabled={cancelHold.isPending}
+                        >
+                          <X className="h-4 w-4 mr-2" />
+                          Cancelar reserva
+                        </Button>
+                      </div>
+                    ) : (
+                      !isAvailable && (
+                        <Button
+                          className="justify-start"
+                          onClick={handlePlaceHold}
+                          disabled={placeHold.isPending}
+                        >
+                          {placeHold.isPending ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Bookmark className="h-4 w-4 mr-2" />
+                          )}
+                          Reservar
+                        </Button>
+                      )
+                    )}
+                    {canBorrow && (
                       <Button
                         className="justify-start"
-                        disabled={!isAvailable || borrowing}
-                        onClick={handleBorrow}
+                        onClick={() => setShowBorrowDialog(true)}
                       >
                         <BookCopy className="h-4 w-4 mr-2" />
-                        {borrowing ? "Processando..." : "Emprestar Livro"}
+                        Pegar emprestado
                       </Button>
                     )}
                   </>
                 )}
               </div>
+
+              {user && !isLibrarianOrAdmin && (
+                <BorrowBookDialog
+                  book={book}
+                  open={showBorrowDialog}
+                  onOpenChange={setShowBorrowDialog}
+                />
+              )}
             </div>
           </div>
         </div>
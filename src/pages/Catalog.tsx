@@ -1,49 +1,131 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import Layout from "@/components/Layout";
 import BookCard from "@/components/BookCard";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Search, Plus, BookOpen, Loader2 } from "lucide-react";
-import { Book, Role } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Plus, BookOpen, Loader2, SlidersHorizontal } from "lucide-react";
+import { BookSort, Role } from "@/types";
 import { useAuth } from "@/context/AuthContext";
-import { booksAPI } from "@/services/api.ts";
+import { useBooks } from "@/hooks/useBooks";
+import { useCopyLookup } from "@/hooks/useCopies";
+import { useKeyboardWedge } from "@/hooks/useKeyboardWedge";
+import { queryKeys } from "@/hooks/queryKeys";
+import { booksAPI } from "@/services/api";
+import { usePaginationParams } from "@/hooks/usePaginationParams";
+import { useCatalogSearch } from "@/hooks/useCatalogSearch";
+import { useIsMobile } from "@/hooks/use-mobile";
+import DataPagination from "@/components/DataPagination";
+import CatalogFacets from "@/components/CatalogFacets";
+import CatalogSearchInput from "@/components/CatalogSearchInput";
+import { parseCatalogQuery } from "@/services/catalogQuery";
+import { toIsbn13 } from "@/services/isbn";
+import { Collapsible, CollapsibleContent } from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const SORT_OPTIONS: { value: BookSort | "relevance"; label: string }[] = [
+  { value: "relevance", label: "Relevância" },
+  { value: "title", label: "Título (A–Z)" },
+  { value: "author", label: "Autor (A–Z)" },
+  { value: "newest", label: "Mais recentes" },
+  { value: "most_borrowed", label: "Mais emprestados" },
+];
 
 const Catalog = () => {
-  const [books, setBooks] = useState<Book[]>([]);
-  const [filteredBooks, setFilteredBooks] = useState<Book[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [loading, setLoading] = useState(true);
   const { hasRole } = useAuth();
   const navigate = useNavigate();
-  const [page, setPage] = useState(0);
-  const [limit] = useState(12);
+  const isMobile = useIsMobile();
+  const { page, pageSize, setPage, setPageSize } = usePaginationParams(12);
+  const {
+    query,
+    filters,
+    activeFilterCount,
+    setQuery,
+    setFilter,
+    setYearRange,
+    setSort,
+    clearFilters,
+  } = useCatalogSearch();
 
-  const fetchBooks = async (search: string = "") => {
-    setLoading(true);
-    try {
-      const response = await booksAPI.getAll(page, limit, search);
-      setBooks(response);
-      setFilteredBooks(response);
-    } catch (error) {
-      console.error("Erro ao carregar livros:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // O campo de busca é local; a URL (e a requisição) só muda após o debounce
+  const [searchQuery, setSearchQuery] = useState(query);
+  const [showFilters, setShowFilters] = useState(true);
 
-  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const query = e.target.value.toLowerCase();
-    setSearchQuery(query);
-    setPage(0);
-  };
+  const { data, isLoading: loading } = useBooks({
+    page,
+    limit: pageSize,
+    query,
+    filters,
+  });
+  const books = data?.items ?? [];
+
+  const parsedQuery = useMemo(
+    () => parseCatalogQuery(searchQuery),
+    [searchQuery]
+  );
 
+  // Buscas com erro de sintaxe ficam só na caixa até serem corrigidas
   useEffect(() => {
+    if (searchQuery.trim() === query || parsedQuery.errors.length > 0) return;
     const delayDebounce = setTimeout(() => {
-      fetchBooks(searchQuery);
+      setQuery(searchQuery);
     }, 400);
     return () => clearTimeout(delayDebounce);
-  }, [searchQuery, page]);
+  }, [searchQuery, parsedQuery, query, setQuery]);
+
+  // Voltar/avançar no navegador troca a busca da URL
+  useEffect(() => {
+    setSearchQuery((current) => (current.trim() === query ? current : query));
+  }, [query]);
+
+  // Leitor USB: etiqueta de exemplar (consulta só da equipe) ou ISBN com um
+  // único livro abre a página dele; nos demais casos o código vira a busca
+  const queryClient = useQueryClient();
+  const copyLookup = useCopyLookup();
+  const isStaff = hasRole([Role.LIBRARIAN, Role.ADMIN]);
+
+  const handleWedgeScan = async (code: string) => {
+    if (isStaff) {
+      try {
+        const { book } = await copyLookup.mutateAsync(code);
+        navigate(`/livros/${book.id}`);
+        return;
+      } catch {
+        // Não é um exemplar cadastrado: segue como ISBN
+      }
+    }
+
+    const isbnQuery = `isbn:${toIsbn13(code) ?? code}`;
+    const params = { page: 0, limit: 2, query: isbnQuery, filters: {} };
+    try {
+      const result = await queryClient.fetchQuery({
+        queryKey: queryKeys.books.list(params),
+        queryFn: () => booksAPI.getAll(0, 2, isbnQuery),
+      });
+      if (result.items.length === 1) {
+        navigate(`/livros/${result.items[0].id}`);
+        return;
+      }
+    } catch {
+      // A busca abaixo mostra o erro, se persistir
+    }
+    setSearchQuery(isbnQuery);
+    setQuery(isbnQuery);
+  };
+
+  useKeyboardWedge(handleWedgeScan);
+
+  // Em telas pequenas os filtros começam recolhidos
+  useEffect(() => {
+    setShowFilters(!isMobile);
+  }, [isMobile]);
 
   return (
     <Layout>
@@ -59,61 +141,120 @@ const Catalog = () => {
         </div>
 
         {/* Search bar */}
-        <div className="relative mb-6">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-          <Input
-            placeholder="Buscar livros por título, autor ou ISBN..."
-            className="pl-10"
-            value={searchQuery}
-            onChange={handleSearch}
-          />
-        </div>
-
-        {/* Loader estilo Users */}
-        {loading ? (
-          <div className="flex flex-col items-center justify-center py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
-            <p className="text-muted-foreground">Carregando livros...</p>
-          </div>
-        ) : filteredBooks.length > 0 ? (
-          <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
-            {filteredBooks.map((book) => (
-              <BookCard key={book.id} book={book} />
-            ))}
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start mb-6">
+          <div className="flex-1">
+            <CatalogSearchInput
+              value={searchQuery}
+              parsed={parsedQuery}
+              onChange={setSearchQuery}
+              placeholder='Buscar por título, autor ou ISBN — ou author:orwell year:1940..1960'
+            />
           </div>
-        ) : (
-          <div className="text-center py-12 border rounded-lg">
-            <BookOpen className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
-            <h3 className="text-xl font-medium mb-2">
-              Nenhum livro encontrado
-            </h3>
-            <p className="text-muted-foreground">
-              {searchQuery
-                ? `Nenhum livro corresponde a "${searchQuery}"`
-                : "O catálogo da biblioteca está vazio"}
-            </p>
+          <div className="flex gap-2">
+            <Select
+              value={filters.sort ?? "relevance"}
+              onValueChange={(value) =>
+                setSort(value === "relevance" ? undefined : (value as BookSort))
+              }
+            >
+              <SelectTrigger className="w-[190px]" aria-label="Ordenar por">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => setShowFilters((open) => !open)}
+              aria-expanded={showFilters}
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Filtros
+              {activeFilterCount > 0 && (
+                <Badge className="ml-2 h-5 px-1.5">{activeFilterCount}</Badge>
+              )}
+            </Button>
           </div>
-        )}
+        </div>
 
-        <div className="flex justify-center mt-8 space-x-2">
-          <Button
-            variant="outline"
-            disabled={page === 0}
-            onClick={() => setPage((p) => p - 1)}
+        <Collapsible open={showFilters} onOpenChange={setShowFilters}>
+          <div
+            className={
+              showFilters
+                ? "grid gap-6 lg:grid-cols-[240px_1fr] items-start"
+                : "grid gap-6"
+            }
           >
-            Anterior
-          </Button>
-          <span className="px-4 py-2 text-sm text-muted-foreground">
-            Página {page + 1}
-          </span>
-          <Button
-            variant="outline"
-            disabled={filteredBooks.length < limit}
-            onClick={() => setPage((p) => p + 1)}
-          >
-            Próxima
-          </Button>
-        </div>
+            <CollapsibleContent>
+              <CatalogFacets
+                facets={data?.facets ?? null}
+                filters={filters}
+                activeFilterCount={activeFilterCount}
+                onFilterChange={setFilter}
+                onYearRangeChange={setYearRange}
+                onClear={clearFilters}
+              />
+            </CollapsibleContent>
+
+            <div>
+              {/* Loader estilo Users */}
+              {loading ? (
+                <div className="flex flex-col items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+                  <p className="text-muted-foreground">Carregando livros...</p>
+                </div>
+              ) : books.length > 0 ? (
+                <div
+                  className={
+                    showFilters
+                      ? "grid gap-6 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4"
+                      : "grid gap-6 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4"
+                  }
+                >
+                  {books.map((book) => (
+                    <BookCard key={book.id} book={book} />
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-12 border rounded-lg">
+                  <BookOpen className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
+                  <h3 className="text-xl font-medium mb-2">
+                    Nenhum livro encontrado
+                  </h3>
+                  <p className="text-muted-foreground">
+                    {query
+                      ? `Nenhum livro corresponde a "${query}"`
+                      : activeFilterCount > 0
+                      ? "Nenhum livro atende aos filtros selecionados"
+                      : "O catálogo da biblioteca está vazio"}
+                  </p>
+                  {activeFilterCount > 0 && (
+                    <Button variant="link" onClick={clearFilters}>
+                      Limpar filtros
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {!loading && (
+                <DataPagination
+                  page={page}
+                  pageSize={pageSize}
+                  total={data?.total ?? null}
+                  itemCount={books.length}
+                  onPageChange={setPage}
+                  onPageSizeChange={setPageSize}
+                  pageSizeOptions={[12, 24, 48]}
+                />
+              )}
+            </div>
+          </div>
+        </Collapsible>
       </div>
     </Layout>
   );
@@ -0,0 +1,622 @@
+import React, { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertTriangle,
+  BookCopy,
+  CheckCircle,
+  Loader2,
+  RotateCcw,
+  ScanLine,
+  Trash2,
+  Undo2,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import Layout from "@/components/Layout";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import { PersonPicker } from "@/components/LoanPickers";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useCopyLookup } from "@/hooks/useCopies";
+import { useKeyboardWedge } from "@/hooks/useKeyboardWedge";
+import { usePersonFees } from "@/hooks/useFees";
+import { useLoanRules, useLoanStatus } from "@/hooks/useLoanPolicy";
+import { useCreateLoan, usePersonLoans, useReturnLoan } from "@/hooks/useLoans";
+import { getErrorMessage } from "@/services/apiErrors";
+import { COPY_STATUS_LABELS } from "@/services/bookMetadata";
+import { formatCurrency } from "@/services/fees";
+import { getDueDate, previewDueDate } from "@/services/loanPolicy";
+import { LoanState } from "@/services/loanStatus";
+import { CopyLookup, CopyStatus, Loan, User } from "@/types";
+
+// Balcão de circulação: atendimento de um leitor com vários exemplares lidos
+// em sequência (empréstimo) e devoluções em série com registro de cada item.
+// As verificações mostradas aqui antecipam as do servidor, que tem a palavra final.
+
+const formatDate = (date: Date) => date.toLocaleDateString("pt-BR");
+
+interface ScanFieldProps {
+  id: string;
+  label: string;
+  onScan: (barcode: string) => void;
+  busy?: boolean;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  inputRef?: React.RefObject<HTMLInputElement>;
+}
+
+// Campo de código do exemplar: aceita digitação, leitor USB (que digita e
+// envia Enter) ou a câmera. Limpa e mantém o foco a cada leitura.
+const ScanField: React.FC<ScanFieldProps> = ({
+  id,
+  label,
+  onScan,
+  busy,
+  disabled,
+  autoFocus,
+  inputRef: externalRef,
+}) => {
+  const [barcode, setBarcode] = useState("");
+  const [showScanner, setShowScanner] = useState(false);
+  const localRef = useRef<HTMLInputElement>(null);
+  const inputRef = externalRef ?? localRef;
+
+  const submit = (value: string) => {
+    if (!value.trim()) return;
+    onScan(value.trim());
+    setBarcode("");
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          ref={inputRef}
+          className="font-mono"
+          placeholder="Ex.: A000001"
+          value={barcode}
+          onChange={(e) => setBarcode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              submit(barcode);
+            }
+          }}
+          disabled={disabled}
+          autoFocus={autoFocus}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setShowScanner(true)}
+          disabled={disabled}
+          aria-label="Escanear exemplar"
+        >
+          {busy ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <ScanLine className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+
+      <BarcodeScanner
+        isVisible={showScanner}
+        onDetected={(code) => {
+          setShowScanner(false);
+          submit(code);
+        }}
+        onClose={() => setShowScanner(false)}
+        title="Escanear exemplar"
+      />
+    </div>
+  );
+};
+
+type CheckoutItemStatus = "queued" | "saving" | "done" | "failed";
+
+interface CheckoutItem {
+  lookup: CopyLookup;
+  status: CheckoutItemStatus;
+  // Erro devolvido pelo servidor ou prazo do empréstimo criado
+  message?: string;
+}
+
+interface DeskPanelProps {
+  // Só a aba visível recebe as leituras do leitor USB
+  active: boolean;
+}
+
+const CheckoutDesk: React.FC<DeskPanelProps> = ({ active }) => {
+  const [person, setPerson] = useState<User | null>(null);
+  const [items, setItems] = useState<CheckoutItem[]>([]);
+  const [committing, setCommitting] = useState(false);
+  const barcodeRef = useRef<HTMLInputElement>(null);
+  const copyLookup = useCopyLookup();
+  const createLoan = useCreateLoan();
+  const rules = useLoanRules(person?.role);
+  const { stateOf } = useLoanStatus();
+  const { data: loans = [], isLoading: loadingLoans } = usePersonLoans(person?.id);
+  const { data: fees, isLoading: loadingFees } = usePersonFees(person?.id);
+  const loadingPerson = !!person && (loadingLoans || loadingFees);
+
+  // Empréstimos já criados neste atendimento entram na lista do leitor após a
+  // atualização do cache; até lá, contam pelo item concluído
+  const activeLoans = loans.filter((loan) => !loan.return_date && loan.id > 0);
+  const overdueLoans = activeLoans.filter((loan) => stateOf(loan) === LoanState.OVERDUE);
+  const balance = fees?.balance ?? 0;
+  const committedCopyIds = new Set(activeLoans.map((loan) => loan.copy?.id));
+  const pendingDone = items.filter(
+    (item) => item.status === "done" && !committedCopyIds.has(item.lookup.id)
+  ).length;
+
+  const personBlock = !person
+    ? null
+    : overdueLoans.length > 0
+    ? `${person.name} tem ${overdueLoans.length} empréstimo(s) em atraso.`
+    : balance > rules.max_balance
+    ? `${person.name} deve ${formatCurrency(balance)}, acima do limite de ${formatCurrency(
+        rules.max_balance
+      )}.`
+    : null;
+
+  // Problemas de cada exemplar da fila; o limite considera os itens anteriores
+  let slotsLeft = rules.max_active_loans - activeLoans.length - pendingDone;
+  const problems = new Map<number, string>();
+  items.forEach(({ lookup, status }) => {
+    if (status !== "queued" && status !== "failed") return;
+
+    const heldForOther =
+      lookup.status === CopyStatus.ON_HOLD &&
+      lookup.hold &&
+      String(lookup.hold.person.id) !== String(person?.id);
+    const heldForPerson = lookup.status === CopyStatus.ON_HOLD && !heldForOther;
+
+    if (heldForOther) {
+      problems.set(lookup.id, `Reservado para ${lookup.hold.person.name}`);
+    } else if (lookup.status !== CopyStatus.AVAILABLE && !heldForPerson) {
+      problems.set(lookup.id, COPY_STATUS_LABELS[lookup.status]);
+    } else if (person && slotsLeft <= 0) {
+      problems.set(
+        lookup.id,
+        `Acima do limite de ${rules.max_active_loans} empréstimos simultâneos`
+      );
+    } else {
+      slotsLeft -= 1;
+    }
+  });
+
+  const ready = items.filter(
+    ({ lookup, status }) =>
+      (status === "queued" || status === "failed") && !problems.has(lookup.id)
+  );
+  const canCommit = !!person && !personBlock && !loadingPerson && ready.length > 0;
+
+  const updateItem = (copyId: number, changes: Partial<CheckoutItem>) =>
+    setItems((current) =>
+      current.map((item) =>
+        item.lookup.id === copyId ? { ...item, ...changes } : item
+      )
+    );
+
+  const handleScan = async (barcode: string) => {
+    try {
+      const lookup = await copyLookup.mutateAsync(barcode);
+      if (items.some((item) => item.lookup.id === lookup.id)) {
+        toast.info(`O exemplar ${lookup.barcode} já está na lista`);
+        return;
+      }
+      setItems((current) => [...current, { lookup, status: "queued" }]);
+    } catch (error) {
+      toast.error(getErrorMessage(error, `Exemplar ${barcode} não encontrado.`));
+    }
+  };
+
+  // Os empréstimos são criados um a um para que o servidor aplique o limite na
+  // ordem da fila; uma falha não interrompe os demais
+  const handleCommit = async () => {
+    if (!person) return;
+
+    setCommitting(true);
+    let created = 0;
+
+    for (const { lookup } of ready) {
+      const { book, active_loan, hold, ...copy } = lookup;
+      updateItem(copy.id, { status: "saving", message: undefined });
+
+      try {
+        const loan = await createLoan.mutateAsync({ book, person, copy });
+        created += 1;
+        updateItem(copy.id, {
+          status: "done",
+          message: `Devolução até ${formatDate(getDueDate(loan))}`,
+        });
+      } catch (error) {
+        updateItem(copy.id, {
+          status: "failed",
+          message: getErrorMessage(error, "Erro ao criar o empréstimo."),
+        });
+      }
+    }
+
+    setCommitting(false);
+    if (created === ready.length) {
+      toast.success(`${created} empréstimo(s) registrados para ${person.name}`);
+    } else {
+      toast.warning(`${created} de ${ready.length} empréstimos registrados`, {
+        description: "Veja os itens com erro na lista.",
+      });
+    }
+  };
+
+  useKeyboardWedge(handleScan, { enabled: active && !committing });
+
+  const handleRemove = (copyId: number) =>
+    setItems((current) => current.filter((item) => item.lookup.id !== copyId));
+
+  const handleReset = () => {
+    setPerson(null);
+    setItems([]);
+  };
+
+  const renderStatus = (item: CheckoutItem) => {
+    const problem = problems.get(item.lookup.id);
+
+    if (item.status === "saving") {
+      return (
+        <span className="flex items-center text-muted-foreground">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Registrando...
+        </span>
+      );
+    }
+    if (item.status === "done") {
+      return (
+        <span className="flex items-center text-green-700">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          {item.message}
+        </span>
+      );
+    }
+    if (problem || item.status === "failed") {
+      return (
+        <span className="flex items-center text-destructive">
+          <XCircle className="h-3 w-3 mr-1 shrink-0" />
+          {problem ?? item.message}
+        </span>
+      );
+    }
+    return <span className="text-muted-foreground">Pronto para emprestar</span>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Empréstimo</CardTitle>
+        <CardDescription>
+          Identifique o leitor e leia os exemplares em sequência. Os empréstimos só
+          são registrados ao confirmar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="deskPerson">Leitor</Label>
+            <PersonPicker
+              id="deskPerson"
+              value={person}
+              onChange={(selected) => {
+                // Os itens já emprestados pertencem ao leitor anterior e não
+                // podem contar no limite do novo; os pendentes continuam
+                if (String(selected?.id) !== String(person?.id)) {
+                  setItems((current) => current.filter((item) => item.status !== "done"));
+                }
+                setPerson(selected);
+                // Escolhido o leitor, o foco vai para a leitura dos exemplares
+                if (selected) barcodeRef.current?.focus();
+              }}
+              isClearable
+              autoFocus
+            />
+          </div>
+          <ScanField
+            id="deskCheckoutBarcode"
+            label="Código do exemplar"
+            onScan={handleScan}
+            busy={copyLookup.isPending}
+            disabled={committing}
+            inputRef={barcodeRef}
+          />
+        </div>
+
+        {person &&
+          (loadingPerson ? (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Verificando a situação do leitor...
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+              <span>
+                Empréstimos ativos: {activeLoans.length + pendingDone} de{" "}
+                {rules.max_active_loans}
+              </span>
+              <span>Devolução até {formatDate(previewDueDate(rules))}</span>
+              <span className={balance > 0 ? "text-destructive" : ""}>
+                Débito: {formatCurrency(balance)}
+              </span>
+            </div>
+          ))}
+
+        {personBlock && (
+          <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{personBlock} Regularize a situação antes de novos empréstimos.</span>
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum exemplar lido.</p>
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted text-left">
+                  <th className="px-3 py-2 font-medium">Exemplar</th>
+                  <th className="px-3 py-2 font-medium">Livro</th>
+                  <th className="px-3 py-2 font-medium">Situação</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.lookup.id} className="border-t">
+                    <td className="px-3 py-2 font-mono">{item.lookup.barcode}</td>
+                    <td className="px-3 py-2">
+                      <Link
+                        to={`/livros/${item.lookup.book.id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {item.lookup.book.title}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {item.lookup.book.author}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">{renderStatus(item)}</td>
+                    <td className="px-3 py-2 text-right">
+                      {item.status !== "done" && item.status !== "saving" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(item.lookup.id)}
+                          disabled={committing}
+                          aria-label={`Remover ${item.lookup.barcode}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="justify-end gap-2">
+        <Button variant="outline" onClick={handleReset} disabled={committing}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Novo atendimento
+        </Button>
+        <Button onClick={handleCommit} disabled={!canCommit || committing}>
+          {committing ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <BookCopy className="h-4 w-4 mr-2" />
+          )}
+          Emprestar {ready.length} exemplar(es)
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+interface CheckinEntry {
+  id: number;
+  barcode: string;
+  status: "saving" | "done" | "failed";
+  loan?: Loan;
+  message?: string;
+  // Avisos da devolução: multa lançada e reserva à espera do exemplar
+  notes: string[];
+}
+
+const CheckinDesk: React.FC<DeskPanelProps> = ({ active }) => {
+  const [entries, setEntries] = useState<CheckinEntry[]>([]);
+  const nextId = useRef(1);
+  const copyLookup = useCopyLookup();
+  const returnLoan = useReturnLoan({ undoable: false });
+
+  const updateEntry = (id: number, changes: Partial<CheckinEntry>) =>
+    setEntries((current) =>
+      current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+    );
+
+  // Cada leitura é processada assim que chega; o registro mais recente fica no topo
+  const handleScan = async (barcode: string) => {
+    const id = nextId.current++;
+    setEntries((current) => [{ id, barcode, status: "saving", notes: [] }, ...current]);
+
+    try {
+      const lookup = await copyLookup.mutateAsync(barcode);
+      if (!lookup.active_loan) {
+        updateEntry(id, {
+          status: "failed",
+          message: `Não está emprestado (${COPY_STATUS_LABELS[lookup.status].toLowerCase()})`,
+        });
+        return;
+      }
+
+      const loan = lookup.active_loan;
+      updateEntry(id, { loan });
+      const returned = await returnLoan.mutateAsync(loan);
+
+      const notes: string[] = [];
+      if (returned.fine) {
+        notes.push(`Multa de ${formatCurrency(returned.fine.amount)} lançada`);
+      }
+      if (returned.hold) {
+        notes.push(`Separar na estante de reservas para ${returned.hold.person.name}`);
+      }
+      updateEntry(id, { status: "done", notes });
+    } catch (error) {
+      updateEntry(id, {
+        status: "failed",
+        message: getErrorMessage(error, "Erro ao devolver o exemplar."),
+      });
+    }
+  };
+
+  useKeyboardWedge(handleScan, { enabled: active });
+
+  const returnedCount = entries.filter((entry) => entry.status === "done").length;
+  const failedCount = entries.filter((entry) => entry.status === "failed").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Devolução</CardTitle>
+        <CardDescription>
+          Cada exemplar lido é devolvido na hora. Erros ficam no registro sem
+          interromper as próximas leituras.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-md">
+          <ScanField
+            id="deskCheckinBarcode"
+            label="Código do exemplar"
+            onScan={handleScan}
+            busy={copyLookup.isPending || returnLoan.isPending}
+            autoFocus
+          />
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma devolução nesta sessão.</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {returnedCount} devolvido(s)
+              {failedCount > 0 && ` · ${failedCount} com erro`}
+            </p>
+            <ul className="border rounded-md divide-y">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-3 px-3 py-2 text-sm">
+                  {entry.status === "saving" ? (
+                    <Loader2 className="h-4 w-4 mt-0.5 shrink-0 animate-spin text-muted-foreground" />
+                  ) : entry.status === "done" ? (
+                    <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-700" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                  )}
+                  <div className="min-w-0">
+                    <div>
+                      <span className="font-mono">{entry.barcode}</span>
+                      {entry.loan && (
+                        <>
+                          {" · "}
+                          <span className="font-medium">{entry.loan.book.title}</span>
+                          <span className="text-muted-foreground">
+                            {" "}
+                            ({entry.loan.person.name})
+                          </span>
+                        </>
+                      )}
+                    </div>
+                    {entry.message && (
+                      <div className="text-destructive">{entry.message}</div>
+                    )}
+                    {entry.notes.map((note) => (
+                      <div key={note} className="text-amber-700">
+                        {note}
+                      </div>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+      {entries.length > 0 && (
+        <CardFooter className="justify-end">
+          <Button variant="outline" onClick={() => setEntries([])}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Limpar registro
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+type DeskTab = "checkout" | "checkin";
+
+const CirculationDesk = () => {
+  const [tab, setTab] = useState<DeskTab>("checkout");
+
+  return (
+    <Layout>
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <h1>Balcão de circulação</h1>
+          <p className="text-muted-foreground">
+            Empréstimos e devoluções em série, pelo leitor de código de barras ou pela câmera
+          </p>
+        </div>
+
+        <Tabs
+          value={tab}
+          onValueChange={(value) => setTab(value as DeskTab)}
+          className="w-full"
+        >
+          <TabsList className="grid w-full md:w-[360px] grid-cols-2">
+            <TabsTrigger value="checkout">
+              <BookCopy className="h-4 w-4 mr-2" />
+              Empréstimo
+            </TabsTrigger>
+            <TabsTrigger value="checkin">
+              <Undo2 className="h-4 w-4 mr-2" />
+              Devolução
+            </TabsTrigger>
+          </TabsList>
+          {/* As duas abas ficam montadas para não perder a fila ao alternar */}
+          <TabsContent value="checkout" forceMount className="data-[state=inactive]:hidden">
+            <CheckoutDesk active={tab === "checkout"} />
+          </TabsContent>
+          <TabsContent value="checkin" forceMount className="data-[state=inactive]:hidden">
+            <CheckinDesk active={tab === "checkin"} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </Layout>
+  );
+};
+
+export default CirculationDesk;
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useMemo, useState } from "react";
 import Layout from "@/components/Layout";
 import { useAuth } from "@/context/AuthContext";
 import {
@@ -20,90 +20,55 @@ import {
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { loansAPI, summaryAPI, usersAPI } from "@/services/api";
-import {
-  Loan,
-  RecentActivityResponse,
-  RecentActivityTypeEnum,
-  Role,
-  SummaryResponse,
-} from "@/types";
+import { useActivity, usePersonLoans } from "@/hooks/useLoans";
+import { useSummary } from "@/hooks/useSummary";
+import { useLoanStatus } from "@/hooks/useLoanPolicy";
+import LoanStatusBadge from "@/components/LoanStatusBadge";
+import { getDueDate } from "@/services/loanPolicy";
+import { RecentActivityTypeEnum, Role } from "@/types";
 
 const Dashboard = () => {
   const { user, hasRole } = useAuth();
   const isLibrarian = hasRole([Role.LIBRARIAN, Role.ADMIN]);
 
-  const [summary, setSummary] = useState<SummaryResponse | null>(null);
-  const [loadingSummary, setLoadingSummary] = useState(true);
-  const [recentActivities, setRecentActivities] = useState<
-    RecentActivityResponse[]
-  >([]);
-  const [readerLoans, setReaderLoans] = useState<Loan[]>([]);
-  const [loadingReaderLoans, setLoadingReaderLoans] = useState(true);
-  const [loadingActivity, setLoadingActivity] = useState(true);
   const [selectedDate, setSelectedDate] = useState<Date>(() => {
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
     return sevenDaysAgo;
   });
 
-  useEffect(() => {
-    const loadDashboardData = async () => {
-      const today = new Date();
-      const maximumDate = today.toISOString().split("T")[0];
-      const minimumDate = selectedDate.toISOString();
-
-      if (isLibrarian) {
-        setLoadingSummary(true);
-        setLoadingActivity(true);
-
-        try {
-          const [summaryData, activityRaw] = await Promise.all([
-            summaryAPI.getAll(),
-            loansAPI.getActivity({
-              maximum_date: maximumDate,
-              page: 0,
-              limit: 10000,
-            }),
-          ]);
-
-          const recent = activityRaw.filter(
-            (item) => new Date(item.created_at) >= new Date(minimumDate)
-          );
-
-          setSummary(summaryData);
-          setRecentActivities(recent);
-        } catch (error) {
-          toast.error("Erro ao carregar dados do dashboard");
-          console.error(error);
-        } finally {
-          setLoadingSummary(false);
-          setLoadingActivity(false);
-        }
-      }
-    };
-
-    if (user) loadDashboardData();
-  }, [isLibrarian, user?.id, selectedDate]);
+  const { data: summary, isLoading: loadingSummary } = useSummary({
+    enabled: isLibrarian,
+  });
+  const { data: activityRaw = [], isLoading: loadingActivity } = useActivity(
+    {
+      maximum_date: new Date().toISOString().split("T")[0],
+      page: 0,
+      limit: 10000,
+    },
+    { enabled: isLibrarian }
+  );
+  const { data: readerLoans = [], isLoading: loadingReaderLoans } =
+    usePersonLoans(!isLibrarian ? user?.id : undefined);
 
-  useEffect(() => {
-    const loadReaderLoans = async () => {
-      if (!isLibrarian && user?.id) {
-        try {
-          const userId = typeof user.id === 'string' ? parseInt(user.id, 10) : user.id;
-          const data = await usersAPI.getLoanByUser(userId);
-          setReaderLoans(data);
-        } catch (error) {
-          toast.error("Erro ao carregar seus empréstimos");
-          console.error(error);
-        } finally {
-          setLoadingReaderLoans(false);
-        }
-      }
-    };
+  // Empréstimos em aberto, os que vencem primeiro no topo
+  const { stateOf } = useLoanStatus();
+  const activeReaderLoans = useMemo(
+    () =>
+      readerLoans
+        .filter((loan) => !loan.return_date)
+        .sort((a, b) => getDueDate(a).getTime() - getDueDate(b).getTime())
+        .map((loan) => ({ loan, state: stateOf(loan) })),
+    [readerLoans, stateOf]
+  );
 
-    loadReaderLoans();
-  }, [isLibrarian, user?.id]);
+  const recentActivities = useMemo(
+    () =>
+      activityRaw.filter(
+        (item) => new Date(item.created_at) >= selectedDate
+      ),
+    [activityRaw, selectedDate]
+  );
 
   const handleQuickAction = (action: string) => {
     toast.success(`${action} action initiated successfully!`);
@@ -208,7 +173,39 @@ const Dashboard = () => {
                 </CardTitle>
               </CardHeader>
 
-              {/* Card content for loans - keeping existing code */}
+              <CardContent>
+                {loadingReaderLoans ? (
+                  <p className="text-muted-foreground text-sm">
+                    Carregando empréstimos...
+                  </p>
+                ) : activeReaderLoans.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">
+                    Você não tem empréstimos em aberto.
+                  </p>
+                ) : (
+                  <ul className="divide-y">
+                    {activeReaderLoans.map(({ loan, state }) => (
+                      <li
+                        key={loan.id}
+                        className="flex items-center justify-between gap-3 py-2 text-sm"
+                      >
+                        <div className="min-w-0">
+                          <Link
+                            to={`/livros/${loan.book.id}`}
+                            className="font-medium hover:underline truncate block"
+                          >
+                            {loan.book.title}
+                          </Link>
+                          <span className="text-xs text-muted-foreground">
+                            Devolução até {getDueDate(loan).toLocaleDateString("pt-BR")}
+                          </span>
+                        </div>
+                        <LoanStatusBadge state={state} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
             </Card>
           </div>
         )}
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, Save, Scale } from "lucide-react";
+import { toast } from "sonner";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useLoanPolicy, useUpdateLoanPolicy } from "@/hooks/useLoanPolicy";
+import { applyFieldErrors, getErrorMessage } from "@/services/apiErrors";
+import { LOAN_POLICY_RULES } from "@/services/loanPolicy";
+import { LoanPolicy as LoanPolicyData, LoanPolicyRules, Role } from "@/types";
+
+// Papéis com exceções editáveis; administradores seguem o padrão
+const OVERRIDE_ROLES: { role: Role; label: string }[] = [
+  { role: Role.READER, label: "Leitores" },
+  { role: Role.LIBRARIAN, label: "Bibliotecários" },
+];
+
+// Os campos ficam como texto, com o mesmo caminho usado pelos erros do
+// servidor ("loan_duration_days", "overrides.READER.loan_duration_days")
+type PolicyForm = Record<string, string>;
+
+const overrideField = (role: Role, key: keyof LoanPolicyRules) =>
+  `overrides.${role}.${key}`;
+
+const ALL_FIELDS = [
+  "hold_pickup_days",
+  ...LOAN_POLICY_RULES.map(({ key }) => key),
+  ...OVERRIDE_ROLES.flatMap(({ role }) =>
+    LOAN_POLICY_RULES.map(({ key }) => overrideField(role, key))
+  ),
+];
+
+const toForm = (policy: LoanPolicyData): PolicyForm => {
+  const form: PolicyForm = {
+    hold_pickup_days: String(policy.hold_pickup_days),
+  };
+  LOAN_POLICY_RULES.forEach(({ key }) => {
+    form[key] = String(policy[key]);
+    OVERRIDE_ROLES.forEach(({ role }) => {
+      const value = policy.overrides[role]?.[key];
+      form[overrideField(role, key)] = value === undefined ? "" : String(value);
+    });
+  });
+  return form;
+};
+
+// Exceções vazias herdam o padrão e não são enviadas
+const fromForm = (form: PolicyForm): LoanPolicyData => {
+  const policy = {
+    hold_pickup_days: Number(form.hold_pickup_days),
+    overrides: {},
+  } as LoanPolicyData;
+
+  LOAN_POLICY_RULES.forEach(({ key }) => {
+    policy[key] = Number(form[key]);
+  });
+  OVERRIDE_ROLES.forEach(({ role }) => {
+    const rules: Partial<LoanPolicyRules> = {};
+    LOAN_POLICY_RULES.forEach(({ key }) => {
+      const value = form[overrideField(role, key)].trim();
+      if (value !== "") rules[key] = Number(value);
+    });
+    if (Object.keys(rules).length > 0) policy.overrides[role] = rules;
+  });
+
+  return policy;
+};
+
+const LoanPolicy = () => {
+  const { data: policy, isLoading } = useLoanPolicy();
+  const updatePolicy = useUpdateLoanPolicy();
+  const [form, setForm] = useState<PolicyForm>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (policy) setForm(toForm(policy));
+  }, [policy]);
+
+  const setField = (field: string, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setErrors(({ [field]: _removed, ...rest }) => rest);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setErrors({});
+
+    try {
+      await updatePolicy.mutateAsync(fromForm(form));
+      toast.success("Política de empréstimos atualizada");
+    } catch (error) {
+      console.error("Erro ao salvar a política:", error);
+      const fieldErrors: Record<string, string> = {};
+      const showedInline = applyFieldErrors(error, ALL_FIELDS, (field, message) => {
+        fieldErrors[field] = message;
+      });
+      setErrors(fieldErrors);
+      if (!showedInline) {
+        toast.error(getErrorMessage(error, "Erro ao salvar a política."));
+      }
+    }
+  };
+
+  const renderInput = (
+    field: string,
+    label: string,
+    min: number,
+    currency?: boolean,
+    placeholder?: string
+  ) => (
+    <div>
+      <Input
+        id={field}
+        type="number"
+        min={min}
+        step={currency ? "0.01" : "1"}
+        value={form[field] ?? ""}
+        onChange={(e) => setField(field, e.target.value)}
+        placeholder={placeholder}
+        aria-label={label}
+        aria-invalid={!!errors[field]}
+        className={errors[field] ? "border-destructive" : ""}
+      />
+      {errors[field] && (
+        <p className="text-xs text-destructive mt-1">{errors[field]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Layout>
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <h1>Política de empréstimos</h1>
+          <p className="text-muted-foreground">
+            Prazos e limites aplicados no balcão, nos pedidos dos leitores e nas renovações
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Scale className="h-5 w-5 mr-2" />
+                  Regras de circulação
+                </CardTitle>
+                <CardDescription>
+                  As colunas por papel substituem o padrão; deixe em branco para herdar.
+                  As mudanças valem para novos empréstimos e renovações.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Regra</th>
+                        <th className="py-2 pr-4 font-medium">Padrão</th>
+                        {OVERRIDE_ROLES.map(({ role, label }) => (
+                          <th key={role} className="py-2 pr-4 font-medium">
+                            {label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {LOAN_POLICY_RULES.map(({ key, label, description, min, currency }) => (
+                        <tr key={key} className="align-top">
+                          <td className="py-3 pr-4">
+                            <Label htmlFor={key}>{label}</Label>
+                            <p className="text-xs text-muted-foreground">
+                              {description}
+                            </p>
+                          </td>
+                          <td className="py-3 pr-4 w-36">
+                            {renderInput(key, label, min, currency)}
+                          </td>
+                          {OVERRIDE_ROLES.map(({ role, label: roleLabel }) => (
+                            <td key={role} className="py-3 pr-4 w-36">
+                              {renderInput(
+                                overrideField(role, key),
+                                `${label} (${roleLabel})`,
+                                min,
+                                currency,
+                                form[key] ? `Padrão: ${form[key]}` : undefined
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="max-w-xs space-y-1">
+                  <Label htmlFor="hold_pickup_days">Prazo de retirada das reservas</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Dias para retirar um exemplar separado antes da reserva expirar
+                  </p>
+                  {renderInput("hold_pickup_days", "Prazo de retirada das reservas", 1)}
+                </div>
+              </CardContent>
+              <CardFooter className="justify-end">
+                <Button type="submit" disabled={updatePolicy.isPending}>
+                  {updatePolicy.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  Salvar política
+                </Button>
+              </CardFooter>
+            </Card>
+          </form>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default LoanPolicy;
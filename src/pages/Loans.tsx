@@ -1,22 +1,33 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useMemo, useRef } from "react";
 import Layout from "@/components/Layout";
 import { useAuth } from "@/context/AuthContext";
-import { Loan, LoanStatus, Book, User, Role } from "@/types";
+import {
+  Book,
+  BookCopy as BookCopyItem,
+  CopyStatus,
+  Loan,
+  LoanStatus,
+  Role,
+  User,
+} from "@/types";
 import { Button } from "@/components/ui/button";
-import ReactSelect from "react-select";
+import { SelectInstance } from "react-select";
 
 import {
   Loader2,
   Search,
   Filter,
   CheckCircle,
-  XCircle,
   Clock,
   BookCopy,
   CalendarPlus,
   ChevronDown,
   RefreshCw,
-  BookOpen,
+  Barcode,
+  ScanLine,
+  Undo2,
+  Bookmark,
+  CalendarClock,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import {
@@ -29,7 +40,6 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
-import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
   DialogContent,
@@ -47,84 +57,173 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
 import { Link, useSearchParams } from "react-router-dom";
 import { Label } from "@/components/ui/label";
-import { mockBooks, mockUsers } from "@/data/mockData";
-import { booksAPI, usersAPI, loansAPI } from "@/services/api";
-
-type LoanFilter = "all" | LoanStatus;
+import { getErrorMessage } from "@/services/apiErrors";
+import { usePaginationParams } from "@/hooks/usePaginationParams";
+import DataPagination from "@/components/DataPagination";
+import BookCover from "@/components/BookCover";
+import { BookPicker, PersonPicker } from "@/components/LoanPickers";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import { useBookCopies, useCopyLookup } from "@/hooks/useCopies";
+import { HoldsShelfDialog, MyHolds } from "@/components/HoldsPanel";
+import { COPY_STATUS_LABELS } from "@/services/bookMetadata";
+import { formatCurrency } from "@/services/fees";
+import {
+  DEFAULT_LOAN_POLICY,
+  getDueDate,
+  previewDueDate,
+  resolveLoanPolicy,
+} from "@/services/loanPolicy";
+import {
+  LOAN_STATE_LABELS,
+  LOAN_TRANSITIONS,
+  LoanState,
+  toLoanStatus,
+} from "@/services/loanStatus";
+import { useLoanPolicy, useLoanStatus } from "@/hooks/useLoanPolicy";
+import LoanStatusBadge from "@/components/LoanStatusBadge";
+import { useKeyboardWedge } from "@/hooks/useKeyboardWedge";
+import {
+  RETURN_UNDO_WINDOW_MS,
+  ReturnUndoneError,
+  undoReturn,
+  useCreateLoan,
+  useExtendLoan,
+  useLoans,
+  usePersonLoans,
+  useReturnLoan,
+} from "@/hooks/useLoans";
+
+type ScanTarget = "loan" | "return";
+
+// Situações aceitas pelo filtro do servidor
+const STATUS_FILTERS = [
+  { status: LoanStatus.IN_DAYS, label: LOAN_STATE_LABELS[LoanState.ACTIVE] },
+  { status: LoanStatus.RETURNED, label: LOAN_STATE_LABELS[LoanState.RETURNED] },
+  { status: LoanStatus.OVERDUE, label: LOAN_STATE_LABELS[LoanState.OVERDUE] },
+];
 
 const Loans = () => {
   const { user, hasRole, loading: authLoading } = useAuth();
   const isLibrarianOrAdmin = hasRole([Role.LIBRARIAN, Role.ADMIN]);
   console.log("User ID:", user?.id);
-  const [loans, setLoans] = useState<Loan[]>([]);
-  const [filteredLoans, setFilteredLoans] = useState<Loan[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
-  const [filter, setFilter] = useState<LoanStatus[]>([]);
-  const [availableBooks, setAvailableBooks] = useState<Book[]>([]);
-  const [availableUsers, setAvailableUsers] = useState<User[]>([]);
+  const [filter, setFilterState] = useState<LoanStatus[]>([]);
 
   const [showLoanDialog, setShowLoanDialog] = useState(false);
   const [showFilterDialog, setShowFilterDialog] = useState(false);
-  const [selectedBook, setSelectedBook] = useState<string>("");
-  const [selectedUser, setSelectedUser] = useState<string>("");
-  const [creatingLoan, setCreatingLoan] = useState(false);
+  const [selectedBook, setSelectedBook] = useState<Book | null>(null);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  // Exemplar escolhido na lista ou lido pelo scanner; sem escolha, usa o
+  // primeiro disponível do livro
+  const [selectedCopy, setSelectedCopy] = useState<BookCopyItem | null>(null);
+  const [loanBarcode, setLoanBarcode] = useState("");
+  const [showReturnDialog, setShowReturnDialog] = useState(false);
+  const [returnBarcode, setReturnBarcode] = useState("");
+  const [scanTarget, setScanTarget] = useState<ScanTarget | null>(null);
+  const [showHoldsShelf, setShowHoldsShelf] = useState(false);
+  const personPickerRef = useRef<SelectInstance<User, false>>(null);
+  // Filtros de livro/usuário só valem depois de "Aplicar filtros"
+  const [appliedFilters, setAppliedFilters] = useState<{
+    book_id?: number;
+    person_id?: number;
+  }>({});
 
   const [searchParams] = useSearchParams();
   const personId = searchParams.get("person_id");
 
-  const [page, setPage] = useState(0);
-  const [limit] = useState(10);
-  const currentRequest = useRef(0);
-
-  const [processingLoanId, setProcessingLoanId] = useState<number | null>(null);
-  const ALL_STATUSES: LoanStatus[] = [
-    LoanStatus.IN_DAYS,
-    LoanStatus.RETURNED,
-    LoanStatus.OVERDUE,
-  ];
-
-  const fetchAllBooks = async (): Promise<Book[]> => {
-    let allBooks: Book[] = [];
-    let page = 0;
-    const limit = 2000;
-
-    while (true) {
-      const booksPage = await booksAPI.getAll(page, limit);
-      allBooks = allBooks.concat(booksPage);
-      if (booksPage.length < limit) break;
-      page++;
-    }
-
-    return allBooks;
-  };
-
-  const fetchAllUsers = async (): Promise<User[]> => {
-    let allUsers: User[] = [];
-    let page = 0;
-    const limit = 2000;
-
-    while (true) {
-      const usersPage = await usersAPI.getAll(page, limit);
-      allUsers = allUsers.concat(usersPage);
-      if (usersPage.length < limit) break;
-      page++;
-    }
+  const { page, pageSize, setPage, resetPage, setPageSize } =
+    usePaginationParams(10);
 
-    return allUsers;
+  // Mudar o status filtrado volta para a primeira página
+  const setFilter = (next: React.SetStateAction<LoanStatus[]>) => {
+    setFilterState(next);
+    resetPage();
   };
 
-  useEffect(() => {
-    console.log("Auth loading:", user.id);
-  }, [authLoading]);
+  const [processingLoanId, setProcessingLoanId] = useState<number | null>(null);
 
-  useEffect(() => {
+  const toggleStatusFilter = (status: LoanStatus) =>
+    setFilter((prev) => {
+      const updated = prev.includes(status)
+        ? prev.filter((item) => item !== status)
+        : [...prev, status];
+
+      // Se marcou todos, limpa os filtros (sem filtro)
+      return updated.length === STATUS_FILTERS.length ? [] : updated;
+    });
+
+  // Leitores (ou o link "ver empréstimos" de um usuário) usam a rota por pessoa;
+  // a equipe usa a listagem paginada com filtros.
+  const loansPersonId = personId ?? (!isLibrarianOrAdmin ? user?.id : undefined);
+
+  const personLoansQuery = usePersonLoans(loansPersonId);
+  const allLoansQuery = useLoans(
+    {
+      page,
+      limit: pageSize,
+      types: filter.length > 0 ? filter.join(",") : undefined,
+      ...appliedFilters,
+    },
+    { enabled: isLibrarianOrAdmin && !loansPersonId }
+  );
+  const loans = useMemo(
+    () =>
+      (loansPersonId ? personLoansQuery.data : allLoansQuery.data?.items) ?? [],
+    [loansPersonId, personLoansQuery.data, allLoansQuery.data]
+  );
+  const loading =
+    authLoading ||
+    (loansPersonId ? personLoansQuery.isLoading : allLoansQuery.isLoading);
+
+
+  const { data: policy = DEFAULT_LOAN_POLICY } = useLoanPolicy();
+  const { stateOf, actionBlock } = useLoanStatus();
+  const createLoan = useCreateLoan();
+  const extendLoan = useExtendLoan();
+  const returnLoan = useReturnLoan();
+  const creatingLoan = createLoan.isPending;
+  const copyLookup = useCopyLookup();
+  const lookingUpCopy = copyLookup.isPending;
+
+  const { data: bookCopies = [], isLoading: loadingCopies } = useBookCopies(
+    selectedBook?.id,
+    { enabled: showLoanDialog }
+  );
+  const availableCopies = bookCopies.filter(
+    (copy) => copy.status === CopyStatus.AVAILABLE
+  );
+  const loanCopy =
+    selectedCopy?.book_id === selectedBook?.id
+      ? selectedCopy
+      : availableCopies[0] ?? null;
+  // O exemplar escaneado pode estar separado para uma reserva (fora da lista)
+  const copyOptions =
+    loanCopy && !availableCopies.some((copy) => copy.id === loanCopy.id)
+      ? [loanCopy, ...availableCopies]
+      : availableCopies;
+
+  // Prazo e limite do usuário escolhido, conforme o papel dele na política
+  const selectedUserRules = selectedUser
+    ? resolveLoanPolicy(policy, selectedUser.role)
+    : null;
+  const selectedUserAtLimit =
+    !!selectedUserRules &&
+    (selectedUser?.active_loans_count ?? 0) >= selectedUserRules.max_active_loans;
+
+  const filteredLoans = useMemo(() => {
     let result = [...loans];
 
     if (filter.length > 0) {
-      result = result.filter((loan) => filter.includes(deriveLoanStatus(loan)));
+      result = result.filter((loan) =>
+        filter.includes(toLoanStatus(stateOf(loan)))
+      );
     }
 
     if (searchQuery.trim()) {
@@ -137,147 +236,8 @@ const Loans = () => {
       );
     }
 
-    setFilteredLoans(result);
-  }, [loans, searchQuery, filter]);
-
-  useEffect(() => {
-    const fetchLoans = async () => {
-      if (!personId) return;
-
-      setLoading(true);
-      try {
-        const result = await usersAPI.getLoanByUser(Number(personId));
-        setLoans(result);
-      } catch (error) {
-        console.error("Erro ao carregar empréstimos:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchLoans();
-  }, [personId]);
-
-  const loadLoans = async () => {
-    setLoading(true);
-    const requestId = ++currentRequest.current;
-
-    try {
-      if (!isLibrarianOrAdmin && user?.id) {
-        const loansByUser = await usersAPI.getLoanByUser(user.id);
-
-        if (requestId !== currentRequest.current) return;
-
-        setLoans(loansByUser);
-        return;
-      }
-      const filters: {
-        page: number;
-        limit: number;
-        types?: string;
-        person_id?: string;
-        book_id?: string;
-      } = {
-        page,
-        limit,
-      };
-      if (filter.length > 0) filters.types = filter.join(",");
-      if (selectedUser) filters.person_id = selectedUser;
-      if (selectedBook) filters.book_id = selectedBook;
-
-      if (filter.length > 0) {
-        filters.types = filter.join(",");
-      }
-
-      const fetched = await loansAPI.getAllLoans(filters);
-
-      if (requestId !== currentRequest.current) return;
-
-      setLoans(fetched);
-    } catch (error) {
-      toast.error("Erro ao carregar empréstimos.");
-      console.error(error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    if (isLibrarianOrAdmin || user?.id) {
-      loadLoans();
-    }
-  }, [isLibrarianOrAdmin, user?.id, page, filter]);
-
-  //   useEffect(() => {
-  //     const loadBooksAndUsers = async () => {
-  //       try {
-  //         const [books, users] = await Promise.all([
-  //           booksAPI.getAll(0, 5000),
-  //           usersAPI.getAll(0, 5000),
-  //         ]);
-
-  //         const available = books.filter((book) => book.quantity > 0);
-  //         const readers = users.filter(
-  //           (user) => user.role === Role.READER || Role.LIBRARIAN
-  //         );
-
-  //         setAvailableBooks(available);
-  //         setAvailableUsers(readers);
-
-  //         console.log("Available books from API:", available);
-  //         console.log("Available users from API:", readers);
-  //       } catch (error) {
-  //         toast.error("Erro ao carregar livros ou usuários");
-  //         console.error("Erro ao buscar dados:", error);
-  //       }
-  //     };
-
-  //     if (showLoanDialog) {
-  //       loadBooksAndUsers();
-  //     }
-  //   }, [showLoanDialog]);
-
-  useEffect(() => {
-    const loadBooksAndUsers = async () => {
-      try {
-        const [books, users] = await Promise.all([
-          booksAPI.getAll(0, 5000),
-          usersAPI.getAll(0, 5000),
-        ]);
-
-        const available = books.filter((book) => book.quantity > 0);
-
-        setAvailableBooks(available);
-        setAvailableUsers(users); // 👈 agora pega todos
-      } catch (error) {
-        toast.error("Erro ao carregar livros ou usuários");
-        console.error("Erro ao buscar dados:", error);
-      }
-    };
-
-    loadBooksAndUsers();
-  }, []);
-
-  useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredLoans(loans);
-      return;
-    }
-
-    const query = searchQuery.toLowerCase();
-    const results = loans.filter(
-      (loan) =>
-        loan.book?.title.toLowerCase().includes(query) ||
-        loan.book?.author.toLowerCase().includes(query) ||
-        loan.person?.name.toLowerCase().includes(query)
-    );
-
-    setFilteredLoans(results);
-  }, [searchQuery, loans]);
-
-  useEffect(() => {
-    console.log("Loans carregados da API:", loans);
-  }, [loans]);
+    return result;
+  }, [loans, searchQuery, filter, stateOf]);
 
   //   const handleCreateLoan = async () => {
   //     if (!selectedBook || !selectedUser) {
@@ -301,165 +261,206 @@ const Loans = () => {
   //       setCreatingLoan(false);
   //     }
   //   };
+  const resetLoanDialog = () => {
+    setSelectedBook(null);
+    setSelectedUser(null);
+    setSelectedCopy(null);
+    setLoanBarcode("");
+  };
+
   const handleCreateLoan = async () => {
-    if (!selectedBook || !selectedUser) {
+    const book = selectedBook;
+    const person = selectedUser;
+    const copy = loanCopy;
+
+    if (!book || !person) {
       toast.error("Please select both a book and a user");
       return;
     }
+    if (!copy) {
+      toast.error(`Não há exemplares disponíveis de "${book.title}"`);
+      return;
+    }
 
-    setCreatingLoan(true);
+    // O empréstimo já aparece na lista; o diálogo não precisa esperar o servidor
+    setShowLoanDialog(false);
+    resetLoanDialog();
 
     try {
-      const createdLoan = await loansAPI.create(selectedBook, selectedUser);
-
-      // Adiciona o novo empréstimo ao final da lista existente
-      setLoans((prev) => [...prev, createdLoan]);
-
+      await createLoan.mutateAsync({ book, person, copy });
       toast.success("Loan created successfully!");
-      setShowLoanDialog(false);
-      setSelectedBook("");
-      setSelectedUser("");
     } catch (error) {
       console.error("Error creating loan:", error);
-      toast.error("Failed to create loan.");
-    } finally {
-      setCreatingLoan(false);
+      toast.error(getErrorMessage(error, "Erro ao criar empréstimo."));
     }
   };
 
-  const handleReturnBook = async (id: number) => {
-    setProcessingLoanId(id);
+  // Lê o exemplar pelo código (digitado ou escaneado) e já preenche o livro
+  const handleLoanBarcode = async (barcode: string) => {
+    if (!barcode.trim()) return;
 
-    await new Promise((resolve) => setTimeout(resolve, 800));
-
-    const loanIndex = loans.findIndex((l) => l.id === id);
-    if (loanIndex >= 0) {
-      const loan = loans[loanIndex];
-
-      const updatedLoan = {
-        ...loan,
-        status: LoanStatus.RETURNED,
-        returnDate: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      const bookIndex = mockBooks.findIndex((b) => b.id === loan.book.id);
-      if (bookIndex >= 0) {
-        mockBooks[bookIndex] = {
-          ...mockBooks[bookIndex],
-          quantity: mockBooks[bookIndex].quantity + 1,
-        };
+    try {
+      const { book, active_loan, hold, ...copy } = await copyLookup.mutateAsync(barcode);
+
+      // Exemplar da estante de reservas: o empréstimo só pode ser para quem reservou
+      if (copy.status === CopyStatus.ON_HOLD && hold) {
+        setSelectedBook(book);
+        setSelectedCopy(copy);
+        setSelectedUser(hold.person);
+        setLoanBarcode("");
+        toast.info(`Exemplar reservado para ${hold.person.name}`);
+        return;
       }
 
-      const updatedLoans = [...loans];
-      updatedLoans[loanIndex] = updatedLoan;
-      setLoans([
-        ...loans.slice(0, loanIndex),
-        updatedLoan,
-        ...loans.slice(loanIndex + 1),
-      ]);
-
-      const returnLoan = await loansAPI.return(id);
-      await loadLoans();
-      toast.success(`Book "${loan.book.title}" has been returned`);
-    }
+      if (copy.status !== CopyStatus.AVAILABLE) {
+        toast.error(
+          `O exemplar ${copy.barcode} está ${COPY_STATUS_LABELS[
+            copy.status
+          ].toLowerCase()}`
+        );
+        return;
+      }
 
-    setProcessingLoanId(null);
+      setSelectedBook(book);
+      setSelectedCopy(copy);
+      setLoanBarcode("");
+      personPickerRef.current?.focus();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Exemplar não encontrado."));
+    }
   };
 
-  const handleExtendLoan = async (id: number) => {
-    setProcessingLoanId(id);
+  const handleReturnBarcode = async (barcode: string) => {
+    if (!barcode.trim()) return;
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      const loan = loans.find((l) => l.id === id);
-      if (!loan) {
-        toast.error("Empréstimo não encontrado.");
+      const lookup = await copyLookup.mutateAsync(barcode);
+      if (!lookup.active_loan) {
+        toast.error(`O exemplar ${lookup.barcode} não está emprestado`);
         return;
       }
 
-      await loansAPI.extend(id);
-      await loadLoans(); // 👈 Aqui está o segredo
-
-      toast.success(
-        `O empréstimo de "${loan.book.title}" foi estendido com sucesso!`
-      );
+      setShowReturnDialog(false);
+      setReturnBarcode("");
+      handleReturnBook(lookup.active_loan);
     } catch (error) {
-      console.error("Erro ao estender empréstimo:", error);
-      toast.error("Erro ao estender o empréstimo.");
-    } finally {
-      setProcessingLoanId(null);
+      toast.error(getErrorMessage(error, "Exemplar não encontrado."));
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString();
-  };
+  const handleScannerDetection = (barcode: string) => {
+    const target = scanTarget;
+    setScanTarget(null);
 
-  const isOverdue = (dueDate: string) => {
-    return new Date(dueDate) < new Date() && new Date(dueDate).getTime() > 0;
+    if (target === "loan") handleLoanBarcode(barcode);
+    if (target === "return") handleReturnBarcode(barcode);
   };
 
-  const getLoanStatusBadge = (loan: Loan) => {
-    const status = loan.type as LoanStatus;
-
-    if (status === LoanStatus.RETURNED) {
-      return (
-        <Badge
-          variant="outline"
-          className="bg-green-500/10 text-green-700 hover:bg-green-500/20"
-        >
-          <CheckCircle className="h-3 w-3 mr-1" />
-          Retornado
-        </Badge>
-      );
+  // Leitor USB sem campo focado: com "Devolver por código" aberto, devolve;
+  // senão, abre o empréstimo já com o exemplar lido
+  const handleWedgeScan = (barcode: string) => {
+    if (showReturnDialog) {
+      handleReturnBarcode(barcode);
+      return;
     }
+    setShowLoanDialog(true);
+    handleLoanBarcode(barcode);
+  };
 
-    if (status === LoanStatus.OVERDUE) {
-      return (
-        <Badge
-          variant="outline"
-          className="bg-destructive/10 text-destructive hover:bg-destructive/20"
-        >
-          <XCircle className="h-3 w-3 mr-1" />
-          Overdue
-        </Badge>
-      );
+  useKeyboardWedge(handleWedgeScan, {
+    enabled: isLibrarianOrAdmin && !showFilterDialog && !showHoldsShelf,
+  });
+
+  const handleReturnBook = async (loan: Loan) => {
+    // O aviso fica como pendente durante a janela de desfazer e só é
+    // confirmado (ou trocado pelo erro) quando o servidor responde
+    const toastId = toast.loading(
+      `Devolução de "${loan.book.title}" em ${RETURN_UNDO_WINDOW_MS / 1000} s`,
+      {
+        action: {
+          label: "Desfazer",
+          onClick: () => undoReturn(loan.id),
+        },
+      }
+    );
+
+    try {
+      const returned = await returnLoan.mutateAsync(loan);
+      toast.success(`Livro "${loan.book.title}" devolvido`, {
+        id: toastId,
+        action: undefined,
+      });
+      if (returned.fine) {
+        toast.warning(
+          `Multa de ${formatCurrency(returned.fine.amount)} para ${loan.person.name}`,
+          { description: returned.fine.reason ?? undefined, duration: 15_000 }
+        );
+      }
+      if (returned.hold) {
+        toast.info(
+          `Este exemplar está reservado para ${returned.hold.person.name}`,
+          {
+            description: `Separe ${
+              returned.copy ? `o exemplar ${returned.copy.barcode}` : "o livro"
+            } na estante de reservas.`,
+            duration: 15_000,
+          }
+        );
+      }
+    } catch (error) {
+      if (error instanceof ReturnUndoneError) {
+        toast.info(`Devolução de "${loan.book.title}" desfeita`, {
+          id: toastId,
+          action: undefined,
+        });
+        return;
+      }
+      console.error("Erro ao devolver empréstimo:", error);
+      toast.error(getErrorMessage(error, "Erro ao devolver o livro."), {
+        id: toastId,
+        action: undefined,
+      });
     }
+  };
 
-    if (status === LoanStatus.IN_DAYS) {
-      return (
-        <Badge
-          variant="outline"
-          className="bg-blue-500/10 text-blue-700 hover:bg-blue-500/20"
-        >
-          <BookCopy className="h-3 w-3 mr-1" />
-          Em dia
-        </Badge>
-      );
+  const handleExtendLoan = async (id: number) => {
+    const loan = loans.find((l) => l.id === id);
+    if (!loan) {
+      toast.error("Empréstimo não encontrado.");
+      return;
+    }
+    const block = actionBlock(loan, "extend");
+    if (block) {
+      toast.error(block);
+      return;
     }
 
-    return null;
-  };
+    setProcessingLoanId(id);
 
-  const calculateDueDate = (startDate: string, duration: number): string => {
-    const start = new Date(startDate);
-    start.setDate(start.getDate() + duration);
-    return start.toISOString();
-  };
-  const deriveLoanStatus = (loan: Loan): LoanStatus => {
-    if (loan.return_date) return LoanStatus.RETURNED;
+    try {
+      await extendLoan.mutateAsync(loan);
 
-    const dueDate = new Date(calculateDueDate(loan.start_date, loan.duration));
-    const now = new Date();
+      toast.success(
+        `O empréstimo de "${loan.book.title}" foi estendido com sucesso!`
+      );
+    } catch (error) {
+      console.error("Erro ao estender empréstimo:", error);
+      toast.error(getErrorMessage(error, "Erro ao estender o empréstimo."));
+    } finally {
+      setProcessingLoanId(null);
+    }
+  };
 
-    if (now > dueDate) return LoanStatus.OVERDUE;
+  // Empréstimos provisórios (id negativo) ainda não existem no servidor
+  const isLoanBusy = (loan: Loan) =>
+    processingLoanId === loan.id || loan.id < 0;
 
-    return LoanStatus.IN_DAYS;
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString();
   };
 
+
   return (
     <Layout>
       <div className="space-y-6 animate-fade-in">
@@ -483,10 +484,20 @@ const Loans = () => {
                 <BookCopy className="h-4 w-4 mr-2" />
                 Emitir novo empréstimo
               </Button>
+              <Button variant="outline" onClick={() => setShowReturnDialog(true)}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Devolver por código
+              </Button>
+              <Button variant="outline" onClick={() => setShowHoldsShelf(true)}>
+                <Bookmark className="h-4 w-4 mr-2" />
+                Estante de reservas
+              </Button>
             </div>
           )}
         </div>
 
+        {!isLibrarianOrAdmin && user && <MyHolds personId={user.id} />}
+
         <div className="flex flex-col sm:flex-row gap-3">
           {/* <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -529,69 +540,17 @@ const Loans = () => {
                   </div>
                 </DropdownMenuItem>
 
-                <DropdownMenuItem
-                  onClick={() =>
-                    setFilter((prev) => {
-                      const updated = prev.includes(LoanStatus.IN_DAYS)
-                        ? prev.filter((f) => f !== LoanStatus.IN_DAYS)
-                        : [...prev, LoanStatus.IN_DAYS];
-                      return updated.length === ALL_STATUSES.length
-                        ? []
-                        : updated;
-                    })
-                  }
-                >
-                  <div className="flex items-center space-x-2">
-                    <Checkbox checked={filter.includes(LoanStatus.IN_DAYS)} />
-                    <span>Em dia</span>
-                  </div>
-                </DropdownMenuItem>
-
-                <DropdownMenuItem
-                  onClick={() =>
-                    setFilter((prev) => {
-                      const updated = prev.includes(LoanStatus.RETURNED)
-                        ? prev.filter((f) => f !== LoanStatus.RETURNED)
-                        : [...prev, LoanStatus.RETURNED];
-
-                      // Se marcou todos, limpa os filtros (sem filtro)
-                      return updated.length === ALL_STATUSES.length
-                        ? []
-                        : updated;
-                    })
-                  }
-                >
-                  <div className="flex items-center space-x-2">
-                    <Checkbox checked={filter.includes(LoanStatus.RETURNED)} />
-                    <span>Retornada</span>
-                  </div>
-                </DropdownMenuItem>
-
-                <DropdownMenuItem
-                  onClick={() =>
-                    setFilter((prev) => {
-                      const updated = prev.includes(LoanStatus.OVERDUE)
-                        ? prev.filter((f) => f !== LoanStatus.OVERDUE)
-                        : [...prev, LoanStatus.OVERDUE];
-
-                      return updated.length === ALL_STATUSES.length
-                        ? []
-                        : updated;
-                    })
-                  }
-                >
-                  <div className="flex items-center space-x-2">
-                    <Checkbox checked={filter.includes(LoanStatus.OVERDUE)} />
-                    <span>Atrasada</span>
-                  </div>
-                </DropdownMenuItem>
-
-                {/* <DropdownMenuItem onClick={() => setFilter("extended")}>
-                  <div className="flex items-center space-x-2">
-                    <Checkbox checked={filter === "extended"} />
-                    <span>Extended</span>
-                  </div>
-                </DropdownMenuItem> */}
+                {STATUS_FILTERS.map(({ status, label }) => (
+                  <DropdownMenuItem
+                    key={status}
+                    onClick={() => toggleStatusFilter(status)}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <Checkbox checked={filter.includes(status)} />
+                      <span>{label}</span>
+                    </div>
+                  </DropdownMenuItem>
+                ))}
               </DropdownMenuGroup>
             </DropdownMenuContent>
           </DropdownMenu>
@@ -608,53 +567,23 @@ const Loans = () => {
               <div className="space-y-4 py-4">
                 <div className="space-y-2">
                   <Label htmlFor="filterBook">Livro</Label>
-                  <ReactSelect
+                  <BookPicker
                     id="filterBook"
-                    styles={customSelectStyles}
-                    options={availableBooks.map((book) => ({
-                      value: book.id.toString(),
-                      label: `${book.title} - ${book.author}`,
-                    }))}
-                    value={
-                      selectedBook
-                        ? availableBooks
-                            .map((book) => ({
-                              value: book.id.toString(),
-                              label: `${book.title} - ${book.author}`,
-                            }))
-                            .find((b) => b.value === selectedBook)
-                        : null
-                    }
-                    onChange={(option) => setSelectedBook(option?.value || "")}
+                    value={selectedBook}
+                    onChange={setSelectedBook}
                     placeholder="Todos os livros"
                     isClearable
-                    isSearchable
                   />
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="filterUser">Usuário</Label>
-                  <ReactSelect
+                  <PersonPicker
                     id="filterUser"
-                    styles={customSelectStyles}
-                    options={availableUsers.map((user) => ({
-                      value: user.id.toString(),
-                      label: `${user.name} (${user.email})`,
-                    }))}
-                    value={
-                      selectedUser
-                        ? availableUsers
-                            .map((user) => ({
-                              value: user.id.toString(),
-                              label: `${user.name} (${user.email})`,
-                            }))
-                            .find((u) => u.value === selectedUser)
-                        : null
-                    }
-                    onChange={(option) => setSelectedUser(option?.value || "")}
+                    value={selectedUser}
+                    onChange={setSelectedUser}
                     placeholder="Todos os usuários"
                     isClearable
-                    isSearchable
                   />
                 </div>
               </div>
@@ -669,7 +598,11 @@ const Loans = () => {
                 <Button
                   onClick={() => {
                     setShowFilterDialog(false);
-                    loadLoans(); // já pega `selectedUser` e `selectedBook` no filtro da API
+                    resetPage();
+                    setAppliedFilters({
+                      book_id: selectedBook ? Number(selectedBook.id) : undefined,
+                      person_id: selectedUser ? Number(selectedUser.id) : undefined,
+                    });
                   }}
                 >
                   Aplicar filtros
@@ -716,23 +649,19 @@ const Loans = () => {
                     </thead>
                     <tbody className="divide-y">
                       {filteredLoans.map((loan) => {
+                        const state = stateOf(loan);
+                        const actions = LOAN_TRANSITIONS[state];
+                        const renewalBlock = actionBlock(loan, "extend");
+
                         return (
                           <tr key={loan.id} className="hover:bg-muted/30">
                             <td className="px-4 py-3">
                               <div className="flex items-center space-x-3">
-                                <div className="h-10 w-8 rounded overflow-hidden flex-shrink-0">
-                                  {loan.book.cover ? (
-                                    <img
-                                      src={loan.book.cover}
-                                      alt={loan.book.title}
-                                      className="h-full w-full object-cover"
-                                    />
-                                  ) : (
-                                    <div className="h-full w-full bg-muted flex items-center justify-center">
-                                      <BookOpen className="h-4 w-4 text-muted-foreground" />
-                                    </div>
-                                  )}
-                                </div>
+                                <BookCover
+                                  book={loan.book}
+                                  size="S"
+                                  className="h-10 w-8 rounded flex-shrink-0"
+                                />
                                 <div>
                                   <Link
                                     to={`/livros/${loan.book.id}`}
@@ -743,6 +672,11 @@ const Loans = () => {
                                   <div className="text-xs text-muted-foreground">
                                     {loan.book.author}
                                   </div>
+                                  {loan.copy && (
+                                    <div className="text-xs text-muted-foreground font-mono">
+                                      {loan.copy.barcode}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                             </td>
@@ -765,87 +699,61 @@ const Loans = () => {
                             <td className="px-4 py-3 text-sm">
                               <span
                                 className={
-                                  isOverdue(loan.return_date) &&
-                                  loan.type !== "RETURNED"
+                                  state === LoanState.OVERDUE
                                     ? "text-destructive"
+                                    : state === LoanState.DUE_SOON
+                                    ? "text-amber-700 font-medium"
                                     : ""
                                 }
                               >
-                                {formatDate(
-                                  calculateDueDate(
-                                    loan.start_date,
-                                    loan.duration
-                                  )
-                                )}
+                                {getDueDate(loan).toLocaleDateString()}
                               </span>
+                              {!!loan.renewals && (
+                                <div className="text-xs text-muted-foreground">
+                                  {loan.renewals} renovação(ões)
+                                </div>
+                              )}
                             </td>
 
                             <td className="px-4 py-3 text-sm">
-                              {getLoanStatusBadge(loan)}
+                              <LoanStatusBadge state={state} />
                             </td>
 
                             <td className="px-4 py-3 text-right">
                               <div className="flex justify-end space-x-2">
-                                {deriveLoanStatus(loan) ===
-                                  LoanStatus.IN_DAYS && (
-                                  <>
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      onClick={() => handleExtendLoan(loan.id)}
-                                      disabled={processingLoanId === loan.id}
-                                    >
-                                      {processingLoanId === loan.id ? (
-                                        <Loader2 className="h-3 w-3 animate-spin" />
-                                      ) : (
-                                        <CalendarPlus className="h-3 w-3" />
-                                      )}
-                                      <span className="ml-1 hidden sm:inline">
-                                        Estender
-                                      </span>
-                                    </Button>
-
-                                    <Button
-                                      size="sm"
-                                      onClick={() => handleReturnBook(loan.id)}
-                                      disabled={processingLoanId === loan.id}
-                                    >
-                                      {processingLoanId === loan.id ? (
-                                        <Loader2 className="h-3 w-3 animate-spin" />
-                                      ) : (
-                                        <CheckCircle className="h-3 w-3" />
-                                      )}
-                                      <span className="ml-1 hidden sm:inline">
-                                        Devolver
+                                {actions.includes("extend") && (
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      {/* Botão desabilitado não recebe o hover do tooltip */}
+                                      <span tabIndex={renewalBlock ? 0 : -1}>
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => handleExtendLoan(loan.id)}
+                                          disabled={isLoanBusy(loan) || !!renewalBlock}
+                                        >
+                                          {processingLoanId === loan.id ? (
+                                            <Loader2 className="h-3 w-3 animate-spin" />
+                                          ) : (
+                                            <CalendarPlus className="h-3 w-3" />
+                                          )}
+                                          <span className="ml-1 hidden sm:inline">
+                                            Estender
+                                          </span>
+                                        </Button>
                                       </span>
-                                    </Button>
-                                  </>
-                                )}
-
-                                {deriveLoanStatus(loan) ===
-                                  LoanStatus.OVERDUE && (
-                                  <Button
-                                    size="sm"
-                                    onClick={() => handleReturnBook(loan.id)}
-                                    disabled={processingLoanId === loan.id}
-                                  >
-                                    {processingLoanId === loan.id ? (
-                                      <Loader2 className="h-3 w-3 animate-spin" />
-                                    ) : (
-                                      <CheckCircle className="h-3 w-3" />
+                                    </TooltipTrigger>
+                                    {renewalBlock && (
+                                      <TooltipContent>{renewalBlock}</TooltipContent>
                                     )}
-                                    <span className="ml-1 hidden sm:inline">
-                                      Return
-                                    </span>
-                                  </Button>
+                                  </Tooltip>
                                 )}
 
-                                {deriveLoanStatus(loan) ===
-                                  LoanStatus.EXTENDED && (
+                                {actions.includes("return") && (
                                   <Button
                                     size="sm"
-                                    onClick={() => handleReturnBook(loan.id)}
-                                    disabled={processingLoanId === loan.id}
+                                    onClick={() => handleReturnBook(loan)}
+                                    disabled={isLoanBusy(loan)}
                                   >
                                     {processingLoanId === loan.id ? (
                                       <Loader2 className="h-3 w-3 animate-spin" />
@@ -853,13 +761,12 @@ const Loans = () => {
                                       <CheckCircle className="h-3 w-3" />
                                     )}
                                     <span className="ml-1 hidden sm:inline">
-                                      Return
+                                      Devolver
                                     </span>
                                   </Button>
                                 )}
 
-                                {deriveLoanStatus(loan) ===
-                                  LoanStatus.RETURNED && (
+                                {state === LoanState.RETURNED && (
                                   <span className="text-xs text-muted-foreground px-2">
                                     {loan.return_date
                                       ? `Retornado em ${formatDate(
@@ -886,21 +793,21 @@ const Loans = () => {
                   Nenhum empréstimo encontrado
                 </h3>
                 <p className="text-muted-foreground mb-4">
-                  {searchQuery || filter !== "all"
+                  {searchQuery || filter.length > 0
                     ? ""
                     : isLibrarianOrAdmin
                     ? "No loans have been issued yet"
                     : "You don't have any active loans"}
                 </p>
-                {searchQuery || filter !== "all" ? (
+                {searchQuery || filter.length > 0 ? (
                   <Button
                     variant="outline"
                     onClick={() => {
                       setSearchQuery("");
                       setFilter([]);
-                      setSelectedBook("");
-                      setSelectedUser("");
-                      loadLoans();
+                      setSelectedBook(null);
+                      setSelectedUser(null);
+                      setAppliedFilters({});
                     }}
                   >
                     <RefreshCw className="h-4 w-4 mr-2" />
@@ -930,57 +837,139 @@ const Loans = () => {
           <DialogHeader>
             <DialogTitle>Criar novo empréstimo</DialogTitle>
             <DialogDescription>
-              Selecione um livro e um usuário para criar um novo empréstimo.
+              Escaneie o exemplar ou selecione um livro, depois escolha o usuário.
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="loanBarcode">Código do exemplar</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="loanBarcode"
+                  className="font-mono"
+                  placeholder="Ex.: A000001"
+                  value={loanBarcode}
+                  onChange={(e) => setLoanBarcode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleLoanBarcode(loanBarcode);
+                    }
+                  }}
+                  autoFocus
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setScanTarget("loan")}
+                  aria-label="Escanear exemplar"
+                >
+                  {lookingUpCopy ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <ScanLine className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="book">Livro</Label>
-              <ReactSelect
+              <BookPicker
                 id="book"
-                styles={customSelectStyles}
-                options={availableBooks.map((book) => ({
-                  value: book.id.toString(),
-                  label: `${book.title} - ${book.author} ${
-                    book.available > 0
-                      ? `(${book.available} disponíveis)`
-                      : "(INDISPONÍVEL)"
-                  }`,
-                  isDisabled: book.available <= 0,
-                }))}
-                value={availableBooks
-                  .map((book) => ({
-                    value: book.id.toString(),
-                    label: `${book.title} - ${book.author}`,
-                  }))
-                  .find((b) => b.value === selectedBook)}
-                onChange={(option) => setSelectedBook(option?.value || "")}
-                placeholder="Selecione um livro"
-                isSearchable
+                value={selectedBook}
+                onChange={(book) => {
+                  setSelectedBook(book);
+                  setSelectedCopy(null);
+                  // No balcão, escolher o livro já leva ao campo do usuário
+                  if (book) personPickerRef.current?.focus();
+                }}
+                forLoan
               />
             </div>
 
+            {selectedBook && (
+              <div className="space-y-2">
+                <Label htmlFor="copy">Exemplar</Label>
+                {loadingCopies ? (
+                  <p className="text-sm text-muted-foreground">
+                    Carregando exemplares...
+                  </p>
+                ) : availableCopies.length === 0 && !loanCopy ? (
+                  <p className="text-sm text-destructive">
+                    Nenhum exemplar disponível deste livro.
+                  </p>
+                ) : (
+                  <Select
+                    value={loanCopy ? String(loanCopy.id) : undefined}
+                    onValueChange={(value) =>
+                      setSelectedCopy(
+                        copyOptions.find((copy) => String(copy.id) === value) ??
+                          null
+                      )
+                    }
+                  >
+                    <SelectTrigger id="copy">
+                      <SelectValue placeholder="Selecione o exemplar" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {copyOptions.map((copy) => (
+                        <SelectItem key={copy.id} value={String(copy.id)}>
+                          <span className="font-mono">{copy.barcode}</span>
+                          {copy.shelf_location && (
+                            <span className="text-muted-foreground">
+                              {" "}
+                              · {copy.shelf_location}
+                            </span>
+                          )}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="user">Usuário</Label>
-              <ReactSelect
+              <PersonPicker
+                ref={personPickerRef}
                 id="user"
-                styles={customSelectStyles}
-                options={availableUsers.map((user) => ({
-                  value: user.id.toString(),
-                  label: `${user.name} (${user.email})`,
-                }))}
-                value={availableUsers
-                  .map((user) => ({
-                    value: user.id.toString(),
-                    label: `${user.name} (${user.email})`,
-                  }))
-                  .find((u) => u.value === selectedUser)}
-                onChange={(option) => setSelectedUser(option?.value || "")}
-                placeholder="Selecione um usuário"
-                isSearchable
+                value={selectedUser}
+                onChange={setSelectedUser}
+                forLoan
               />
             </div>
+
+            {selectedUserRules && (
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    Devolução até{" "}
+                    <strong>
+                      {previewDueDate(selectedUserRules).toLocaleDateString()}
+                    </strong>{" "}
+                    ({selectedUserRules.loan_duration_days} dias)
+                  </span>
+                </div>
+                {selectedUser?.active_loans_count !== undefined && (
+                  <p
+                    className={
+                      selectedUserAtLimit
+                        ? "text-destructive"
+                        : "text-muted-foreground"
+                    }
+                  >
+                    Empréstimos ativos: {selectedUser.active_loans_count} de{" "}
+                    {selectedUserRules.max_active_loans}
+                    {selectedUserAtLimit && " — limite atingido"}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           <DialogFooter>
@@ -993,7 +982,13 @@ const Loans = () => {
             </Button>
             <Button
               onClick={handleCreateLoan}
-              disabled={!selectedBook || !selectedUser || creatingLoan}
+              disabled={
+                !selectedBook ||
+                !selectedUser ||
+                !loanCopy ||
+                selectedUserAtLimit ||
+                creatingLoan
+              }
             >
               {creatingLoan ? (
                 <>
@@ -1011,68 +1006,78 @@ const Loans = () => {
         </DialogContent>
       </Dialog>
 
-      <div className="flex justify-center mt-8 space-x-2">
-        <Button
-          variant="outline"
-          disabled={page === 0}
-          onClick={() => setPage((p) => p - 1)}
-        >
-          Anterior
-        </Button>
-        <span className="px-4 py-2 text-sm text-muted-foreground">
-          Página {page + 1}
-        </span>
-        <Button
-          variant="outline"
-          disabled={filteredLoans.length < limit}
-          onClick={() => setPage((p) => p + 1)}
-        >
-          Próxima
-        </Button>
-      </div>
+      <Dialog
+        open={showReturnDialog}
+        onOpenChange={(open) => {
+          setShowReturnDialog(open);
+          if (!open) setReturnBarcode("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Devolver por código de barras</DialogTitle>
+            <DialogDescription>
+              Escaneie ou digite o código do exemplar devolvido.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            className="flex gap-2 py-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleReturnBarcode(returnBarcode);
+            }}
+          >
+            <Input
+              className="font-mono"
+              placeholder="Ex.: A000001"
+              value={returnBarcode}
+              onChange={(e) => setReturnBarcode(e.target.value)}
+              aria-label="Código do exemplar"
+              autoFocus
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => setScanTarget("return")}
+              aria-label="Escanear exemplar"
+            >
+              <ScanLine className="h-4 w-4" />
+            </Button>
+            <Button type="submit" disabled={!returnBarcode.trim() || lookingUpCopy}>
+              {lookingUpCopy ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Barcode className="h-4 w-4 mr-2" />
+              )}
+              Devolver
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <HoldsShelfDialog open={showHoldsShelf} onOpenChange={setShowHoldsShelf} />
+
+      <BarcodeScanner
+        title="Escanear exemplar"
+        onDetected={handleScannerDetection}
+        isVisible={scanTarget !== null}
+        onClose={() => setScanTarget(null)}
+      />
+
+      {!loansPersonId && !loading && (
+        <DataPagination
+          page={page}
+          pageSize={pageSize}
+          total={allLoansQuery.data?.total ?? null}
+          itemCount={loans.length}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+        />
+      )}
     </Layout>
   );
 };
-const customSelectStyles = {
-  control: (provided, state) => ({
-    ...provided,
-    backgroundColor: "hsl(var(--input))",
-    borderColor: state.isFocused ? "hsl(var(--ring))" : "hsl(var(--border))",
-    color: "hsl(var(--foreground))",
-    boxShadow: state.isFocused ? "0 0 0 1px hsl(var(--ring))" : "none",
-    "&:hover": {
-      borderColor: "hsl(var(--ring))",
-    },
-  }),
-  menu: (provided) => ({
-    ...provided,
-    backgroundColor: "hsl(var(--popover))",
-    color: "hsl(var(--popover-foreground))",
-    zIndex: 20,
-  }),
-  singleValue: (provided) => ({
-    ...provided,
-    color: "hsl(var(--foreground))",
-  }),
-  input: (provided) => ({
-    ...provided,
-    color: "hsl(var(--foreground))",
-  }),
-  option: (provided, state) => ({
-    ...provided,
-    backgroundColor: state.isFocused
-      ? "hsl(var(--muted))"
-      : "hsl(var(--popover))",
-    color: state.isDisabled
-      ? "hsl(var(--destructive))"
-      : "hsl(var(--foreground))",
-    cursor: state.isDisabled ? "not-allowed" : "pointer",
-    fontWeight: state.isDisabled ? 600 : 500,
-  }),
-  placeholder: (provided) => ({
-    ...provided,
-    color: "hsl(var(--muted-foreground))",
-  }),
-};
 
 export default Loans;
@@ -2,8 +2,13 @@
 import React, { useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import Layout from "@/components/Layout";
-import { useQuery } from "@tanstack/react-query";
-import { usersAPI, loansAPI } from "@/services/api";
+import { usePerson, useUpdatePerson } from "@/hooks/usePeople";
+import { usePersonLoans } from "@/hooks/useLoans";
+import { applyFieldErrors, getErrorMessage } from "@/services/apiErrors";
+import { getDueDate } from "@/services/loanPolicy";
+import { FeeLedger } from "@/components/FeeLedger";
+import LoanStatusBadge from "@/components/LoanStatusBadge";
+import { useLoanStatus } from "@/hooks/useLoanPolicy";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -37,10 +42,8 @@ import { Button } from "@/components/ui/button";
 import { Loader2, Save, User as UserIcon } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
-import { LoanStatus } from "@/types";
 
 // Define the form schema
 const profileFormSchema = z.object({
@@ -61,22 +64,13 @@ const Profile = () => {
   const userId = user?.id.toString() || "";
 
   // Fetch user data
-  const {
-    data: userData,
-    isLoading: isLoadingUser,
-    refetch: refetchUser,
-  } = useQuery({
-    queryKey: ["user", userId],
-    queryFn: () => usersAPI.getById(userId),
-    enabled: !!userId,
-  });
+  const { data: userData, isLoading: isLoadingUser } = usePerson(userId);
 
   // Fetch user loans
-  const { data: userLoans, isLoading: isLoadingLoans } = useQuery({
-    queryKey: ["userLoans", userId],
-    queryFn: () => loansAPI.getUserLoans(userId),
-    enabled: !!userId,
-  });
+  const { data: userLoans, isLoading: isLoadingLoans } =
+    usePersonLoans(userId);
+  const updatePerson = useUpdatePerson();
+  const { stateOf } = useLoanStatus();
 
   // Initialize form with user data
   const form = useForm<ProfileFormValues>({
@@ -95,52 +89,20 @@ const Profile = () => {
     if (!user) return;
 
     try {
-      const updatedUser = await usersAPI.update(userId, data);
+      const updatedUser = await updatePerson.mutateAsync({ id: userId, data });
       updateUser(updatedUser);
       toast.success("Perfil atualizado com sucesso!");
       setIsEditing(false);
-      refetchUser();
     } catch (error) {
-      toast.error("Erro ao atualizar perfil.");
       console.error("Error updating profile:", error);
-    }
-  };
-
-  const getLoanStatusText = (status: LoanStatus) => {
-    switch (status) {
-      case LoanStatus.PENDING:
-        return "Pendente";
-      case LoanStatus.CANCELED:
-        return "Cancelado";
-      case LoanStatus.EXTENDED:
-        return "Estendido";
-      case LoanStatus.IN_DAYS:
-        return "Em dia";
-      case LoanStatus.RETURNED:
-        return "Devolvido";
-      case LoanStatus.OVERDUE:
-        return "Atrasado";
-      default:
-        return status;
-    }
-  };
-
-  const getLoanStatusColor = (status: LoanStatus) => {
-    switch (status) {
-      case LoanStatus.PENDING:
-        return "bg-yellow-500";
-      case LoanStatus.CANCELED:
-        return "bg-gray-500";
-      case LoanStatus.EXTENDED:
-        return "bg-blue-500";
-      case LoanStatus.IN_DAYS:
-        return "bg-green-500";
-      case LoanStatus.RETURNED:
-        return "bg-green-700";
-      case LoanStatus.OVERDUE:
-        return "bg-red-500";
-      default:
-        return "bg-slate-500";
+      const showedInline = applyFieldErrors(
+        error,
+        ["name", "email"] as const,
+        (field, message) => form.setError(field, { type: "server", message })
+      );
+      if (!showedInline) {
+        toast.error(getErrorMessage(error, "Erro ao atualizar perfil."));
+      }
     }
   };
 
@@ -162,9 +124,10 @@ const Profile = () => {
         </div>
 
         <Tabs defaultValue="info" className="w-full">
-          <TabsList className="grid w-full md:w-[400px] grid-cols-2">
+          <TabsList className="grid w-full md:w-[520px] grid-cols-3">
             <TabsTrigger value="info">Informações</TabsTrigger>
             <TabsTrigger value="loans">Histórico de Empréstimos</TabsTrigger>
+            <TabsTrigger value="fees">Multas e taxas</TabsTrigger>
           </TabsList>
 
           <TabsContent value="info" className="mt-6">
@@ -307,13 +270,7 @@ const Profile = () => {
                               por {loan.book.author}
                             </p>
                           </div>
-                          <Badge
-                            className={`${getLoanStatusColor(
-                              loan.type
-                            )} hover:${getLoanStatusColor(loan.type)}`}
-                          >
-                            {getLoanStatusText(loan.type)}
-                          </Badge>
+                          <LoanStatusBadge state={stateOf(loan)} />
                         </div>
                         <Separator className="my-2" />
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
@@ -327,16 +284,9 @@ const Profile = () => {
                             <span className="font-medium">
                               Data prevista de devolução:
                             </span>{" "}
-                            {format(
-                              new Date(
-                                new Date(loan.start_date).setDate(
-                                  new Date(loan.start_date).getDate() +
-                                    loan.duration
-                                )
-                              ),
-                              "dd/MM/yyyy",
-                              { locale: ptBR }
-                            )}
+                            {format(getDueDate(loan), "dd/MM/yyyy", {
+                              locale: ptBR,
+                            })}
                           </div>
                           {loan.return_date && (
                             <div>
@@ -364,6 +314,22 @@ const Profile = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="fees" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Multas e taxas</CardTitle>
+                <CardDescription>
+                  Multas por atraso, cobranças de exemplares perdidos ou danificados e
+                  pagamentos. Com débito acima do limite da biblioteca, novos empréstimos
+                  ficam bloqueados até a quitação no balcão.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {user && <FeeLedger personId={Number(user.id)} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
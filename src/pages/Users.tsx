@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useMemo, useState } from "react";
 import Layout from "@/components/Layout";
 import { useAuth } from "@/context/AuthContext";
 import { Role, User } from "@/types";
@@ -9,6 +9,7 @@ import {
   ChevronDown,
   Filter,
   Loader2,
+  Receipt,
   Search,
   Settings,
   Shield,
@@ -56,8 +57,19 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useNavigate } from "react-router-dom";
 
-import { authAPI, usersAPI } from "@/services/api";
+import { usersAPI } from "@/services/api";
+import { getErrorMessage } from "@/services/apiErrors";
+import {
+  useChangeRole,
+  useDeletePerson,
+  usePeople,
+  useRegisterLibrarian,
+} from "@/hooks/usePeople";
 import { mockUsers } from "@/data/mockData";
+import { usePaginationParams } from "@/hooks/usePaginationParams";
+import DataPagination from "@/components/DataPagination";
+import { FeeLedgerDialog } from "@/components/FeeLedger";
+import { formatCurrency } from "@/services/fees";
 
 // Mock data for users
 
@@ -66,17 +78,15 @@ type UserFilter = "all" | "reader" | "librarian" | "admin";
 const Users = () => {
   const { user, hasRole } = useAuth();
 
-  const [users, setUsers] = useState<User[]>([]);
-  const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
-  const [filter, setFilter] = useState<UserFilter>("all");
+  const [filter, setFilterState] = useState<UserFilter>("all");
 
   // Dialog states
   const [showAddUserDialog, setShowAddUserDialog] = useState(false);
   const [showChangeRoleDialog, setShowChangeRoleDialog] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [newRole, setNewRole] = useState<Role>(Role.READER);
+  const [feesPerson, setFeesPerson] = useState<User | null>(null);
   const isLibrarianOrAdmin = hasRole([Role.LIBRARIAN, Role.ADMIN]);
 
   // Form data for new user
@@ -88,59 +98,43 @@ const Users = () => {
   });
 
   const [isProcessing, setIsProcessing] = useState(false);
-  const [page, setPage] = useState(0);
-  const [limit] = useState(10);
-  const navigate = useNavigate();
-
-  const fetchUsers = async (
-    search: string = "",
-    roleFilter: UserFilter = filter
-  ) => {
-    setLoading(true);
-
-    try {
-      let rolesParam: Role | undefined;
-      switch (roleFilter) {
-        case "reader":
-          rolesParam = Role.READER;
-          break;
-        case "librarian":
-          rolesParam = Role.LIBRARIAN;
-          break;
-        case "admin":
-          rolesParam = Role.ADMIN;
-          break;
-        default:
-          rolesParam = undefined;
-      }
+  const { page, pageSize, setPage, resetPage, setPageSize } =
+    usePaginationParams(10);
 
-      const allUsers = await usersAPI.getAll(page, limit, search, rolesParam);
-      setUsers(allUsers);
-    } catch (error) {
-      toast.error("Erro ao carregar usuários.");
-      console.error(error);
-    } finally {
-      setLoading(false);
-    }
+  const setFilter = (next: UserFilter) => {
+    setFilterState(next);
+    resetPage();
   };
+  const navigate = useNavigate();
 
-  useEffect(() => {
-    console.log("Fetch users with:", searchQuery);
-    fetchUsers(searchQuery, filter);
-  }, [page]);
-
-  useEffect(() => {
-    fetchUsers(searchQuery, filter);
-  }, [filter, searchQuery, page]);
+  const rolesParam: Role | undefined =
+    filter === "reader"
+      ? Role.READER
+      : filter === "librarian"
+      ? Role.LIBRARIAN
+      : filter === "admin"
+      ? Role.ADMIN
+      : undefined;
+
+  const { data: usersPage, isLoading: loading } = usePeople({
+    page,
+    limit: pageSize,
+    query: searchQuery,
+    roles: rolesParam,
+  });
+  const users = useMemo(() => usersPage?.items ?? [], [usersPage]);
+  const registerLibrarian = useRegisterLibrarian();
+  const changeRole = useChangeRole();
+  const deletePerson = useDeletePerson();
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value.toLowerCase();
     setSearchQuery(query);
-    setPage(0);
+    resetPage();
   };
 
   // Apply filters and search
-  useEffect(() => {
+  const filteredUsers = useMemo(() => {
     let result = [...users];
 
     // Apply role filter
@@ -163,7 +157,7 @@ const Users = () => {
       );
     }
 
-    setFilteredUsers(result);
+    return result;
   }, [users, filter, searchQuery]);
 
   // Handle adding a new user
@@ -179,10 +173,10 @@ const Users = () => {
 
     try {
       if (role === Role.LIBRARIAN) {
-        await authAPI.registerLibrarian(name, email, password);
+        await registerLibrarian.mutateAsync({ name, email, password });
       } else {
         // se quiser criar um endpoint futuro para leitores, troque aqui
-        await authAPI.registerLibrarian(name, email, password); // por enquanto usa o mesmo
+        await registerLibrarian.mutateAsync({ name, email, password }); // por enquanto usa o mesmo
       }
 
       toast.success(`Usuário "${name}" adicionado com sucesso`);
@@ -193,9 +187,8 @@ const Users = () => {
         role: Role.READER,
       });
       setShowAddUserDialog(false);
-      fetchUsers(); // recarrega lista
     } catch (error) {
-      toast.error("Erro ao criar usuário");
+      toast.error(getErrorMessage(error, "Erro ao criar usuário"));
       console.error("Erro:", error);
     } finally {
       setIsProcessing(false);
@@ -215,23 +208,14 @@ const Users = () => {
     setIsProcessing(true);
 
     try {
-      const updatedUser = await usersAPI.changeRole(
-        Number(selectedUserId),
-        newRole
-      );
-
-      // Atualiza o usuário no estado local
-      setUsers((prev) =>
-        prev.map((user) =>
-          user.id === updatedUser.id
-            ? { ...user, role: updatedUser.role }
-            : user
-        )
-      );
+      const updatedUser = await changeRole.mutateAsync({
+        id: Number(selectedUserId),
+        role: newRole,
+      });
 
       toast.success(`Função de ${updatedUser.name} atualizada com sucesso`);
     } catch (error) {
-      toast.error("Erro ao atualizar função do usuário");
+      toast.error(getErrorMessage(error, "Erro ao atualizar função do usuário"));
       console.error("Erro ao mudar função:", error);
     } finally {
       setIsProcessing(false);
@@ -272,17 +256,15 @@ const handleDeleteUser = async (userId: number) => {
         return;
       }
 
-      await usersAPI.delete(userId);
-
       const userToDelete = users.find((u) => u.id === userId);
-      setUsers((prev) => prev.filter((user) => user.id !== userId));
+      await deletePerson.mutateAsync(userId);
 
       if (userToDelete) {
         toast.success(`Usuário "${userToDelete.name}" excluído com sucesso`);
       }
     } catch (error) {
       console.error("Erro ao excluir usuário:", error);
-      toast.error("Erro ao excluir o usuário.");
+      toast.error(getErrorMessage(error, "Erro ao excluir o usuário."));
     } finally {
       setIsProcessing(false);
     }
@@ -422,6 +404,11 @@ const handleDeleteUser = async (userId: number) => {
                       <th className="px-4 py-3 text-left text-sm font-medium text-muted-foreground">
                         Função
                       </th>
+                      {isLibrarianOrAdmin && (
+                        <th className="px-4 py-3 text-left text-sm font-medium text-muted-foreground">
+                          Débito
+                        </th>
+                      )}
 
                       <th className="px-4 py-3 text-right text-sm font-medium text-muted-foreground">
                         {user.role === Role.ADMIN ? "Ações" : ""}
@@ -446,6 +433,25 @@ const handleDeleteUser = async (userId: number) => {
                           {getRoleBadge(userItem.role)}
                         </td>
 
+                        {isLibrarianOrAdmin && (
+                          <td className="px-4 py-3 text-sm">
+                            <span
+                              className={
+                                userItem.blocked
+                                  ? "text-destructive font-medium"
+                                  : userItem.balance
+                                  ? ""
+                                  : "text-muted-foreground"
+                              }
+                            >
+                              {formatCurrency(userItem.balance ?? 0)}
+                            </span>
+                            {userItem.blocked && (
+                              <div className="text-xs text-destructive">Bloqueado</div>
+                            )}
+                          </td>
+                        )}
+
                         <td className="px-4 py-3 text-right">
                           {canEditUser(userItem.id.toString()) && (
                             <DropdownMenu>
@@ -480,6 +486,14 @@ const handleDeleteUser = async (userId: number) => {
                                   <BookCopy className="h-4 w-4 mr-2" />
                                   Ver Empréstimos
                                 </DropdownMenuItem>
+                                {isLibrarianOrAdmin && (
+                                  <DropdownMenuItem
+                                    onClick={() => setFeesPerson(userItem)}
+                                  >
+                                    <Receipt className="h-4 w-4 mr-2" />
+                                    Multas e taxas
+                                  </DropdownMenuItem>
+                                )}
 
                                 {hasRole(Role.ADMIN) && (
                                   <AlertDialog>
@@ -511,7 +525,7 @@ const handleDeleteUser = async (userId: number) => {
                                         <AlertDialogAction
                                           className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                                           onClick={() =>
-                                            handleDeleteUser(userItem.id)
+                                            handleDeleteUser(Number(userItem.id))
                                           }
                                           disabled={isProcessing}
                                         >
@@ -747,25 +761,21 @@ const handleDeleteUser = async (userId: number) => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
-      <div className="flex justify-center mt-8 space-x-2">
-        <Button
-          variant="outline"
-          disabled={page === 0}
-          onClick={() => setPage((p) => p - 1)}
-        >
-          Anterior
-        </Button>
-        <span className="px-4 py-2 text-sm text-muted-foreground">
-          Página {page + 1}
-        </span>
-        <Button
-          variant="outline"
-          disabled={filteredUsers.length < limit}
-          onClick={() => setPage((p) => p + 1)}
-        >
-          Próxima
-        </Button>
-      </div>
+      {!loading && (
+        <DataPagination
+          page={page}
+          pageSize={pageSize}
+          total={usersPage?.total ?? null}
+          itemCount={users.length}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+        />
+      )}
+
+      <FeeLedgerDialog
+        person={feesPerson}
+        onOpenChange={(open) => !open && setFeesPerson(null)}
+      />
     </Layout>
   );
 };
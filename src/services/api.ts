@@ -1,14 +1,49 @@
-
-import axios from 'axios';
-import { Book, Loan, User, Role, LoanStatus, SummaryResponse, RecentActivityResponse } from '@/types';
+import axios, { AxiosError, AxiosRequestConfig, CreateAxiosDefaults } from 'axios';
+import {
+    Book,
+    BookCopy,
+    BookFacets,
+    BookSearchFilters,
+    BookSearchResult,
+    CopyLookup,
+    FeeEntry,
+    FeeLedger,
+    FeeRequest,
+    Hold,
+    HoldStatus,
+    Loan,
+    LoanPolicy,
+    User,
+    Role,
+    LoanStatus,
+    Paginated,
+    SummaryResponse,
+    RecentActivityResponse,
+} from '@/types';
 import { toast } from "sonner";
+import { mockAdapter } from './mockBackend';
+import { getEnvironment } from './environment';
+import { getAccessToken, getRefreshToken, setTokens } from './tokenStorage';
+import { withSessionLock } from './sessionSync';
+import { toApiError, UnauthorizedError } from './apiErrors';
+import { parseCatalogQuery } from './catalogQuery';
+
+export interface AuthTokens {
+    access_token: string;
+    refresh_token: string;
+}
 
 let logoutCallback: (() => void) | null = null;
+let tokenRefreshedCallback: ((tokens: AuthTokens) => void) | null = null;
 
 export const setLogoutCallback = (cb: () => void) => {
     logoutCallback = cb;
 };
 
+export const setTokenRefreshedCallback = (cb: (tokens: AuthTokens) => void) => {
+    tokenRefreshedCallback = cb;
+};
+
 export const handleUnauthorized = () => {
     if (logoutCallback) {
         logoutCallback();
@@ -17,18 +52,29 @@ export const handleUnauthorized = () => {
     }
 };
 
+const environment = getEnvironment();
+
+const createClient = (config: CreateAxiosDefaults = {}) =>
+    axios.create({
+        baseURL: environment.apiBaseUrl,
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        // Modo offline: as requisições são atendidas pelo backend mock no navegador
+        ...(environment.useMockBackend ? { adapter: mockAdapter } : {}),
+        ...config
+    });
+
 // Base API instance
-const api = axios.create({
-    baseURL: 'http://localhost:8080/api/v1',
-    headers: {
-        'Content-Type': 'application/json'
-    }
-});
+const api = createClient();
+
+// Instância sem interceptors, usada apenas para renovar o token
+const refreshClient = createClient();
 
 // Add token to requests if available
 api.interceptors.request.use(
     (config) => {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (token) {
             config.headers.Authorization = `Bearer ${token}`;
         }
@@ -37,99 +83,228 @@ api.interceptors.request.use(
     (error) => Promise.reject(error)
 );
 
+// Renovação "single-flight": todas as requisições que recebem 401 enquanto
+// o refresh está em andamento aguardam a mesma promise e são reenviadas depois.
+let refreshPromise: Promise<string> | null = null;
+
+export const refreshAccessToken = (): Promise<string> => {
+    if (!refreshPromise) {
+        const previousAccessToken = getAccessToken();
+
+        refreshPromise = withSessionLock(async () => {
+            // Outra aba pode ter renovado enquanto esperávamos o lock
+            const currentAccessToken = getAccessToken();
+            const refreshToken = getRefreshToken();
+            if (currentAccessToken && currentAccessToken !== previousAccessToken && refreshToken) {
+                tokenRefreshedCallback?.({ access_token: currentAccessToken, refresh_token: refreshToken });
+                return currentAccessToken;
+            }
+
+            if (!refreshToken) {
+                throw new Error('Nenhum refresh token disponível');
+            }
+
+            const response = await refreshClient.post<AuthTokens>('/auth/refresh-token', {
+                refresh_token: refreshToken
+            });
+            const tokens = {
+                access_token: response.data.access_token,
+                // Servidores sem rotação devolvem só o access token
+                refresh_token: response.data.refresh_token ?? refreshToken
+            };
+
+            setTokens(tokens.access_token, tokens.refresh_token);
+            tokenRefreshedCallback?.(tokens);
+            return tokens.access_token;
+        }).finally(() => {
+            refreshPromise = null;
+        });
+    }
+
+    return refreshPromise;
+};
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        // Quando true, o interceptor não exibe o toast de erro global:
+        // a página trata o ApiError (ex.: erros de validação no formulário)
+        suppressErrorToast?: boolean;
+    }
+}
 
+export type RequestOptions = Pick<AxiosRequestConfig, 'suppressErrorToast'>;
+
+type RetriableRequestConfig = AxiosRequestConfig & { _retry?: boolean };
 
 api.interceptors.response.use(
     (response) => response,
-    (error) => {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || 'Ocorreu um erro';
+    async (error: AxiosError) => {
+        const apiError = toApiError(error);
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+        const isAuthRequest = originalRequest?.url?.startsWith('/auth/');
+
+        if (apiError instanceof UnauthorizedError && !isAuthRequest) {
+            if (originalRequest && !originalRequest._retry) {
+                originalRequest._retry = true;
+
+                try {
+                    const accessToken = await refreshAccessToken();
+                    originalRequest.headers = {
+                        ...originalRequest.headers,
+                        Authorization: `Bearer ${accessToken}`
+                    };
+                    return api(originalRequest);
+                } catch {
+                    // segue para o logout abaixo
+                }
+            }
 
-        if (status === 401) {
             toast.info("Sua sessão expirou. Faça login novamente.");
             handleUnauthorized(); // 🔥 chama logout registrado
-        } else {
-            toast.error(message);
+            return Promise.reject(apiError);
+        }
+
+        if (!originalRequest?.suppressErrorToast) {
+            toast.error(apiError.message);
         }
 
-        return Promise.reject(error);
+        return Promise.reject(apiError);
     }
 );
 
-// Handle response errors
-// api.interceptors.response.use(
-//     (response) => response,
-//     (error) => {
-//         const message = error.response?.data?.message || 'An error occurred';
-//         toast.error(message);
-//         return Promise.reject(error);
-//     }
-// );
+// Listagens: o servidor pode responder com o envelope { items, total, page,
+// pageSize } (page base 1) ou, nas versões antigas, só com o array.
+interface PaginatedResponse<T> {
+    items: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+interface BookSearchResponse extends PaginatedResponse<Book> {
+    facets?: BookFacets;
+}
+
+const toPaginated = <T>(data: T[] | PaginatedResponse<T>, page: number, limit: number): Paginated<T> => {
+    if (Array.isArray(data)) {
+        return { items: data, total: null, page, pageSize: limit };
+    }
+
+    return {
+        items: data.items ?? [],
+        total: data.total ?? null,
+        page: data.page ? data.page - 1 : page,
+        pageSize: data.pageSize ?? limit,
+    };
+};
 
 // Auth API
 export const authAPI = {
-    login: async (email: string, password: string) => {
-        const response = await api.post('/auth/login', { email, password });
+    login: async (email: string, password: string, options: RequestOptions = {}) => {
+        const response = await api.post<AuthTokens>('/auth/login', { email, password }, options);
         return response.data;
     },
-    register: async (name: string, email: string, password: string) => {
-        const response = await api.post('/auth/register', { name, email, password });
+    register: async (name: string, email: string, password: string, options: RequestOptions = {}) => {
+        const response = await api.post('/auth/register', { name, email, password }, options);
         return response.data;
     },
-    registerLibrarian: async (name: string, email: string, password: string) => {
-        const response = await api.post('/auth/register/librarian', { name, email, password });
+    registerLibrarian: async (name: string, email: string, password: string, options: RequestOptions = {}) => {
+        const response = await api.post('/auth/register/librarian', { name, email, password }, options);
         return response.data;
     }
 };
 
 // Books API
 export const booksAPI = {
-    getAll: async (page = 0, limit = 12, query = "") => {
-        const response = await api.get<Book[]>('/books', {
+    getAll: async (page = 0, limit = 12, query = "", filters: BookSearchFilters = {}): Promise<BookSearchResult> => {
+        // Consultas avançadas vão como filtro estruturado em "where"; texto simples continua em "q"
+        const parsed = parseCatalogQuery(query);
+        const search = parsed.isAdvanced && parsed.ast ? { where: JSON.stringify(parsed.ast) } : { q: query };
+        const response = await api.get<Book[] | BookSearchResponse>('/books', {
             params: {
                 page: page + 1,
                 limit,
-                q: query
+                ...search,
+                ...filters,
             }
         });
-        return response.data;
+        const facets = Array.isArray(response.data) ? null : response.data.facets ?? null;
+        return { ...toPaginated(response.data, page, limit), facets };
     },
 
-    getById: async (id: string) => {
-        const response = await api.get<Book>(`/books/${id}`);
+    getById: async (id: string, options: RequestOptions = {}) => {
+        const response = await api.get<Book>(`/books/${id}`, options);
+        return response.data;
+    },
+    create: async (book: Partial<Book>, options: RequestOptions = {}) => {
+        const response = await api.post<Book>('/books', book, options);
         return response.data;
     },
-    create: async (book: Partial<Book>) => {
-        const response = await api.post<Book>('/books', book);
-        // Add a success toast when book is created
-        toast.success(`Book "${book.title}" added successfully`);
+    update: async (id: number, book: Partial<Book>, options: RequestOptions = {}) => {
+        const response = await api.put<Book>(`/books/${id}`, book, options);
         return response.data;
     },
-    update: async (id: number, book: Partial<Book>) => {
-        const response = await api.put<Book>(`/books/${id}`, book);
-        // Add a success toast when book is updated
-        toast.success(`Book "${book.title}" updated successfully`);
+    uploadCover: async (id: number, file: File, options: RequestOptions = {}) => {
+        const formData = new FormData();
+        formData.append('file', file);
+        // O Content-Type padrão (JSON) faria o axios serializar o FormData
+        const response = await api.post<Book>(`/books/${id}/cover`, formData, {
+            ...options,
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
         return response.data;
     },
-    delete: async (id: number) => {
-        const response = await api.delete(`/books/${id}`);
-        toast.success('Book deleted successfully');
+    delete: async (id: number, options: RequestOptions = {}) => {
+        const response = await api.delete(`/books/${id}`, options);
         return response.data;
     }
 };
 
+// Copies API
+export type CopyInput = Partial<Omit<BookCopy, 'id' | 'book_id'>>;
+
+export const copiesAPI = {
+    getByBook: async (bookId: number) => {
+        const response = await api.get<BookCopy[]>(`/books/${bookId}/copies`);
+        return response.data;
+    },
+    // Exemplar lido pelo scanner, com o livro e o empréstimo em aberto
+    getByBarcode: async (barcode: string, options: RequestOptions = {}) => {
+        const response = await api.get<CopyLookup>(`/copies/barcode/${encodeURIComponent(barcode)}`, options);
+        return response.data;
+    },
+    create: async (bookId: number, copy: CopyInput, options: RequestOptions = {}) => {
+        const response = await api.post<BookCopy>(`/books/${bookId}/copies`, copy, options);
+        return response.data;
+    },
+    update: async (id: number, copy: CopyInput, options: RequestOptions = {}) => {
+        const response = await api.put<BookCopy>(`/copies/${id}`, copy, options);
+        return response.data;
+    },
+    delete: async (id: number, options: RequestOptions = {}) => {
+        const response = await api.delete(`/copies/${id}`, options);
+        return response.data;
+    },
+};
+
 // Loans API
 export const loansAPI = {
-    create: async (bookId: string, personId: string,) => {
-        const response = await api.post<Loan>(`/loan/${bookId}/${personId}`);
+    // O empréstimo é sempre de um exemplar específico, identificado pelo tombo
+    create: async (copyBarcode: string, personId: string, options: RequestOptions = {}) => {
+        const response = await api.post<Loan>('/loan', { copy_barcode: copyBarcode, person_id: Number(personId) }, options);
+        return response.data;
+    },
+    // Autoatendimento: o servidor escolhe o exemplar (o reservado, se houver)
+    borrow: async (bookId: number, personId: number | string, options: RequestOptions = {}) => {
+        const response = await api.post<Loan>(`/people/${personId}/loans`, { book_id: bookId }, options);
         return response.data;
     },
-    extend: async (loanId: number) => {
-        const response = await api.patch<Loan>(`/loan/${loanId}/extend`);
+    extend: async (loanId: number, options: RequestOptions = {}) => {
+        const response = await api.patch<Loan>(`/loan/${loanId}/extend`, undefined, options);
         return response.data;
     },
-    return: async (loanId: number) => {
-        const response = await api.patch<Loan>(`/loan/${loanId}/return`);
+    return: async (loanId: number, options: RequestOptions = {}) => {
+        const response = await api.patch<Loan>(`/loan/${loanId}/return`, undefined, options);
         return response.data;
     },
     getUserLoans: async (userId: string) => {
@@ -147,9 +322,9 @@ export const loansAPI = {
         limit?: number;
         person_id?: number;
         book_id?: number;
-        types?: LoanStatus;
+        types?: LoanStatus | string;
     }) => {
-        const response = await api.get<Loan[]>('/loan', {
+        const response = await api.get<Loan[] | PaginatedResponse<Loan>>('/loan', {
             params: {
                 page: page + 1,
                 limit,
@@ -158,7 +333,7 @@ export const loansAPI = {
                 types,
             },
         });
-        return response.data;
+        return toPaginated(response.data, page, limit);
     },
 
     getActivity: async (params: { maximum_date: string; page: number; limit: number }): Promise<RecentActivityResponse[]> => {
@@ -167,6 +342,55 @@ export const loansAPI = {
     },
 };
 
+// Holds API
+export const holdsAPI = {
+    // Sem personId, a reserva é da pessoa logada; a equipe pode reservar para outra
+    create: async (bookId: number, personId?: number, options: RequestOptions = {}) => {
+        const response = await api.post<Hold>(`/books/${bookId}/holds`, { person_id: personId }, options);
+        return response.data;
+    },
+    cancel: async (holdId: number, options: RequestOptions = {}) => {
+        const response = await api.patch<Hold>(`/holds/${holdId}/cancel`, undefined, options);
+        return response.data;
+    },
+    getByPerson: async (personId: number) => {
+        const response = await api.get<Hold[]>(`/people/${personId}/holds`);
+        return response.data;
+    },
+    // Estante de reservas e filas em aberto (equipe)
+    getAll: async (statuses: HoldStatus[] = []) => {
+        const response = await api.get<Hold[]>('/holds', {
+            params: { status: statuses.length > 0 ? statuses.join(',') : undefined },
+        });
+        return response.data;
+    },
+};
+
+// Fees API: extrato de multas e taxas de cada leitor
+export const feesAPI = {
+    getByPerson: async (personId: number) => {
+        const response = await api.get<FeeLedger>(`/people/${personId}/fees`);
+        return response.data;
+    },
+    // Cobranças de perda/dano, pagamentos e isenções (equipe)
+    create: async (personId: number, fee: FeeRequest, options: RequestOptions = {}) => {
+        const response = await api.post<FeeEntry>(`/people/${personId}/fees`, fee, options);
+        return response.data;
+    },
+};
+
+// Loan policy API
+export const policyAPI = {
+    get: async () => {
+        const response = await api.get<LoanPolicy>('/loan-policy');
+        return response.data;
+    },
+    update: async (policy: LoanPolicy, options: RequestOptions = {}) => {
+        const response = await api.put<LoanPolicy>('/loan-policy', policy, options);
+        return response.data;
+    },
+};
+
 // Users API
 export const usersAPI = {
 
@@ -180,8 +404,8 @@ export const usersAPI = {
             params.q = query.trim();
         }
 
-        const response = await api.get<User[]>("/people", { params });
-        return response.data;
+        const response = await api.get<User[] | PaginatedResponse<User>>("/people", { params });
+        return toPaginated(response.data, page, limit);
     },
 
     getById: async (id: string) => {
@@ -192,16 +416,16 @@ export const usersAPI = {
         const response = await api.get(`/people/${id}/loans`);
         return response.data;
     },
-    update: async (id: string, user: Partial<User>) => {
-        const response = await api.put<User>(`/people/${id}`, user);
+    update: async (id: string, user: Partial<User>, options: RequestOptions = {}) => {
+        const response = await api.put<User>(`/people/${id}`, user, options);
         return response.data;
     },
-    delete: async (id: number) => {
-        const response = await api.delete(`/people/${id}`);
+    delete: async (id: number, options: RequestOptions = {}) => {
+        const response = await api.delete(`/people/${id}`, options);
         return response.data;
     },
-    changeRole: async (id: number, role: Role) => {
-        const response = await api.patch<User>(`/people/${id}/${role}`);
+    changeRole: async (id: number, role: Role, options: RequestOptions = {}) => {
+        const response = await api.patch<User>(`/people/${id}/${role}`, undefined, options);
         return response.data;
     },
 };
@@ -213,4 +437,20 @@ export const summaryAPI = {
     },
 };
 
+// Health check: qualquer resposta HTTP (mesmo 401/404) indica que o servidor
+// está no ar; só falhas de rede contam como indisponível. Usa uma instância
+// própria para não disparar os toasts e o logout do interceptor global.
+const healthClient = createClient({ timeout: 5000 });
+
+export const healthAPI = {
+    check: async (): Promise<boolean> => {
+        try {
+            await healthClient.get('/health');
+            return true;
+        } catch (error) {
+            return axios.isAxiosError(error) && !!error.response;
+        }
+    },
+};
+
 export default api;
@@ -0,0 +1,138 @@
+import axios from 'axios';
+
+// Hierarquia de erros da API. O interceptor de resposta converte todo erro do
+// axios em uma destas classes, então as páginas podem usar instanceof em vez
+// de inspecionar error.response manualmente.
+
+export type FieldErrors = Record<string, string>;
+
+interface ErrorResponseBody {
+    message?: string;
+    error?: string;
+    // Formatos aceitos: [{ field, message }] ou { campo: mensagem }
+    errors?: { field: string; message?: string; defaultMessage?: string }[] | FieldErrors;
+    fieldErrors?: FieldErrors;
+}
+
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public status: number | null = null,
+        public fieldErrors: FieldErrors = {},
+        public cause?: unknown
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+
+    get hasFieldErrors() {
+        return Object.keys(this.fieldErrors).length > 0;
+    }
+}
+
+export class ValidationError extends ApiError {
+    name = 'ValidationError';
+}
+
+export class UnauthorizedError extends ApiError {
+    name = 'UnauthorizedError';
+}
+
+export class ForbiddenError extends ApiError {
+    name = 'ForbiddenError';
+}
+
+export class NotFoundError extends ApiError {
+    name = 'NotFoundError';
+}
+
+export class ConflictError extends ApiError {
+    name = 'ConflictError';
+}
+
+export class ServerError extends ApiError {
+    name = 'ServerError';
+}
+
+export class NetworkError extends ApiError {
+    name = 'NetworkError';
+}
+
+const DEFAULT_MESSAGES: Record<string, string> = {
+    validation: 'Dados inválidos. Verifique os campos destacados.',
+    unauthorized: 'Sua sessão expirou. Faça login novamente.',
+    forbidden: 'Você não tem permissão para realizar esta ação.',
+    notFound: 'Registro não encontrado.',
+    conflict: 'A operação conflita com o estado atual do registro.',
+    server: 'Erro interno do servidor. Tente novamente em instantes.',
+    network: 'Não foi possível conectar ao servidor.',
+    unknown: 'Ocorreu um erro',
+};
+
+const parseFieldErrors = (body: ErrorResponseBody | undefined): FieldErrors => {
+    if (!body) return {};
+    if (body.fieldErrors) return body.fieldErrors;
+
+    if (Array.isArray(body.errors)) {
+        return body.errors.reduce<FieldErrors>((acc, item) => {
+            if (item.field && !acc[item.field]) {
+                acc[item.field] = item.message ?? item.defaultMessage ?? DEFAULT_MESSAGES.validation;
+            }
+            return acc;
+        }, {});
+    }
+
+    return body.errors ?? {};
+};
+
+export const toApiError = (error: unknown): ApiError => {
+    if (error instanceof ApiError) return error;
+
+    if (!axios.isAxiosError(error)) {
+        return new ApiError(error instanceof Error ? error.message : DEFAULT_MESSAGES.unknown, null, {}, error);
+    }
+
+    if (!error.response) {
+        return new NetworkError(DEFAULT_MESSAGES.network, null, {}, error);
+    }
+
+    const { status } = error.response;
+    const body = error.response.data as ErrorResponseBody | undefined;
+    const fieldErrors = parseFieldErrors(body);
+    const serverMessage = body?.message || body?.error;
+    const build = (ErrorClass: typeof ApiError, fallback: string) =>
+        new ErrorClass(serverMessage || fallback, status, fieldErrors, error);
+
+    if (status === 400 || status === 422) return build(ValidationError, DEFAULT_MESSAGES.validation);
+    if (status === 401) return build(UnauthorizedError, DEFAULT_MESSAGES.unauthorized);
+    if (status === 403) return build(ForbiddenError, DEFAULT_MESSAGES.forbidden);
+    if (status === 404) return build(NotFoundError, DEFAULT_MESSAGES.notFound);
+    if (status === 409) return build(ConflictError, DEFAULT_MESSAGES.conflict);
+    if (status >= 500) return build(ServerError, DEFAULT_MESSAGES.server);
+
+    return build(ApiError, DEFAULT_MESSAGES.unknown);
+};
+
+// Mensagem amigável para qualquer erro capturado em um catch
+export const getErrorMessage = (error: unknown, fallback = DEFAULT_MESSAGES.unknown) =>
+    toApiError(error).message || fallback;
+
+// Distribui os erros por campo do servidor para o formulário. Retorna true se
+// algum campo conhecido recebeu mensagem (a página não precisa de um toast).
+export const applyFieldErrors = <TField extends string>(
+    error: unknown,
+    fields: readonly TField[],
+    setFieldError: (field: TField, message: string) => void
+): boolean => {
+    const { fieldErrors } = toApiError(error);
+    let applied = false;
+
+    fields.forEach((field) => {
+        if (fieldErrors[field]) {
+            setFieldError(field, fieldErrors[field]);
+            applied = true;
+        }
+    });
+
+    return applied;
+};
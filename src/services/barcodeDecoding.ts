@@ -0,0 +1,167 @@
+import {
+    BarcodeFormat,
+    BinaryBitmap,
+    BrowserMultiFormatReader,
+    DecodeHintType,
+    HTMLCanvasElementLuminanceSource,
+    HybridBinarizer,
+    MultiFormatReader,
+} from '@zxing/library';
+
+// Leitura de códigos de barras compartilhada pela câmera (useScanner) e pelas
+// fotos enviadas quando não há câmera disponível.
+
+// EAN/UPC dos livros e CODE 39/128 das etiquetas de exemplar
+export const SCANNER_FORMATS = [
+    BarcodeFormat.EAN_13,
+    BarcodeFormat.EAN_8,
+    BarcodeFormat.UPC_A,
+    BarcodeFormat.UPC_E,
+    BarcodeFormat.CODE_39,
+    BarcodeFormat.CODE_128,
+];
+
+export const SCANNER_FORMAT_LABELS: Partial<Record<BarcodeFormat, string>> = {
+    [BarcodeFormat.EAN_13]: 'EAN-13',
+    [BarcodeFormat.EAN_8]: 'EAN-8',
+    [BarcodeFormat.UPC_A]: 'UPC-A',
+    [BarcodeFormat.UPC_E]: 'UPC-E',
+    [BarcodeFormat.CODE_39]: 'Code 39',
+    [BarcodeFormat.CODE_128]: 'Code 128',
+};
+
+export const createScannerHints = () => {
+    const hints = new Map<DecodeHintType, unknown>();
+    hints.set(DecodeHintType.POSSIBLE_FORMATS, SCANNER_FORMATS);
+    hints.set(DecodeHintType.TRY_HARDER, true);
+    return hints;
+};
+
+// Área de leitura da câmera, em frações da pré-visualização. O BarcodeScanner
+// desenha o quadro com as mesmas medidas e só essa parte do vídeo é decodificada.
+export const SCAN_REGION = { x: 0.15, y: 0.25, width: 0.7, height: 0.5 };
+
+// A pré-visualização usa object-cover e corta as bordas do vídeo: converte um
+// ponto dela (em frações) para pixels do quadro da câmera
+export const previewPointToVideo = (video: HTMLVideoElement, x: number, y: number) => {
+    const scale = Math.max(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+    const visibleWidth = video.clientWidth / scale;
+    const visibleHeight = video.clientHeight / scale;
+    return {
+        x: (video.videoWidth - visibleWidth) / 2 + x * visibleWidth,
+        y: (video.videoHeight - visibleHeight) / 2 + y * visibleHeight,
+    };
+};
+
+// Leitor da câmera que decodifica só o recorte do quadro: menos pixels por
+// tentativa e nada de códigos vizinhos fora da área
+export class RegionBarcodeReader extends BrowserMultiFormatReader {
+    private regionCanvas: HTMLCanvasElement | null = null;
+
+    createBinaryBitmap(mediaElement: HTMLVideoElement | HTMLImageElement) {
+        if (!(mediaElement instanceof HTMLVideoElement) || !mediaElement.videoWidth || !mediaElement.clientWidth) {
+            return super.createBinaryBitmap(mediaElement);
+        }
+
+        const start = previewPointToVideo(mediaElement, SCAN_REGION.x, SCAN_REGION.y);
+        const end = previewPointToVideo(
+            mediaElement,
+            SCAN_REGION.x + SCAN_REGION.width,
+            SCAN_REGION.y + SCAN_REGION.height
+        );
+        const width = Math.round(end.x - start.x);
+        const height = Math.round(end.y - start.y);
+
+        this.regionCanvas = this.regionCanvas ?? document.createElement('canvas');
+        this.regionCanvas.width = width;
+        this.regionCanvas.height = height;
+        this.regionCanvas
+            .getContext('2d')
+            .drawImage(mediaElement, start.x, start.y, width, height, 0, 0, width, height);
+
+        return new BinaryBitmap(new HybridBinarizer(new HTMLCanvasElementLuminanceSource(this.regionCanvas, true)));
+    }
+}
+
+// Nenhuma das variações da foto trouxe um código legível
+export class BarcodeNotFoundError extends Error {
+    name = 'BarcodeNotFoundError';
+
+    constructor(readonly attempts: number) {
+        super(
+            `Nenhum código de barras encontrado na imagem (${attempts} tentativas). Formatos tentados: ${SCANNER_FORMATS.map(
+                (format) => SCANNER_FORMAT_LABELS[format]
+            ).join(', ')}.`
+        );
+    }
+}
+
+// Fotos de celular são grandes; reduzir acelera a leitura sem perder as barras
+const MAX_IMAGE_SIDE = 1600;
+// Fotos tortas ou de lado: o leitor de barras tolera pouca inclinação
+const ROTATIONS = [0, 90, 15, -15];
+// Capas brilhantes ou com pouca luz: mais contraste e sem cor
+const FILTERS = ['none', 'grayscale(1) contrast(1.8)', 'grayscale(1) contrast(3) brightness(1.2)'];
+
+const loadImage = (file: File) =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(image);
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Não foi possível abrir a imagem'));
+        };
+        image.src = url;
+    });
+
+const drawVariant = (image: HTMLImageElement, rotation: number, filter: string) => {
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    const radians = (rotation * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * cos + height * sin);
+    canvas.height = Math.round(width * sin + height * cos);
+
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.filter = filter;
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate(radians);
+    context.drawImage(image, -width / 2, -height / 2, width, height);
+    return canvas;
+};
+
+// Lê o código de uma foto, tentando rotações e contrastes até algum funcionar
+export const decodeImageFile = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+        throw new Error('Selecione um arquivo de imagem (JPG, PNG ou WebP)');
+    }
+
+    const image = await loadImage(file);
+    const reader = new MultiFormatReader();
+    reader.setHints(createScannerHints());
+    let attempts = 0;
+
+    for (const filter of FILTERS) {
+        for (const rotation of ROTATIONS) {
+            attempts += 1;
+            try {
+                const source = new HTMLCanvasElementLuminanceSource(drawVariant(image, rotation, filter));
+                return reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(source))).getText();
+            } catch {
+                // Nada legível nesta variação; segue para a próxima
+            }
+        }
+    }
+
+    throw new BarcodeNotFoundError(attempts);
+};
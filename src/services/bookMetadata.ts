@@ -0,0 +1,93 @@
+import { Book, BookContributor, ContributorRole, CopyCondition, CopyStatus, Hold, HoldStatus } from '@/types';
+
+// Rótulos e regras dos metadados bibliográficos, compartilhados entre o
+// formulário, a página do livro, a busca e o backend simulado.
+
+export const LANGUAGE_LABELS: Record<string, string> = {
+    pt: 'Português',
+    en: 'Inglês',
+    es: 'Espanhol',
+    fr: 'Francês',
+    de: 'Alemão',
+    it: 'Italiano',
+};
+
+export const languageLabel = (code: string) => LANGUAGE_LABELS[code] ?? code.toUpperCase();
+
+export const CONTRIBUTOR_ROLE_LABELS: Record<ContributorRole, string> = {
+    [ContributorRole.AUTHOR]: 'Autor',
+    [ContributorRole.TRANSLATOR]: 'Tradutor',
+    [ContributorRole.ILLUSTRATOR]: 'Ilustrador',
+};
+
+// Livros cadastrados antes dos colaboradores só têm o campo "author"
+export const getContributors = (book: Pick<Book, 'author' | 'contributors'>): BookContributor[] => {
+    if (book.contributors?.length) return book.contributors;
+    return book.author ? [{ name: book.author, role: ContributorRole.AUTHOR }] : [];
+};
+
+export const contributorsByRole = (book: Pick<Book, 'author' | 'contributors'>, role: ContributorRole) =>
+    getContributors(book)
+        .filter((contributor) => contributor.role === role)
+        .map((contributor) => contributor.name);
+
+// Valor do campo "author" derivado dos colaboradores com papel de autor
+export const summarizeAuthors = (contributors: BookContributor[]) =>
+    contributors
+        .filter((contributor) => contributor.role === ContributorRole.AUTHOR && contributor.name.trim())
+        .map((contributor) => contributor.name.trim())
+        .join(', ');
+
+// "Duna, vol. 2" ou só "Duna"
+export const formatSeries = (book: Pick<Book, 'series' | 'series_number'>) =>
+    book.series ? `${book.series}${book.series_number ? `, vol. ${book.series_number}` : ''}` : '';
+
+// ---------------------------------------------------------------------------
+// Exemplares
+// ---------------------------------------------------------------------------
+
+export const COPY_STATUS_LABELS: Record<CopyStatus, string> = {
+    [CopyStatus.AVAILABLE]: 'Disponível',
+    [CopyStatus.ON_LOAN]: 'Emprestado',
+    [CopyStatus.ON_HOLD]: 'Reservado',
+    [CopyStatus.IN_REPAIR]: 'Em reparo',
+    [CopyStatus.LOST]: 'Extraviado',
+    [CopyStatus.WITHDRAWN]: 'Baixado',
+};
+
+export const COPY_CONDITION_LABELS: Record<CopyCondition, string> = {
+    [CopyCondition.NEW]: 'Novo',
+    [CopyCondition.GOOD]: 'Bom',
+    [CopyCondition.WORN]: 'Desgastado',
+    [CopyCondition.DAMAGED]: 'Danificado',
+};
+
+// "Emprestado" e "Reservado" só mudam pelos empréstimos, devoluções e
+// reservas, nunca pela edição
+export const MANUAL_COPY_STATUSES = [
+    CopyStatus.AVAILABLE,
+    CopyStatus.IN_REPAIR,
+    CopyStatus.LOST,
+    CopyStatus.WITHDRAWN,
+];
+
+// ---------------------------------------------------------------------------
+// Reservas
+// ---------------------------------------------------------------------------
+
+export const HOLD_STATUS_LABELS: Record<HoldStatus, string> = {
+    [HoldStatus.WAITING]: 'Na fila',
+    [HoldStatus.READY]: 'Pronta para retirada',
+    [HoldStatus.FULFILLED]: 'Retirada',
+    [HoldStatus.CANCELED]: 'Cancelada',
+    [HoldStatus.EXPIRED]: 'Expirada',
+};
+
+// "2º na fila" ou "Pronta para retirada até 12/05/2025"
+export const describeHold = (hold: Pick<Hold, 'status' | 'position' | 'expires_at'>) => {
+    if (hold.status === HoldStatus.WAITING) return `${hold.position}º na fila`;
+    if (hold.status === HoldStatus.READY && hold.expires_at) {
+        return `Pronta para retirada até ${new Date(hold.expires_at).toLocaleDateString('pt-BR')}`;
+    }
+    return HOLD_STATUS_LABELS[hold.status];
+};
@@ -0,0 +1,419 @@
+import { Book, ContributorRole } from '@/types';
+import { contributorsByRole, getContributors } from './bookMetadata';
+import { cleanIsbn, toIsbn13 } from './isbn';
+
+// Sintaxe avançada da busca do catálogo:
+//   author:orwell title:"animal farm" isbn:978* available:true year:1940..1960
+// Termos lado a lado equivalem a AND; OR, NOT e parênteses agrupam. O mesmo
+// parser é usado na caixa de busca (erros e realce) e na montagem do filtro
+// estruturado enviado à API em "where".
+
+export type CatalogQueryField =
+    | 'title'
+    | 'author'
+    | 'translator'
+    | 'illustrator'
+    | 'isbn'
+    | 'publisher'
+    | 'language'
+    | 'year'
+    | 'subject'
+    | 'series'
+    | 'available';
+
+export interface CatalogQueryFieldInfo {
+    name: CatalogQueryField;
+    description: string;
+    example: string;
+}
+
+export const CATALOG_QUERY_FIELDS: CatalogQueryFieldInfo[] = [
+    { name: 'title', description: 'Título', example: 'title:"animal farm"' },
+    { name: 'author', description: 'Autor', example: 'author:orwell' },
+    { name: 'translator', description: 'Tradutor', example: 'translator:"heitor aquino"' },
+    { name: 'illustrator', description: 'Ilustrador', example: 'illustrator:tolkien' },
+    { name: 'isbn', description: 'ISBN (aceita *)', example: 'isbn:978*' },
+    { name: 'publisher', description: 'Editora', example: 'publisher:penguin' },
+    { name: 'language', description: 'Idioma (código ISO)', example: 'language:pt' },
+    { name: 'year', description: 'Ano ou intervalo', example: 'year:1940..1960' },
+    { name: 'subject', description: 'Assunto ou gênero', example: 'subject:fantasia' },
+    { name: 'series', description: 'Série', example: 'series:"senhor dos anéis"' },
+    { name: 'available', description: 'Disponível para empréstimo', example: 'available:true' },
+];
+
+const FIELD_NAMES = CATALOG_QUERY_FIELDS.map((field) => field.name);
+
+export type CatalogQueryValue =
+    | { kind: 'text'; text: string; wildcard: boolean }
+    | { kind: 'range'; from?: number; to?: number }
+    | { kind: 'boolean'; value: boolean };
+
+export type CatalogQueryNode =
+    | { type: 'and' | 'or'; children: CatalogQueryNode[] }
+    | { type: 'not'; child: CatalogQueryNode }
+    | { type: 'term'; field: CatalogQueryField | null; value: CatalogQueryValue };
+
+export interface CatalogQuerySyntaxError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+// Trechos da entrada classificados para o realce na caixa de busca
+export interface CatalogQueryToken {
+    kind: 'field' | 'value' | 'phrase' | 'operator' | 'paren';
+    start: number;
+    end: number;
+}
+
+export interface ParsedCatalogQuery {
+    ast: CatalogQueryNode | null;
+    tokens: CatalogQueryToken[];
+    errors: CatalogQuerySyntaxError[];
+    // Falso para texto simples, que continua indo para a API como "q"
+    isAdvanced: boolean;
+}
+
+type LexToken =
+    | { type: 'lparen'; start: number; end: number }
+    | { type: 'rparen'; start: number; end: number }
+    | { type: 'operator'; operator: 'AND' | 'OR' | 'NOT'; start: number; end: number }
+    | {
+          type: 'term';
+          field: string | null;
+          fieldStart: number;
+          raw: string;
+          quoted: boolean;
+          start: number;
+          end: number;
+      };
+
+const OPERATORS = ['AND', 'OR', 'NOT'];
+const WORD_BREAK = /[\s()"]/;
+
+class QuerySyntaxError extends Error {
+    constructor(message: string, public start: number, public end: number) {
+        super(message);
+    }
+}
+
+const tokenize = (input: string, tokens: CatalogQueryToken[]): LexToken[] => {
+    const lexed: LexToken[] = [];
+    let i = 0;
+
+    const readPhrase = (from: number) => {
+        const close = input.indexOf('"', from + 1);
+        if (close === -1) throw new QuerySyntaxError('Aspas não fechadas', from, input.length);
+        return { text: input.slice(from + 1, close), end: close + 1 };
+    };
+
+    while (i < input.length) {
+        const char = input[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            lexed.push(char === '(' ? { type: 'lparen', start: i, end: i + 1 } : { type: 'rparen', start: i, end: i + 1 });
+            tokens.push({ kind: 'paren', start: i, end: i + 1 });
+            i++;
+        } else if (char === '"') {
+            const phrase = readPhrase(i);
+            lexed.push({ type: 'term', field: null, fieldStart: i, raw: phrase.text, quoted: true, start: i, end: phrase.end });
+            tokens.push({ kind: 'phrase', start: i, end: phrase.end });
+            i = phrase.end;
+        } else {
+            const start = i;
+            while (i < input.length && !WORD_BREAK.test(input[i])) i++;
+            const word = input.slice(start, i);
+
+            if (OPERATORS.includes(word)) {
+                lexed.push({ type: 'operator', operator: word as 'AND' | 'OR' | 'NOT', start, end: i });
+                tokens.push({ kind: 'operator', start, end: i });
+                continue;
+            }
+
+            // Só "campo:" conhecido vira filtro; títulos como "O Senhor dos Anéis: A
+            // Sociedade do Anel" e dois-pontos seguidos de espaço continuam texto livre
+            const colon = word.indexOf(':');
+            const field = colon > 0 ? word.slice(0, colon) : '';
+            const isField =
+                FIELD_NAMES.includes(field.toLowerCase() as CatalogQueryField) &&
+                (colon + 1 < word.length || i === input.length || input[i] === '"');
+            if (!isField) {
+                lexed.push({ type: 'term', field: null, fieldStart: start, raw: word, quoted: false, start, end: i });
+                tokens.push({ kind: 'value', start, end: i });
+                continue;
+            }
+
+            const valueStart = start + colon + 1;
+            tokens.push({ kind: 'field', start, end: valueStart });
+
+            // author:"george orwell"
+            if (valueStart === i && input[i] === '"') {
+                const phrase = readPhrase(i);
+                lexed.push({ type: 'term', field, fieldStart: start, raw: phrase.text, quoted: true, start, end: phrase.end });
+                tokens.push({ kind: 'phrase', start: i, end: phrase.end });
+                i = phrase.end;
+            } else {
+                lexed.push({ type: 'term', field, fieldStart: start, raw: word.slice(colon + 1), quoted: false, start, end: i });
+                if (valueStart < i) tokens.push({ kind: 'value', start: valueStart, end: i });
+            }
+        }
+    }
+
+    return lexed;
+};
+
+const YEAR_PATTERN = /^\d{1,4}$/;
+
+// Converte o valor cru de um termo conforme o campo. Erros de valor não
+// interrompem a análise: são acumulados para aparecerem todos de uma vez.
+const toTermValue = (
+    token: Extract<LexToken, { type: 'term' }>,
+    errors: CatalogQuerySyntaxError[]
+): CatalogQueryNode => {
+    const fieldName = token.field?.toLowerCase() ?? null;
+    const valueStart = token.field === null ? token.start : token.fieldStart + token.field.length + 1;
+    const fail = (message: string, start = valueStart, end = token.end) => errors.push({ message, start, end });
+
+    const field = fieldName as CatalogQueryField | null;
+
+    if (field !== null && !token.raw.trim()) {
+        fail(`Informe um valor para ${token.field}:`, token.fieldStart, token.end);
+        return { type: 'term', field, value: { kind: 'text', text: '', wildcard: false } };
+    }
+
+    if (field === 'year') {
+        const [from, to, ...rest] = token.raw.split('..');
+        const isRange = to !== undefined;
+        if (
+            rest.length > 0 ||
+            (!isRange && !YEAR_PATTERN.test(from)) ||
+            (isRange && ((from && !YEAR_PATTERN.test(from)) || (to && !YEAR_PATTERN.test(to)) || (!from && !to)))
+        ) {
+            fail('Ano inválido. Use year:1949, year:1940..1960, year:1940.. ou year:..1960');
+        } else if (isRange && from && to && Number(from) > Number(to)) {
+            fail('O ano inicial é maior que o final');
+        }
+        return {
+            type: 'term',
+            field,
+            value: {
+                kind: 'range',
+                from: from ? Number(from) : undefined,
+                to: isRange ? (to ? Number(to) : undefined) : from ? Number(from) : undefined,
+            },
+        };
+    }
+
+    if (field === 'available') {
+        const normalized = token.raw.toLowerCase();
+        if (normalized !== 'true' && normalized !== 'false') {
+            fail('Use available:true ou available:false');
+        }
+        return { type: 'term', field, value: { kind: 'boolean', value: normalized === 'true' } };
+    }
+
+    return {
+        type: 'term',
+        field,
+        value: { kind: 'text', text: token.raw, wildcard: !token.quoted && token.raw.includes('*') },
+    };
+};
+
+export const parseCatalogQuery = (input: string): ParsedCatalogQuery => {
+    const tokens: CatalogQueryToken[] = [];
+    const errors: CatalogQuerySyntaxError[] = [];
+
+    let lexed: LexToken[];
+    try {
+        lexed = tokenize(input, tokens);
+    } catch (error) {
+        const { message, start, end } = error as QuerySyntaxError;
+        return { ast: null, tokens, errors: [{ message, start, end }], isAdvanced: true };
+    }
+
+    const isAdvanced = lexed.some(
+        (token) => token.type !== 'term' || token.field !== null || token.quoted || token.raw.includes('*')
+    );
+    if (lexed.length === 0) return { ast: null, tokens, errors, isAdvanced: false };
+
+    let position = 0;
+    const peek = () => lexed[position];
+    const describe = (token: LexToken | undefined) =>
+        !token ? 'o fim da busca' : token.type === 'operator' ? token.operator : token.type === 'rparen' ? '")"' : 'um termo';
+
+    // Precedência: NOT > AND (explícito ou implícito) > OR
+    const parseOr = (): CatalogQueryNode => {
+        const children = [parseAnd()];
+        while (peek()?.type === 'operator' && (peek() as { operator: string }).operator === 'OR') {
+            position++;
+            children.push(parseAnd());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    };
+
+    const parseAnd = (): CatalogQueryNode => {
+        const children = [parseUnary()];
+        for (;;) {
+            const next = peek();
+            if (!next || next.type === 'rparen') break;
+            if (next.type === 'operator' && next.operator === 'OR') break;
+            if (next.type === 'operator' && next.operator === 'AND') position++;
+            children.push(parseUnary());
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    };
+
+    const parseUnary = (): CatalogQueryNode => {
+        const token = peek();
+        if (token?.type === 'operator' && token.operator === 'NOT') {
+            position++;
+            if (!peek()) throw new QuerySyntaxError('Esperado um termo após NOT', token.start, token.end);
+            return { type: 'not', child: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): CatalogQueryNode => {
+        const token = peek();
+        const previous = lexed[position - 1];
+
+        if (!token) {
+            const at = previous ?? { start: input.length, end: input.length };
+            throw new QuerySyntaxError(
+                previous?.type === 'operator'
+                    ? `Esperado um termo após ${previous.operator}`
+                    : previous?.type === 'lparen'
+                      ? 'Parêntese "(" não fechado'
+                      : 'Busca incompleta',
+                at.start,
+                at.end
+            );
+        }
+
+        if (token.type === 'lparen') {
+            position++;
+            if (peek()?.type === 'rparen') {
+                throw new QuerySyntaxError('Parênteses vazios', token.start, peek().end);
+            }
+            const inner = parseOr();
+            if (peek()?.type !== 'rparen') {
+                throw new QuerySyntaxError('Parêntese "(" não fechado', token.start, token.end);
+            }
+            position++;
+            return inner;
+        }
+
+        if (token.type === 'term') {
+            position++;
+            return toTermValue(token, errors);
+        }
+
+        if (token.type === 'rparen') {
+            throw new QuerySyntaxError('Parêntese ")" sem abertura', token.start, token.end);
+        }
+
+        throw new QuerySyntaxError(
+            `Operador ${token.operator} sem termo ${previous && previous.type !== 'lparen' ? `após ${describe(previous)}` : 'à esquerda'}`,
+            token.start,
+            token.end
+        );
+    };
+
+    try {
+        const ast = parseOr();
+        const leftover = peek();
+        if (leftover) {
+            throw new QuerySyntaxError(
+                leftover.type === 'rparen' ? 'Parêntese ")" sem abertura' : `${describe(leftover)} inesperado`,
+                leftover.start,
+                leftover.end
+            );
+        }
+        return { ast: errors.length ? null : ast, tokens, errors, isAdvanced };
+    } catch (error) {
+        if (!(error instanceof QuerySyntaxError)) throw error;
+        errors.push({ message: error.message, start: error.start, end: error.end });
+        return { ast: null, tokens, errors: errors.sort((a, b) => a.start - b.start), isAdvanced: true };
+    }
+};
+
+// ---------------------------------------------------------------------------
+// Avaliação (usada pelo backend simulado)
+// ---------------------------------------------------------------------------
+
+const matchesText = (fieldValue: string | undefined, value: Extract<CatalogQueryValue, { kind: 'text' }>) => {
+    if (!fieldValue) return false;
+    const haystack = fieldValue.toLowerCase();
+    const needle = value.text.toLowerCase();
+    if (!value.wildcard) return haystack.includes(needle);
+
+    // "978*" é ancorado: o curinga é a única parte livre do padrão
+    const pattern = needle
+        .split('*')
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${pattern}$`).test(haystack);
+};
+
+// Um ISBN completo encontra o livro tanto pela forma de 10 quanto pela de 13
+// dígitos; trechos e curingas comparam o texto sem hífens
+const matchesIsbn = (isbn: string, value: Extract<CatalogQueryValue, { kind: 'text' }>) => {
+    const canonical = value.wildcard ? null : toIsbn13(value.text);
+    if (canonical) return toIsbn13(isbn) === canonical;
+    return matchesText(cleanIsbn(isbn), { ...value, text: cleanIsbn(value.text) });
+};
+
+const matchesTerm = (book: Book, field: CatalogQueryField | null, value: CatalogQueryValue): boolean => {
+    if (value.kind === 'boolean') return value.value ? book.available > 0 : book.available <= 0;
+    if (value.kind === 'range') {
+        if (book.published_year === undefined) return false;
+        return (
+            (value.from === undefined || book.published_year >= value.from) &&
+            (value.to === undefined || book.published_year <= value.to)
+        );
+    }
+
+    const matchesAny = (values: (string | undefined)[]) => values.some((item) => matchesText(item, value));
+
+    switch (field) {
+        case 'title':
+            return matchesText(book.title, value);
+        case 'author':
+            return matchesAny(contributorsByRole(book, ContributorRole.AUTHOR));
+        case 'translator':
+            return matchesAny(contributorsByRole(book, ContributorRole.TRANSLATOR));
+        case 'illustrator':
+            return matchesAny(contributorsByRole(book, ContributorRole.ILLUSTRATOR));
+        case 'isbn':
+            return matchesIsbn(book.isbn, value);
+        case 'publisher':
+            return matchesText(book.publisher, value);
+        case 'language':
+            return book.language?.toLowerCase() === value.text.toLowerCase();
+        case 'subject':
+            return matchesAny(book.subjects ?? []);
+        case 'series':
+            return matchesText(book.series, value);
+        default:
+            return (
+                matchesAny([book.title, book.series, ...getContributors(book).map((item) => item.name)]) ||
+                matchesAny(book.subjects ?? []) ||
+                matchesIsbn(book.isbn, value)
+            );
+    }
+};
+
+export const matchesCatalogQuery = (book: Book, node: CatalogQueryNode): boolean => {
+    switch (node.type) {
+        case 'and':
+            return node.children.every((child) => matchesCatalogQuery(book, child));
+        case 'or':
+            return node.children.some((child) => matchesCatalogQuery(book, child));
+        case 'not':
+            return !matchesCatalogQuery(book, node.child);
+        default:
+            return matchesTerm(book, node.field, node.value);
+    }
+};
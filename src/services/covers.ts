@@ -0,0 +1,99 @@
+import { Book } from '@/types';
+import { getEnvironment } from './environment';
+
+// Capas dos livros. A capa enviada pela biblioteca (cover_url) tem prioridade;
+// sem ela, o provedor registrado monta a URL a partir do ISBN. As imagens
+// baixadas ficam na Cache Storage do navegador, então trocar de página no
+// catálogo não baixa a mesma capa de novo.
+
+export type CoverSize = 'S' | 'M' | 'L';
+
+export interface CoverProvider {
+    name: string;
+    // URL da capa para o ISBN, ou null quando o provedor não atende esse livro
+    getCoverUrl: (isbn: string, size: CoverSize) => string | null;
+}
+
+export const PLACEHOLDER_COVER = '/placeholder.svg';
+
+// Limite de envio de capas, o mesmo no formulário e no backend simulado
+export const MAX_COVER_UPLOAD_BYTES = 2 * 1024 * 1024;
+export const MAX_COVER_UPLOAD_LABEL = `${MAX_COVER_UPLOAD_BYTES / (1024 * 1024)} MB`;
+
+const COVER_CACHE_NAME = 'book-covers-v1';
+
+const { openLibraryCoversUrl } = getEnvironment();
+
+// "default=false" faz o Open Library responder 404 em vez de uma imagem em branco
+export const openLibraryCoverProvider: CoverProvider = {
+    name: 'Open Library',
+    getCoverUrl: (isbn, size) => {
+        const normalized = isbn.replace(/[^0-9Xx]/g, '');
+        if (!normalized) return null;
+        return `${openLibraryCoversUrl}/b/isbn/${normalized}-${size}.jpg?default=false`;
+    },
+};
+
+let coverProvider: CoverProvider = openLibraryCoverProvider;
+
+export const setCoverProvider = (provider: CoverProvider) => {
+    coverProvider = provider;
+};
+
+export const getCoverProvider = () => coverProvider;
+
+export const getCoverUrl = (book: Pick<Book, 'isbn' | 'cover_url'>, size: CoverSize = 'M') =>
+    book.cover_url || (book.isbn ? coverProvider.getCoverUrl(book.isbn, size) : null);
+
+const openCoverCache = async () => {
+    if (typeof caches === 'undefined') return null;
+    try {
+        return await caches.open(COVER_CACHE_NAME);
+    } catch {
+        // Cache Storage indisponível (ex.: contexto não seguro)
+        return null;
+    }
+};
+
+// URLs blob: criadas aqui; só elas são revogadas em releaseCoverImage
+const objectUrls = new Set<string>();
+
+const toObjectUrl = (blob: Blob) => {
+    const objectUrl = URL.createObjectURL(blob);
+    objectUrls.add(objectUrl);
+    return objectUrl;
+};
+
+// Libera a imagem em memória quando a capa sai do cache do Query
+export const releaseCoverImage = (src: string | null | undefined) => {
+    if (!src || !objectUrls.delete(src)) return;
+    URL.revokeObjectURL(src);
+};
+
+// Baixa a capa e devolve uma URL local (blob:) para o <img>. Retorna null quando
+// o provedor não tem capa para o livro. Falhas de rede ou CORS caem para a URL
+// remota, deixando o cache HTTP do navegador cuidar do resto.
+export const loadCoverImage = async (url: string): Promise<string | null> => {
+    if (url.startsWith('data:') || url.startsWith('blob:')) return url;
+
+    const cache = await openCoverCache();
+    const cached = await cache?.match(url).catch(() => undefined);
+    if (cached) return toObjectUrl(await cached.blob());
+
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch {
+        return url;
+    }
+
+    if (response.status === 404) return null;
+    if (!response.ok) return url;
+
+    try {
+        await cache?.put(url, response.clone());
+    } catch {
+        // Cota esgotada ou Cache Storage com falha: a imagem já foi baixada
+    }
+    return toObjectUrl(await response.blob());
+};
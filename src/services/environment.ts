@@ -0,0 +1,108 @@
+// Perfis de ambiente resolvidos a partir das variáveis VITE_* no build,
+// com possibilidade de sobrescrita em tempo de execução (painel do administrador).
+
+export type EnvironmentProfile = 'dev' | 'staging' | 'prod' | 'mock';
+
+export interface EnvironmentConfig {
+    profile: EnvironmentProfile;
+    label: string;
+    apiBaseUrl: string;
+    openLibraryBaseUrl: string;
+    openLibraryCoversUrl: string;
+    useMockBackend: boolean;
+}
+
+export interface EnvironmentOverride {
+    profile?: EnvironmentProfile;
+    apiBaseUrl?: string;
+    openLibraryBaseUrl?: string;
+    openLibraryCoversUrl?: string;
+}
+
+const OVERRIDE_STORAGE_KEY = 'environmentOverride';
+
+const DEFAULT_API_URL = 'http://localhost:8080/api/v1';
+const DEFAULT_OPEN_LIBRARY_URL = 'https://openlibrary.org';
+const DEFAULT_OPEN_LIBRARY_COVERS_URL = 'https://covers.openlibrary.org';
+
+const env = import.meta.env;
+const openLibraryBaseUrl = env.VITE_OPEN_LIBRARY_URL || DEFAULT_OPEN_LIBRARY_URL;
+const openLibraryCoversUrl = env.VITE_OPEN_LIBRARY_COVERS_URL || DEFAULT_OPEN_LIBRARY_COVERS_URL;
+
+export const ENVIRONMENT_PROFILES: Record<EnvironmentProfile, EnvironmentConfig> = {
+    dev: {
+        profile: 'dev',
+        label: 'Desenvolvimento',
+        apiBaseUrl: env.VITE_API_URL_DEV || env.VITE_API_URL || DEFAULT_API_URL,
+        openLibraryBaseUrl,
+        openLibraryCoversUrl,
+        useMockBackend: false,
+    },
+    staging: {
+        profile: 'staging',
+        label: 'Homologação',
+        apiBaseUrl: env.VITE_API_URL_STAGING || env.VITE_API_URL || DEFAULT_API_URL,
+        openLibraryBaseUrl,
+        openLibraryCoversUrl,
+        useMockBackend: false,
+    },
+    prod: {
+        profile: 'prod',
+        label: 'Produção',
+        apiBaseUrl: env.VITE_API_URL_PROD || env.VITE_API_URL || DEFAULT_API_URL,
+        openLibraryBaseUrl,
+        openLibraryCoversUrl,
+        useMockBackend: false,
+    },
+    mock: {
+        profile: 'mock',
+        label: 'Offline (mock)',
+        apiBaseUrl: '/mock-api/v1',
+        openLibraryBaseUrl,
+        openLibraryCoversUrl,
+        useMockBackend: true,
+    },
+};
+
+const isProfile = (value: unknown): value is EnvironmentProfile =>
+    typeof value === 'string' && value in ENVIRONMENT_PROFILES;
+
+// Perfil definido no build: VITE_APP_PROFILE, ou "mock" quando VITE_USE_MOCK_API=true
+export const getBuildProfile = (): EnvironmentProfile => {
+    if (isProfile(env.VITE_APP_PROFILE)) return env.VITE_APP_PROFILE;
+    if (env.VITE_USE_MOCK_API === 'true') return 'mock';
+    return env.PROD ? 'prod' : 'dev';
+};
+
+export const getEnvironmentOverride = (): EnvironmentOverride | null => {
+    const stored = localStorage.getItem(OVERRIDE_STORAGE_KEY);
+    if (!stored) return null;
+
+    try {
+        return JSON.parse(stored) as EnvironmentOverride;
+    } catch {
+        localStorage.removeItem(OVERRIDE_STORAGE_KEY);
+        return null;
+    }
+};
+
+export const setEnvironmentOverride = (override: EnvironmentOverride | null) => {
+    if (override) {
+        localStorage.setItem(OVERRIDE_STORAGE_KEY, JSON.stringify(override));
+    } else {
+        localStorage.removeItem(OVERRIDE_STORAGE_KEY);
+    }
+};
+
+export const getEnvironment = (): EnvironmentConfig => {
+    const override = getEnvironmentOverride();
+    const profile = isProfile(override?.profile) ? override.profile : getBuildProfile();
+    const base = ENVIRONMENT_PROFILES[profile];
+
+    return {
+        ...base,
+        apiBaseUrl: override?.apiBaseUrl?.trim() || base.apiBaseUrl,
+        openLibraryBaseUrl: override?.openLibraryBaseUrl?.trim() || base.openLibraryBaseUrl,
+        openLibraryCoversUrl: override?.openLibraryCoversUrl?.trim() || base.openLibraryCoversUrl,
+    };
+};
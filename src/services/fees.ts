@@ -0,0 +1,39 @@
+import { FeeType, Loan, LoanPolicyRules } from '@/types';
+import { getDueDate } from './loanPolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FEE_TYPE_LABELS: Record<FeeType, string> = {
+    [FeeType.OVERDUE_FINE]: 'Multa por atraso',
+    [FeeType.LOST_ITEM]: 'Exemplar perdido',
+    [FeeType.DAMAGED_ITEM]: 'Exemplar danificado',
+    [FeeType.PAYMENT]: 'Pagamento',
+    [FeeType.WAIVER]: 'Isenção',
+};
+
+// Lançamentos que reduzem o saldo devedor
+export const CREDIT_FEE_TYPES = [FeeType.PAYMENT, FeeType.WAIVER];
+
+export const formatCurrency = (amount: number) =>
+    amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+// Arredonda para centavos, evitando resíduos de ponto flutuante nas somas
+export const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Dias de atraso contados a partir do vencimento. Devoluções dentro da
+// carência não geram multa.
+export const getDaysOverdue = (
+    loan: Pick<Loan, 'start_date' | 'duration' | 'return_date'> & Partial<Pick<Loan, 'due_date'>>,
+    rules: Pick<LoanPolicyRules, 'grace_period_days'>,
+    now = new Date()
+) => {
+    const end = loan.return_date ? new Date(loan.return_date) : now;
+    const days = Math.ceil((end.getTime() - getDueDate(loan).getTime()) / DAY_MS);
+    return days > rules.grace_period_days ? days : 0;
+};
+
+export const computeOverdueFine = (
+    loan: Pick<Loan, 'start_date' | 'duration' | 'return_date'> & Partial<Pick<Loan, 'due_date'>>,
+    rules: Pick<LoanPolicyRules, 'grace_period_days' | 'daily_fine'>,
+    now = new Date()
+) => roundCurrency(getDaysOverdue(loan, rules, now) * rules.daily_fine);
@@ -0,0 +1,168 @@
+// ISBN: limpeza, validação do dígito verificador, conversão entre ISBN-10 e
+// ISBN-13 e exibição com hífens. Usado pelo cadastro, pelos scanners (que
+// também leem códigos que não são de livros) e pelo backend simulado.
+
+// Prefixos EAN "Bookland": só códigos 978/979 são ISBNs
+export const BOOKLAND_PREFIXES = ['978', '979'];
+
+// Remove hífens e espaços; o "x" do ISBN-10 fica maiúsculo
+export const cleanIsbn = (value: string) => value.replace(/[-\s]/g, '').toUpperCase();
+
+const isbn10CheckDigit = (first9: string) => {
+    const sum = first9.split('').reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+    const check = (11 - (sum % 11)) % 11;
+    return check === 10 ? 'X' : String(check);
+};
+
+const isbn13CheckDigit = (first12: string) => {
+    const sum = first12.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+    return String((10 - (sum % 10)) % 10);
+};
+
+export const isValidIsbn10 = (value: string) => {
+    const isbn = cleanIsbn(value);
+    return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+};
+
+export const isBooklandEan = (value: string) => {
+    const ean = cleanIsbn(value);
+    return /^\d{13}$/.test(ean) && BOOKLAND_PREFIXES.includes(ean.slice(0, 3));
+};
+
+export const isValidIsbn13 = (value: string) => {
+    const isbn = cleanIsbn(value);
+    return isBooklandEan(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+};
+
+export const isValidIsbn = (value: string) => isValidIsbn10(value) || isValidIsbn13(value);
+
+export const isbn10To13 = (value: string) => {
+    const isbn = cleanIsbn(value);
+    if (!isValidIsbn10(isbn)) return null;
+    const first12 = `978${isbn.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+};
+
+// Só ISBNs 978 têm equivalente de 10 dígitos
+export const isbn13To10 = (value: string) => {
+    const isbn = cleanIsbn(value);
+    if (!isValidIsbn13(isbn) || !isbn.startsWith('978')) return null;
+    const first9 = isbn.slice(3, 12);
+    return first9 + isbn10CheckDigit(first9);
+};
+
+// Forma canônica para comparar e guardar: ISBN-13 sem hífens, ou null se inválido
+export const toIsbn13 = (value: string) => {
+    const isbn = cleanIsbn(value);
+    if (isValidIsbn13(isbn)) return isbn;
+    return isbn10To13(isbn);
+};
+
+// Motivo para recusar um código lido no lugar de um ISBN, ou null. Os scanners
+// também leem etiquetas da biblioteca (CODE 39/128), preços e outros EANs.
+export const getIsbnError = (value: string) => {
+    const code = cleanIsbn(value);
+    if (isValidIsbn(code)) return null;
+    if (/^\d{13}$/.test(code) && !isBooklandEan(code)) {
+        return `O código ${code} não é de um livro (ISBNs começam com 978 ou 979)`;
+    }
+    if (/^(\d{13}|\d{9}[\dX])$/.test(code)) {
+        return `ISBN ${code} inválido (dígito verificador não confere)`;
+    }
+    return `O código ${code} não é um ISBN`;
+};
+
+// Faixas de editoras dos grupos mais comuns no acervo (tabela da Agência
+// Internacional do ISBN, simplificada e incompleta: algumas faixas, como parte
+// das brasileiras, faltam e caem nos dígitos sem hífens). Cada faixa diz
+// quantos dígitos tem o código da editora quando os primeiros dígitos após o
+// grupo estão nela.
+interface RegistrantRange {
+    from: string;
+    to: string;
+}
+
+const REGISTRANT_RANGES: Record<string, RegistrantRange[]> = {
+    // Inglês
+    '978-0': [
+        { from: '00', to: '19' },
+        { from: '200', to: '699' },
+        { from: '7000', to: '8499' },
+        { from: '85000', to: '89999' },
+        { from: '900000', to: '949999' },
+        { from: '9500000', to: '9999999' },
+    ],
+    '978-1': [
+        { from: '00', to: '09' },
+        { from: '100', to: '399' },
+        { from: '4000', to: '5499' },
+        { from: '55000', to: '86979' },
+        { from: '869800', to: '998999' },
+        { from: '9990000', to: '9999999' },
+    ],
+    // Brasil
+    '978-85': [
+        { from: '00', to: '19' },
+        { from: '200', to: '454' },
+        { from: '456', to: '528' },
+        { from: '60000', to: '69999' },
+        { from: '7000', to: '8499' },
+        { from: '85000', to: '89999' },
+        { from: '900000', to: '924999' },
+        { from: '92500', to: '94499' },
+        { from: '9450', to: '9599' },
+        { from: '96', to: '97' },
+        { from: '98000', to: '99999' },
+    ],
+    // Portugal
+    '978-972': [
+        { from: '0', to: '1' },
+        { from: '20', to: '54' },
+        { from: '550', to: '799' },
+        { from: '8000', to: '9499' },
+        { from: '95000', to: '99999' },
+    ],
+};
+
+// Separa prefixo, grupo, editora, título e dígito verificador. Retorna null
+// quando o grupo ou a faixa da editora não está na tabela: sem ela não há como
+// saber onde cada parte termina.
+const hyphenateIsbn13 = (isbn: string): string | null => {
+    const prefix = isbn.slice(0, 3);
+    const body = isbn.slice(3, 12);
+    const check = isbn[12];
+
+    for (const [group, ranges] of Object.entries(REGISTRANT_RANGES)) {
+        const [groupPrefix, groupCode] = group.split('-');
+        if (groupPrefix !== prefix || !body.startsWith(groupCode)) continue;
+
+        const rest = body.slice(groupCode.length);
+        const range = ranges.find(({ from, to }) => {
+            const start = rest.slice(0, from.length);
+            return start >= from && start <= to;
+        });
+        if (!range) break;
+
+        const registrant = rest.slice(0, range.from.length);
+        const publication = rest.slice(range.from.length);
+        return [prefix, groupCode, registrant, publication, check].join('-');
+    }
+
+    return null;
+};
+
+// ISBN para exibição (978-85-359-0773-5). Grupos fora da tabela aparecem só
+// com os dígitos; valores inválidos voltam como vieram.
+export const formatIsbn = (value: string) => {
+    const isbn = cleanIsbn(value);
+    if (isValidIsbn13(isbn)) return hyphenateIsbn13(isbn) ?? isbn;
+    if (isValidIsbn10(isbn)) {
+        // Mesmo agrupamento do ISBN-13 correspondente, sem o prefixo
+        const hyphenated = hyphenateIsbn13(isbn10To13(isbn));
+        if (!hyphenated) return isbn;
+        const parts = hyphenated.split('-').slice(1);
+        parts[parts.length - 1] = isbn[9];
+        return parts.join('-');
+    }
+    return value;
+};
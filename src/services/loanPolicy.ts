@@ -0,0 +1,90 @@
+import { Loan, LoanPolicy, LoanPolicyRules, Role } from '@/types';
+
+// Regras de circulação compartilhadas pelo cliente (prévias e botões) e pelo
+// backend simulado (validação). O servidor real aplica a mesma política.
+
+export const DEFAULT_LOAN_POLICY: LoanPolicy = {
+    loan_duration_days: 14,
+    extension_days: 7,
+    max_renewals: 2,
+    max_active_loans: 3,
+    grace_period_days: 0,
+    daily_fine: 1,
+    max_balance: 20,
+    hold_pickup_days: 3,
+    overrides: {
+        [Role.LIBRARIAN]: { loan_duration_days: 30, max_active_loans: 10 },
+    },
+};
+
+interface LoanPolicyRuleField {
+    key: keyof LoanPolicyRules;
+    label: string;
+    description: string;
+    min: number;
+    // Valores em reais aceitam centavos; os demais são inteiros
+    currency?: boolean;
+}
+
+export const LOAN_POLICY_RULES: LoanPolicyRuleField[] = [
+    { key: 'loan_duration_days', label: 'Prazo do empréstimo', description: 'Dias até a devolução', min: 1 },
+    { key: 'extension_days', label: 'Dias por renovação', description: 'Somados ao prazo a cada renovação', min: 1 },
+    { key: 'max_renewals', label: 'Renovações', description: 'Máximo de renovações por empréstimo', min: 0 },
+    { key: 'max_active_loans', label: 'Empréstimos simultâneos', description: 'Limite de empréstimos ativos', min: 1 },
+    {
+        key: 'grace_period_days',
+        label: 'Carência',
+        description: 'Dias após o vencimento antes de contar como atraso',
+        min: 0,
+    },
+    { key: 'daily_fine', label: 'Multa diária', description: 'Valor por dia de atraso', min: 0, currency: true },
+    {
+        key: 'max_balance',
+        label: 'Limite de débito',
+        description: 'Saldo devedor acima do qual novos empréstimos são bloqueados',
+        min: 0,
+        currency: true,
+    },
+];
+
+export const resolveLoanPolicy = (policy: LoanPolicy, role?: Role): LoanPolicyRules => ({
+    loan_duration_days: policy.loan_duration_days,
+    extension_days: policy.extension_days,
+    max_renewals: policy.max_renewals,
+    max_active_loans: policy.max_active_loans,
+    grace_period_days: policy.grace_period_days,
+    daily_fine: policy.daily_fine,
+    max_balance: policy.max_balance,
+    ...(role ? policy.overrides[role] : {}),
+});
+
+const addDays = (date: Date, days: number) => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+type DueDateFields = Pick<Loan, 'start_date' | 'duration'> & Partial<Pick<Loan, 'due_date'>>;
+
+export const getDueDate = (loan: DueDateFields) =>
+    loan.due_date ? new Date(loan.due_date) : addDays(new Date(loan.start_date), loan.duration);
+
+export const previewDueDate = (rules: LoanPolicyRules, from = new Date()) => addDays(from, rules.loan_duration_days);
+
+// Atrasado só depois do vencimento mais a carência
+export const isPastDue = (
+    loan: DueDateFields & Pick<Loan, 'return_date'>,
+    rules: Pick<LoanPolicyRules, 'grace_period_days'>,
+    now = new Date()
+) => !loan.return_date && now > addDays(getDueDate(loan), rules.grace_period_days);
+
+// Motivo para não renovar por causa do limite de renovações, ou null. A
+// situação do empréstimo é verificada em loanStatus.getLoanActionBlock.
+export const getRenewalBlock = (loan: Pick<Loan, 'renewals'>, rules: LoanPolicyRules) => {
+    if ((loan.renewals ?? 0) >= rules.max_renewals) {
+        return rules.max_renewals === 0
+            ? 'A política atual não permite renovações'
+            : `Limite de ${rules.max_renewals} renovação(ões) atingido`;
+    }
+    return null;
+};
@@ -0,0 +1,110 @@
+import { Loan, LoanPolicyRules, LoanStatus } from '@/types';
+import { getDueDate, getRenewalBlock, isPastDue } from './loanPolicy';
+
+// Domínio da situação dos empréstimos, compartilhado por todas as telas e pelo
+// backend simulado: estados derivados, ações permitidas em cada um e rótulos.
+
+// Empréstimos em dia que vencem em até esse número de dias
+export const DUE_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export enum LoanState {
+    PENDING = 'PENDING',
+    ACTIVE = 'ACTIVE',
+    DUE_SOON = 'DUE_SOON',
+    OVERDUE = 'OVERDUE',
+    RETURNED = 'RETURNED',
+    CANCELED = 'CANCELED',
+}
+
+export type LoanAction = 'extend' | 'return' | 'cancel';
+
+type LoanStateFields = Pick<Loan, 'start_date' | 'duration' | 'return_date'> & Partial<Pick<Loan, 'due_date' | 'type'>>;
+
+// O servidor mistura minúsculas (pending, canceled) e maiúsculas (RETURNED);
+// a comparação ignora a caixa para não confundir um pendente com um ativo.
+const hasStatus = (loan: LoanStateFields, status: LoanStatus) => loan.type?.toUpperCase() === status.toUpperCase();
+
+export const getLoanState = (
+    loan: LoanStateFields,
+    rules: Pick<LoanPolicyRules, 'grace_period_days'>,
+    now = new Date()
+): LoanState => {
+    if (loan.return_date || hasStatus(loan, LoanStatus.RETURNED)) return LoanState.RETURNED;
+    if (hasStatus(loan, LoanStatus.CANCELED)) return LoanState.CANCELED;
+    if (hasStatus(loan, LoanStatus.PENDING)) return LoanState.PENDING;
+    if (isPastDue(loan, rules, now)) return LoanState.OVERDUE;
+    if (getDueDate(loan).getTime() - now.getTime() <= DUE_SOON_DAYS * DAY_MS) return LoanState.DUE_SOON;
+    return LoanState.ACTIVE;
+};
+
+// Situação enviada pelo servidor; "vence em breve" continua em dia
+export const toLoanStatus = (state: LoanState): LoanStatus =>
+    ({
+        [LoanState.PENDING]: LoanStatus.PENDING,
+        [LoanState.ACTIVE]: LoanStatus.IN_DAYS,
+        [LoanState.DUE_SOON]: LoanStatus.IN_DAYS,
+        [LoanState.OVERDUE]: LoanStatus.OVERDUE,
+        [LoanState.RETURNED]: LoanStatus.RETURNED,
+        [LoanState.CANCELED]: LoanStatus.CANCELED,
+    })[state];
+
+// Máquina de estados: ações válidas a partir de cada situação
+export const LOAN_TRANSITIONS: Record<LoanState, LoanAction[]> = {
+    [LoanState.PENDING]: ['cancel'],
+    [LoanState.ACTIVE]: ['extend', 'return'],
+    [LoanState.DUE_SOON]: ['extend', 'return'],
+    [LoanState.OVERDUE]: ['return'],
+    [LoanState.RETURNED]: [],
+    [LoanState.CANCELED]: [],
+};
+
+export const LOAN_STATE_LABELS: Record<LoanState, string> = {
+    [LoanState.PENDING]: 'Pendente',
+    [LoanState.ACTIVE]: 'Em dia',
+    [LoanState.DUE_SOON]: 'Vence em breve',
+    [LoanState.OVERDUE]: 'Atrasado',
+    [LoanState.RETURNED]: 'Devolvido',
+    [LoanState.CANCELED]: 'Cancelado',
+};
+
+// Classes do Badge de cada situação
+export const LOAN_STATE_STYLES: Record<LoanState, string> = {
+    [LoanState.PENDING]: 'bg-yellow-500/10 text-yellow-700 hover:bg-yellow-500/20',
+    [LoanState.ACTIVE]: 'bg-blue-500/10 text-blue-700 hover:bg-blue-500/20',
+    [LoanState.DUE_SOON]: 'bg-amber-500/10 text-amber-700 hover:bg-amber-500/20',
+    [LoanState.OVERDUE]: 'bg-red-500/10 text-red-700 hover:bg-red-500/20',
+    [LoanState.RETURNED]: 'bg-green-500/10 text-green-700 hover:bg-green-500/20',
+    [LoanState.CANCELED]: 'bg-gray-500/10 text-gray-700 hover:bg-gray-500/20',
+};
+
+const ACTION_BLOCKS: Record<LoanAction, Partial<Record<LoanState, string>>> = {
+    extend: {
+        [LoanState.OVERDUE]: 'Empréstimos atrasados não podem ser renovados; devolva o livro',
+        [LoanState.RETURNED]: 'Empréstimo já devolvido não pode ser renovado',
+        [LoanState.CANCELED]: 'Empréstimo cancelado',
+        [LoanState.PENDING]: 'O empréstimo ainda não foi confirmado',
+    },
+    return: {
+        [LoanState.RETURNED]: 'Empréstimo já devolvido',
+        [LoanState.CANCELED]: 'Empréstimo cancelado',
+        [LoanState.PENDING]: 'O empréstimo ainda não foi confirmado',
+    },
+    cancel: {},
+};
+
+// Motivo para recusar a ação, ou null quando ela é permitida. A renovação
+// também respeita o limite de renovações da política.
+export const getLoanActionBlock = (
+    loan: LoanStateFields & Pick<Loan, 'renewals'>,
+    action: LoanAction,
+    rules: LoanPolicyRules,
+    now = new Date()
+): string | null => {
+    const state = getLoanState(loan, rules, now);
+    if (!LOAN_TRANSITIONS[state].includes(action)) {
+        return ACTION_BLOCKS[action][state] ?? 'Ação não permitida para este empréstimo';
+    }
+    return action === 'extend' ? getRenewalBlock(loan, rules) : null;
+};
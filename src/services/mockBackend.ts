@@ -0,0 +1,1783 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+    Book,
+    BookCopy,
+    BookFacets,
+    CopyCondition,
+    CopyLookup,
+    CopyStatus,
+    FacetCount,
+    FeeEntry,
+    FeeLedger,
+    FeeType,
+    Hold,
+    HoldStatus,
+    Loan,
+    LoanPolicy,
+    LoanPolicyRules,
+    LoanStatus,
+    RecentActivityResponse,
+    RecentActivityTypeEnum,
+    Role,
+    SummaryResponse,
+    User,
+} from '@/types';
+import { MOCK_DEFAULT_PASSWORD, mockBooks, mockHolds, mockLoans, mockUsers } from '@/data/mockData';
+import { CatalogQueryNode, matchesCatalogQuery } from './catalogQuery';
+import { getContributors, summarizeAuthors } from './bookMetadata';
+import { CREDIT_FEE_TYPES, computeOverdueFine, formatCurrency, getDaysOverdue, roundCurrency } from './fees';
+import { DEFAULT_LOAN_POLICY, LOAN_POLICY_RULES, getDueDate, resolveLoanPolicy } from './loanPolicy';
+import { getLoanActionBlock, getLoanState, toLoanStatus } from './loanStatus';
+import { cleanIsbn, getIsbnError, toIsbn13 } from './isbn';
+import { MAX_COVER_UPLOAD_BYTES, MAX_COVER_UPLOAD_LABEL } from './covers';
+
+// Backend em memória (persistido no localStorage) que responde às mesmas
+// rotas do servidor Java. Ativado pelo perfil de ambiente "mock".
+
+const STORAGE_KEY = 'mockBackend:db';
+const COVER_KEY_PREFIX = 'mockBackend:cover:';
+const STORED_COVER_PREFIX = 'mock-cover:';
+const LATENCY_MS = 250;
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const STAFF_ROLES = [Role.LIBRARIAN, Role.ADMIN];
+
+interface MockPerson extends User {
+    id: number;
+    password: string;
+}
+
+interface MockLoanRecord {
+    id: number;
+    bookId: number;
+    // Ausente nos empréstimos criados antes do controle por exemplar
+    copyId?: number;
+    personId: number;
+    start_date: string;
+    duration: number;
+    return_date: string | null;
+    renewals?: number;
+}
+
+interface MockHoldRecord {
+    id: number;
+    bookId: number;
+    personId: number;
+    status: HoldStatus;
+    created_at: string;
+    ready_at: string | null;
+    expires_at: string | null;
+    // Exemplar separado na estante de reservas (status READY)
+    copyId?: number;
+}
+
+interface MockFeeRecord {
+    id: number;
+    personId: number;
+    loanId: number | null;
+    type: FeeType;
+    // Positivo para cobranças, negativo para pagamentos e isenções
+    amount: number;
+    reason: string | null;
+    created_at: string;
+    createdBy: string | null;
+}
+
+interface MockActivityRecord {
+    id: number;
+    loanId: number;
+    activity: RecentActivityTypeEnum;
+    created_at: string;
+}
+
+interface MockDatabase {
+    books: Book[];
+    copies: BookCopy[];
+    people: MockPerson[];
+    loans: MockLoanRecord[];
+    holds: MockHoldRecord[];
+    fees: MockFeeRecord[];
+    activities: MockActivityRecord[];
+    policy: LoanPolicy;
+    // jti de refresh tokens já usados (rotação: cada um vale uma única vez)
+    revokedTokens: string[];
+}
+
+interface TokenPayload {
+    sub: string;
+    id: number;
+    name: string;
+    email: string;
+    role: Role;
+    type: 'access' | 'refresh';
+    jti: string;
+    iat: number;
+    exp: number;
+}
+
+type MockRequestBody = Partial<
+    Book &
+        Pick<MockPerson, 'name' | 'email' | 'password'> &
+        Pick<BookCopy, 'barcode' | 'shelf_location' | 'condition' | 'acquired_at' | 'status' | 'notes'> & {
+            refresh_token: string;
+            file: UploadedFile;
+            copy_barcode: string;
+            person_id: number;
+            book_id: number;
+            type: FeeType;
+            amount: number;
+            reason: string;
+            loan_id: number;
+        } & Pick<LoanPolicy, 'hold_pickup_days' | 'overrides'> &
+        LoanPolicyRules
+>;
+
+interface UploadedFile {
+    name: string;
+    type: string;
+    size: number;
+    dataUrl: string;
+}
+
+interface RouteContext {
+    db: MockDatabase;
+    params: Record<string, string>;
+    query: Record<string, string | undefined>;
+    body: MockRequestBody;
+    currentUser: MockPerson | null;
+}
+
+interface MockRoute {
+    method: string;
+    path: string;
+    // undefined = rota pública; [] = qualquer usuário autenticado
+    roles?: Role[];
+    handler: (ctx: RouteContext) => { status?: number; data: unknown };
+}
+
+class MockHttpError extends Error {
+    constructor(public status: number, message: string, public fieldErrors: Record<string, string> = {}) {
+        super(message);
+    }
+}
+
+// Lança 400 com um erro por campo obrigatório ausente
+const requireFields = (body: MockRequestBody, labels: Partial<Record<keyof MockRequestBody, string>>) => {
+    const fieldErrors: Record<string, string> = {};
+    Object.entries(labels).forEach(([field, label]) => {
+        const value = body[field as keyof MockRequestBody];
+        if (value === undefined || value === null || String(value).trim() === '') {
+            fieldErrors[field] = `${label} é obrigatório`;
+        }
+    });
+
+    if (Object.keys(fieldErrors).length > 0) {
+        throw new MockHttpError(400, 'Dados inválidos', fieldErrors);
+    }
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Valores em reais com no máximo dois decimais
+const isCurrencyAmount = (value: number) => Number.isFinite(value) && roundCurrency(value) === value;
+
+// Valida a política enviada pelo admin. Nas exceções por papel, campos vazios
+// herdam o valor padrão e são descartados.
+const parseLoanPolicy = (body: MockRequestBody): LoanPolicy => {
+    const fieldErrors: Record<string, string> = {};
+    const readRule = (value: unknown, field: string, label: string, min: number, currency = false) => {
+        const number = Number(value);
+        if (value === undefined || value === null || String(value).trim() === '') {
+            fieldErrors[field] = `${label} é obrigatório`;
+        } else if (currency ? !isCurrencyAmount(number) || number < min : !Number.isInteger(number) || number < min) {
+            fieldErrors[field] = currency
+                ? `${label} deve ser um valor a partir de ${formatCurrency(min)}`
+                : `${label} deve ser um número inteiro a partir de ${min}`;
+        }
+        return number;
+    };
+
+    const policy = {} as LoanPolicy;
+    LOAN_POLICY_RULES.forEach(({ key, label, min, currency }) => {
+        policy[key] = readRule(body[key], key, label, min, currency);
+    });
+    policy.hold_pickup_days = readRule(body.hold_pickup_days, 'hold_pickup_days', 'Prazo de retirada', 1);
+    policy.overrides = {};
+
+    Object.values(Role).forEach((role) => {
+        const override = body.overrides?.[role] ?? {};
+        const rules: Partial<LoanPolicyRules> = {};
+        LOAN_POLICY_RULES.forEach(({ key, label, min, currency }) => {
+            const value = override[key];
+            if (value === undefined || value === null || String(value).trim() === '') return;
+            rules[key] = readRule(value, `overrides.${role}.${key}`, label, min, currency);
+        });
+        if (Object.keys(rules).length > 0) policy.overrides[role] = rules;
+    });
+
+    if (Object.keys(fieldErrors).length > 0) {
+        throw new MockHttpError(400, 'Dados inválidos', fieldErrors);
+    }
+    return policy;
+};
+
+// ---------------------------------------------------------------------------
+// Persistência
+// ---------------------------------------------------------------------------
+
+const formatBarcode = (copyId: number) => `A${String(copyId).padStart(6, '0')}`;
+
+// Gera "quantity" exemplares por livro e amarra cada empréstimo em aberto a um
+// deles. Também usado para migrar bancos salvos antes dos exemplares.
+const buildCopies = (books: Book[], loans: MockLoanRecord[]): BookCopy[] => {
+    const copies: BookCopy[] = [];
+
+    books.forEach((book) => {
+        const active = loans.filter((loan) => loan.bookId === book.id && !loan.return_date);
+        const total = Math.max(book.quantity, active.length);
+
+        for (let i = 0; i < total; i++) {
+            const id = copies.length + 1;
+            const loan = active[i];
+            if (loan) loan.copyId = id;
+            copies.push({
+                id,
+                book_id: book.id,
+                barcode: formatBarcode(id),
+                shelf_location: `Estante ${String.fromCharCode(65 + ((book.id - 1) % 6))}-${book.id}`,
+                condition: CopyCondition.GOOD,
+                status: loan ? CopyStatus.ON_LOAN : CopyStatus.AVAILABLE,
+            });
+        }
+    });
+
+    return copies;
+};
+
+const clonePolicy = (policy: LoanPolicy): LoanPolicy => JSON.parse(JSON.stringify(policy));
+
+const seedDatabase = (): MockDatabase => {
+    const loans: MockLoanRecord[] = mockLoans.map((loan) => ({ ...loan }));
+    const books = mockBooks.map((book) => ({ ...book }));
+    const copies = buildCopies(books, loans);
+    books.forEach((book) => syncBookCounters({ books, copies } as MockDatabase, book));
+
+    const people = mockUsers.map((user) => ({
+        ...user,
+        id: Number(user.id),
+        password: MOCK_DEFAULT_PASSWORD,
+    }));
+
+    const activities: MockActivityRecord[] = [];
+    loans.forEach((loan) => {
+        activities.push({
+            id: activities.length + 1,
+            loanId: loan.id,
+            activity: RecentActivityTypeEnum.LOAN_CREATED,
+            created_at: loan.start_date,
+        });
+        if (loan.return_date) {
+            activities.push({
+                id: activities.length + 1,
+                loanId: loan.id,
+                activity: RecentActivityTypeEnum.LOAN_RETURNED,
+                created_at: loan.return_date,
+            });
+        }
+    });
+
+    const holds: MockHoldRecord[] = mockHolds.map((hold) => ({
+        ...hold,
+        status: HoldStatus.WAITING,
+        ready_at: null,
+        expires_at: null,
+    }));
+
+    return {
+        books,
+        copies,
+        people,
+        loans,
+        holds,
+        fees: [],
+        activities,
+        policy: clonePolicy(DEFAULT_LOAN_POLICY),
+        revokedTokens: [],
+    };
+};
+
+const loadDatabase = (): MockDatabase => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+        try {
+            const db = JSON.parse(stored) as MockDatabase;
+            return {
+                ...db,
+                books: db.books.map(restoreCover),
+                copies: db.copies ?? buildCopies(db.books, db.loans),
+                holds: db.holds ?? [],
+                fees: db.fees ?? [],
+                // Regras novas entram com o valor padrão
+                policy: { ...clonePolicy(DEFAULT_LOAN_POLICY), ...db.policy },
+                revokedTokens: db.revokedTokens ?? [],
+            };
+        } catch (error) {
+            console.warn('Banco mock corrompido, recriando a partir dos dados iniciais.', error);
+        }
+    }
+
+    const db = seedDatabase();
+    saveDatabase(db);
+    return db;
+};
+
+const isQuotaError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Sem espaço no localStorage a requisição falha com 413 e o banco salvo fica
+// como estava, em vez de todas as rotas passarem a lançar DOMException
+const writeStorage = (key: string, value: string) => {
+    try {
+        localStorage.setItem(key, value);
+    } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        throw new MockHttpError(
+            413,
+            'O armazenamento do modo offline está cheio. Remova capas enviadas ou reinicie os dados de exemplo'
+        );
+    }
+};
+
+// Capas enviadas (data URLs) ficam em chaves próprias; no banco o livro guarda
+// apenas uma referência, então o restante dos dados não cresce a cada capa
+const coverKey = (bookId: number | string) => `${COVER_KEY_PREFIX}${bookId}`;
+
+const restoreCover = (book: Book): Book =>
+    book.cover_url?.startsWith(STORED_COVER_PREFIX)
+        ? { ...book, cover_url: localStorage.getItem(coverKey(book.id)) ?? undefined }
+        : book;
+
+const storeCovers = (books: Book[]): Book[] => {
+    const uploaded = books.filter((book) => book.cover_url?.startsWith('data:'));
+    const keep = new Set(uploaded.map((book) => coverKey(book.id)));
+
+    // Libera primeiro o espaço das capas substituídas ou de livros excluídos
+    Object.keys(localStorage)
+        .filter((key) => key.startsWith(COVER_KEY_PREFIX) && !keep.has(key))
+        .forEach((key) => localStorage.removeItem(key));
+
+    uploaded.forEach((book) => {
+        const key = coverKey(book.id);
+        if (localStorage.getItem(key) !== book.cover_url) writeStorage(key, book.cover_url!);
+    });
+
+    return books.map((book) =>
+        keep.has(coverKey(book.id)) ? { ...book, cover_url: `${STORED_COVER_PREFIX}${book.id}` } : book
+    );
+};
+
+const saveDatabase = (db: MockDatabase) => {
+    writeStorage(STORAGE_KEY, JSON.stringify({ ...db, books: storeCovers(db.books) }));
+};
+
+export const resetMockDatabase = () => {
+    saveDatabase(seedDatabase());
+};
+
+const nextId = (items: { id?: number | string }[]) =>
+    items.reduce((max, item) => Math.max(max, Number(item.id) || 0), 0) + 1;
+
+// ---------------------------------------------------------------------------
+// JWT
+// ---------------------------------------------------------------------------
+
+const base64UrlEncode = (value: string) =>
+    btoa(unescape(encodeURIComponent(value)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+const base64UrlDecode = (value: string) => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    return decodeURIComponent(escape(atob(padded)));
+};
+
+const signToken = (person: MockPerson, type: TokenPayload['type']) => {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: TokenPayload = {
+        sub: person.email,
+        id: person.id,
+        name: person.name,
+        email: person.email,
+        role: person.role,
+        type,
+        jti: `${person.id}-${type}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+        iat: now,
+        exp: now + (type === 'access' ? ACCESS_TOKEN_TTL_SECONDS : REFRESH_TOKEN_TTL_SECONDS),
+    };
+
+    const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const body = base64UrlEncode(JSON.stringify(payload));
+    // Assinatura fictícia: o front-end apenas decodifica o token
+    const signature = base64UrlEncode(`mock-signature:${payload.jti}`);
+
+    return `${header}.${body}.${signature}`;
+};
+
+const verifyToken = (token: string, type: TokenPayload['type']): TokenPayload | null => {
+    try {
+        const [, body] = token.split('.');
+        const payload = JSON.parse(base64UrlDecode(body)) as TokenPayload;
+        if (payload.type !== type) return null;
+        if (payload.exp * 1000 <= Date.now()) return null;
+        return payload;
+    } catch {
+        return null;
+    }
+};
+
+const issueTokens = (person: MockPerson) => ({
+    access_token: signToken(person, 'access'),
+    refresh_token: signToken(person, 'refresh'),
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const toPublicUser = ({ password, ...user }: MockPerson): User => user;
+
+const isStaff = (user: MockPerson | null) => !!user && STAFF_ROLES.includes(user.role);
+
+const requireSelfOrStaff = (ctx: RouteContext, personId: number) => {
+    if (!isStaff(ctx.currentUser) && ctx.currentUser?.id !== personId) {
+        throw new MockHttpError(403, 'Acesso negado');
+    }
+};
+
+const paginate = <T,>(items: T[], query: RouteContext['query']) => {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.max(1, Number(query.limit) || items.length || 1);
+    return items.slice((page - 1) * limit, page * limit);
+};
+
+// Envelope paginado das listagens ("page" começa em 1, como no parâmetro)
+const paginateEnvelope = <T, R = T>(items: T[], query: RouteContext['query'], map?: (item: T) => R) => {
+    const page = Math.max(1, Number(query.page) || 1);
+    const pageSize = Math.max(1, Number(query.limit) || items.length || 1);
+    const slice = paginate(items, query);
+    return {
+        items: map ? slice.map(map) : (slice as unknown as R[]),
+        total: items.length,
+        page,
+        pageSize,
+    };
+};
+
+// Regras da política que valem para a pessoa, conforme o papel dela
+const rulesFor = (db: MockDatabase, personId: number) =>
+    resolveLoanPolicy(db.policy, db.people.find((person) => person.id === personId)?.role);
+
+const deriveType = (db: MockDatabase, loan: MockLoanRecord): LoanStatus =>
+    toLoanStatus(getLoanState(loan, rulesFor(db, loan.personId)));
+
+const findBook = (db: MockDatabase, id: number | string) => {
+    const book = db.books.find((item) => item.id === Number(id));
+    if (!book) throw new MockHttpError(404, 'Livro não encontrado');
+    return book;
+};
+
+const findPerson = (db: MockDatabase, id: number | string) => {
+    const person = db.people.find((item) => item.id === Number(id));
+    if (!person) throw new MockHttpError(404, 'Usuário não encontrado');
+    return person;
+};
+
+const findLoan = (db: MockDatabase, id: number | string) => {
+    const loan = db.loans.find((item) => item.id === Number(id));
+    if (!loan) throw new MockHttpError(404, 'Empréstimo não encontrado');
+    return loan;
+};
+
+const findCopy = (db: MockDatabase, id: number | string) => {
+    const copy = db.copies.find((item) => item.id === Number(id));
+    if (!copy) throw new MockHttpError(404, 'Exemplar não encontrado');
+    return copy;
+};
+
+const findCopyByBarcode = (db: MockDatabase, barcode: string) => {
+    const copy = db.copies.find((item) => item.barcode.toLowerCase() === barcode.trim().toLowerCase());
+    if (!copy) throw new MockHttpError(404, `Nenhum exemplar com o código ${barcode}`);
+    return copy;
+};
+
+// "quantity" e "available" do livro passam a ser derivados dos exemplares:
+// extraviados e baixados saem do acervo; só os disponíveis podem ser emprestados
+const syncBookCounters = (db: MockDatabase, book: Book) => {
+    const copies = db.copies.filter((copy) => copy.book_id === book.id);
+    book.quantity = copies.filter((copy) => ![CopyStatus.LOST, CopyStatus.WITHDRAWN].includes(copy.status)).length;
+    book.available = copies.filter((copy) => copy.status === CopyStatus.AVAILABLE).length;
+};
+
+const COPY_UNAVAILABLE_MESSAGES: Record<CopyStatus, string> = {
+    [CopyStatus.AVAILABLE]: '',
+    [CopyStatus.ON_LOAN]: 'já está emprestado',
+    [CopyStatus.ON_HOLD]: 'está reservado',
+    [CopyStatus.IN_REPAIR]: 'está em reparo',
+    [CopyStatus.LOST]: 'está registrado como extraviado',
+    [CopyStatus.WITHDRAWN]: 'foi baixado do acervo',
+};
+
+const addCopy = (db: MockDatabase, book: Book, input: Partial<BookCopy> = {}) => {
+    const id = nextId(db.copies);
+    const barcode = input.barcode?.trim() || formatBarcode(id);
+    if (db.copies.some((copy) => copy.barcode.toLowerCase() === barcode.toLowerCase())) {
+        throw new MockHttpError(409, 'Código de barras já cadastrado', { barcode: 'Já existe um exemplar com este código' });
+    }
+
+    const copy: BookCopy = {
+        id,
+        book_id: book.id,
+        barcode,
+        shelf_location: input.shelf_location,
+        condition: input.condition ?? CopyCondition.NEW,
+        acquired_at: input.acquired_at ?? new Date().toISOString().slice(0, 10),
+        status: input.status ?? CopyStatus.AVAILABLE,
+        notes: input.notes,
+    };
+    db.copies.push(copy);
+    return copy;
+};
+
+const openLoanForCopy = (db: MockDatabase, copy: BookCopy) =>
+    db.loans.find((loan) => loan.copyId === copy.id && !loan.return_date) ?? null;
+
+// --- Reservas ---------------------------------------------------------------
+
+const ACTIVE_HOLD_STATUSES = [HoldStatus.WAITING, HoldStatus.READY];
+
+const findHold = (db: MockDatabase, id: number | string) => {
+    const hold = db.holds.find((item) => item.id === Number(id));
+    if (!hold) throw new MockHttpError(404, 'Reserva não encontrada');
+    return hold;
+};
+
+const readyHoldForCopy = (db: MockDatabase, copy: BookCopy) =>
+    db.holds.find((hold) => hold.copyId === copy.id && hold.status === HoldStatus.READY) ?? null;
+
+const waitingQueue = (db: MockDatabase, bookId: number) =>
+    db.holds
+        .filter((hold) => hold.bookId === bookId && hold.status === HoldStatus.WAITING)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+// Separa os exemplares disponíveis para os primeiros da fila do livro
+const allocateHolds = (db: MockDatabase, book: Book) => {
+    const queue = waitingQueue(db, book.id);
+    const available = db.copies.filter((copy) => copy.book_id === book.id && copy.status === CopyStatus.AVAILABLE);
+
+    queue.slice(0, available.length).forEach((hold, index) => {
+        const copy = available[index];
+        const readyAt = new Date();
+        const expiresAt = new Date(readyAt);
+        expiresAt.setDate(expiresAt.getDate() + db.policy.hold_pickup_days);
+
+        Object.assign(hold, {
+            status: HoldStatus.READY,
+            copyId: copy.id,
+            ready_at: readyAt.toISOString(),
+            expires_at: expiresAt.toISOString(),
+        });
+        copy.status = CopyStatus.ON_HOLD;
+    });
+
+    syncBookCounters(db, book);
+};
+
+// Libera o exemplar de uma reserva pronta (cancelada ou expirada) para o próximo
+const releaseHold = (db: MockDatabase, hold: MockHoldRecord, status: HoldStatus) => {
+    const copy = hold.copyId ? db.copies.find((item) => item.id === hold.copyId) : undefined;
+    hold.status = status;
+    if (copy?.status === CopyStatus.ON_HOLD) copy.status = CopyStatus.AVAILABLE;
+    allocateHolds(db, findBook(db, hold.bookId));
+};
+
+// Não há tarefa agendada no modo offline: as reservas vencidas expiram na
+// primeira requisição depois do prazo
+const expireHolds = (db: MockDatabase) => {
+    const now = new Date().toISOString();
+    db.holds
+        .filter((hold) => hold.status === HoldStatus.READY && hold.expires_at && hold.expires_at < now)
+        .forEach((hold) => releaseHold(db, hold, HoldStatus.EXPIRED));
+};
+
+const hydrateHold = (db: MockDatabase, hold: MockHoldRecord): Hold => {
+    const position =
+        hold.status === HoldStatus.WAITING
+            ? waitingQueue(db, hold.bookId).findIndex((item) => item.id === hold.id) + 1
+            : null;
+
+    return {
+        id: hold.id,
+        book: findBook(db, hold.bookId),
+        person: toPersonSummary(db, findPerson(db, hold.personId)),
+        status: hold.status,
+        created_at: hold.created_at,
+        position,
+        ready_at: hold.ready_at,
+        expires_at: hold.expires_at,
+        copy: hold.copyId ? db.copies.find((copy) => copy.id === hold.copyId) : undefined,
+    };
+};
+
+const lendCopy = (db: MockDatabase, copy: BookCopy, person: MockPerson) => {
+    const book = findBook(db, copy.book_id);
+    const hold = copy.status === CopyStatus.ON_HOLD ? readyHoldForCopy(db, copy) : null;
+    if (hold && hold.personId !== person.id) {
+        const reservedFor = findPerson(db, hold.personId);
+        throw new MockHttpError(409, `O exemplar ${copy.barcode} está reservado para ${reservedFor.name}`);
+    }
+    if (copy.status !== CopyStatus.AVAILABLE && !hold) {
+        throw new MockHttpError(409, `O exemplar ${copy.barcode} ${COPY_UNAVAILABLE_MESSAGES[copy.status]}`);
+    }
+    const summary = toPersonSummary(db, person);
+    const rules = rulesFor(db, person.id);
+    if (summary.overdue_loans_count > 0) {
+        throw new MockHttpError(409, `${person.name} possui empréstimos em atraso`);
+    }
+    if (summary.blocked) {
+        throw new MockHttpError(
+            409,
+            `${person.name} deve ${formatCurrency(summary.balance)}, acima do limite de ${formatCurrency(
+                rules.max_balance
+            )}`
+        );
+    }
+    if (summary.active_loans_count >= rules.max_active_loans) {
+        throw new MockHttpError(
+            409,
+            `${person.name} já está com ${rules.max_active_loans} empréstimos, o limite de empréstimos simultâneos`
+        );
+    }
+
+    const loan: MockLoanRecord = {
+        id: nextId(db.loans),
+        bookId: book.id,
+        copyId: copy.id,
+        personId: person.id,
+        start_date: new Date().toISOString(),
+        duration: rules.loan_duration_days,
+        return_date: null,
+        renewals: 0,
+    };
+    db.loans.push(loan);
+    if (hold) hold.status = HoldStatus.FULFILLED;
+    copy.status = CopyStatus.ON_LOAN;
+    syncBookCounters(db, book);
+    recordActivity(db, loan, RecentActivityTypeEnum.LOAN_CREATED);
+    return loan;
+};
+
+// Exemplar para um empréstimo sem código lido: o separado para a reserva da
+// pessoa, se houver, senão o primeiro disponível
+const pickCopyForLoan = (db: MockDatabase, book: Book, person: MockPerson) => {
+    const reserved = db.holds.find(
+        (hold) => hold.bookId === book.id && hold.personId === person.id && hold.status === HoldStatus.READY
+    );
+    const copy = db.copies.find((item) =>
+        reserved ? item.id === reserved.copyId : item.book_id === book.id && item.status === CopyStatus.AVAILABLE
+    );
+    if (!copy) {
+        throw new MockHttpError(409, `Não há exemplares disponíveis de "${book.title}"`);
+    }
+    return copy;
+};
+
+// Multas que os empréstimos em atraso ainda em aberto já acumularam
+const accruingFines = (db: MockDatabase, personId: number) => {
+    const rules = rulesFor(db, personId);
+    return roundCurrency(
+        db.loans
+            .filter((loan) => loan.personId === personId && !loan.return_date)
+            .reduce((total, loan) => total + computeOverdueFine(loan, rules), 0)
+    );
+};
+
+const personBalance = (db: MockDatabase, personId: number) =>
+    roundCurrency(
+        db.fees.filter((fee) => fee.personId === personId).reduce((total, fee) => total + fee.amount, 0) +
+            accruingFines(db, personId)
+    );
+
+// Pessoas com empréstimo em atraso ou débito acima do limite da política
+// ficam bloqueadas para novos empréstimos
+const toPersonSummary = (db: MockDatabase, person: MockPerson): User => {
+    const active = db.loans.filter((loan) => loan.personId === person.id && !loan.return_date);
+    const overdue = active.filter((loan) => deriveType(db, loan) === LoanStatus.OVERDUE).length;
+    const balance = personBalance(db, person.id);
+    return {
+        ...toPublicUser(person),
+        active_loans_count: active.length,
+        overdue_loans_count: overdue,
+        balance,
+        blocked: overdue > 0 || balance > rulesFor(db, person.id).max_balance,
+    };
+};
+
+const hydrateFee = (db: MockDatabase, fee: MockFeeRecord): FeeEntry => {
+    const loan = fee.loanId ? db.loans.find((item) => item.id === fee.loanId) : undefined;
+    return {
+        id: fee.id,
+        type: fee.type,
+        amount: fee.amount,
+        reason: fee.reason,
+        loan: loan
+            ? {
+                  id: loan.id,
+                  book: findBook(db, loan.bookId),
+                  copy: loan.copyId ? db.copies.find((copy) => copy.id === loan.copyId) : undefined,
+              }
+            : null,
+        created_at: fee.created_at,
+        created_by: fee.createdBy,
+    };
+};
+
+const addFee = (db: MockDatabase, fee: Omit<MockFeeRecord, 'id' | 'created_at'>) => {
+    const record: MockFeeRecord = { ...fee, id: nextId(db.fees), created_at: new Date().toISOString() };
+    db.fees.push(record);
+    return record;
+};
+
+const FEE_CHARGE_TYPES = [FeeType.LOST_ITEM, FeeType.DAMAGED_ITEM];
+
+const hydrateLoan = (db: MockDatabase, loan: MockLoanRecord): Loan => ({
+    id: loan.id,
+    book: findBook(db, loan.bookId),
+    copy: loan.copyId ? db.copies.find((copy) => copy.id === loan.copyId) : undefined,
+    person: toPublicUser(findPerson(db, loan.personId)),
+    start_date: loan.start_date,
+    duration: loan.duration,
+    due_date: getDueDate(loan).toISOString(),
+    return_date: loan.return_date,
+    renewals: loan.renewals ?? 0,
+    type: deriveType(db, loan),
+});
+
+const recordActivity = (db: MockDatabase, loan: MockLoanRecord, activity: RecentActivityTypeEnum) => {
+    db.activities.push({
+        id: nextId(db.activities),
+        loanId: loan.id,
+        activity,
+        created_at: new Date().toISOString(),
+    });
+};
+
+const matchesQuery = (query: string | undefined, ...fields: (string | undefined)[]) => {
+    if (!query?.trim()) return true;
+    const term = query.trim().toLowerCase();
+    return fields.some((field) => field?.toLowerCase().includes(term));
+};
+
+// ---------------------------------------------------------------------------
+// Busca facetada do catálogo
+// ---------------------------------------------------------------------------
+
+// "where" traz a busca avançada já estruturada pelo cliente (ver catalogQuery)
+const parseWhere = (where: string): CatalogQueryNode => {
+    try {
+        return JSON.parse(where) as CatalogQueryNode;
+    } catch {
+        throw new MockHttpError(400, 'Filtro de busca inválido', { where: 'JSON inválido' });
+    }
+};
+
+const bookSearchPredicate = (query: RouteContext['query']): ((book: Book) => boolean) => {
+    if (!query.where) {
+        return (book) =>
+            matchesQuery(
+                query.q,
+                book.title,
+                book.isbn,
+                book.series,
+                ...getContributors(book).map((contributor) => contributor.name),
+                ...(book.subjects ?? [])
+            );
+    }
+    const where = parseWhere(query.where);
+    return (book) => matchesCatalogQuery(book, where);
+};
+
+type BookFacetField = 'author' | 'publisher' | 'language' | 'published_year' | 'available';
+
+const BOOK_FACET_FILTERS: Record<BookFacetField, (book: Book, query: RouteContext['query']) => boolean> = {
+    author: (book, query) => !query.author || book.author === query.author,
+    publisher: (book, query) => !query.publisher || book.publisher === query.publisher,
+    language: (book, query) => !query.language || book.language === query.language,
+    published_year: (book, query) =>
+        (!query.year_from || (book.published_year ?? 0) >= Number(query.year_from)) &&
+        (!query.year_to || (book.published_year ?? Infinity) <= Number(query.year_to)),
+    available: (book, query) => query.available !== 'true' || book.available > 0,
+};
+
+// Aplica todos os filtros, menos o da faceta indicada: assim a contagem de uma
+// faceta mostra quantos resultados haveria ao trocar o valor dela
+const applyBookFilters = (books: Book[], query: RouteContext['query'], except?: BookFacetField) =>
+    books.filter((book) =>
+        (Object.keys(BOOK_FACET_FILTERS) as BookFacetField[]).every(
+            (field) => field === except || BOOK_FACET_FILTERS[field](book, query)
+        )
+    );
+
+const countBy = (books: Book[], pick: (book: Book) => string | number | undefined): FacetCount[] => {
+    const counts = new Map<string, number>();
+    books.forEach((book) => {
+        const value = pick(book);
+        if (value === undefined || value === '') return;
+        counts.set(String(value), (counts.get(String(value)) ?? 0) + 1);
+    });
+    return [...counts.entries()]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+const buildBookFacets = (books: Book[], query: RouteContext['query']): BookFacets => {
+    const forAvailability = applyBookFilters(books, query, 'available');
+    return {
+        author: countBy(applyBookFilters(books, query, 'author'), (book) => book.author),
+        publisher: countBy(applyBookFilters(books, query, 'publisher'), (book) => book.publisher),
+        language: countBy(applyBookFilters(books, query, 'language'), (book) => book.language),
+        published_year: countBy(applyBookFilters(books, query, 'published_year'), (book) => book.published_year)
+            .sort((a, b) => Number(b.value) - Number(a.value)),
+        availability: {
+            available: forAvailability.filter((book) => book.available > 0).length,
+            unavailable: forAvailability.filter((book) => book.available <= 0).length,
+        },
+    };
+};
+
+const sortBooks = (db: MockDatabase, books: Book[], sort: string | undefined) => {
+    const loanCount = (book: Book) => db.loans.filter((loan) => loan.bookId === book.id).length;
+    const byTitle = (a: Book, b: Book) => a.title.localeCompare(b.title);
+
+    switch (sort) {
+        case 'author':
+            return [...books].sort((a, b) => a.author.localeCompare(b.author) || byTitle(a, b));
+        case 'newest':
+            return [...books].sort((a, b) => (b.published_year ?? 0) - (a.published_year ?? 0) || byTitle(a, b));
+        case 'most_borrowed':
+            return [...books].sort((a, b) => loanCount(b) - loanCount(a) || byTitle(a, b));
+        case 'title':
+            return [...books].sort(byTitle);
+        default:
+            return books;
+    }
+};
+
+// Metadados bibliográficos aceitos no cadastro e na edição. Quando vêm
+// colaboradores, o campo "author" é recalculado a partir deles.
+const BOOK_METADATA_FIELDS = [
+    'description',
+    'publisher',
+    'published_year',
+    'edition',
+    'language',
+    'page_count',
+    'subjects',
+    'series',
+    'series_number',
+    'contributors',
+] as const;
+
+const readBookMetadata = (body: RouteContext['body']): Partial<Book> => {
+    const metadata: Partial<Book> = {};
+    BOOK_METADATA_FIELDS.forEach((field) => {
+        // null apaga o campo
+        if (body[field] !== undefined) Object.assign(metadata, { [field]: body[field] ?? undefined });
+    });
+
+    if (metadata.contributors) {
+        metadata.contributors = metadata.contributors.filter((contributor) => contributor.name?.trim());
+        const author = summarizeAuthors(metadata.contributors);
+        if (!author) {
+            throw new MockHttpError(400, 'Dados inválidos', { contributors: 'Informe ao menos um autor' });
+        }
+        metadata.author = author;
+    }
+
+    const maxYear = new Date().getFullYear() + 1;
+    if (metadata.published_year != null && !(metadata.published_year > 0 && metadata.published_year <= maxYear)) {
+        throw new MockHttpError(400, 'Dados inválidos', { published_year: `Ano entre 1 e ${maxYear}` });
+    }
+    if (metadata.page_count != null && !(metadata.page_count > 0)) {
+        throw new MockHttpError(400, 'Dados inválidos', { page_count: 'Número de páginas inválido' });
+    }
+    return metadata;
+};
+
+// ISBN guardado sem hífens. As formas de 10 e 13 dígitos da mesma edição
+// contam como o mesmo livro.
+const readIsbn = (db: MockDatabase, value: string, bookId?: number) => {
+    const error = getIsbnError(String(value));
+    if (error) {
+        throw new MockHttpError(400, 'Dados inválidos', { isbn: error });
+    }
+    const isbn = cleanIsbn(String(value));
+    if (db.books.some((book) => book.id !== bookId && toIsbn13(book.isbn) === toIsbn13(isbn))) {
+        throw new MockHttpError(409, 'Já existe um livro com este ISBN', { isbn: 'ISBN já cadastrado' });
+    }
+    return isbn;
+};
+
+const registerPerson = (db: MockDatabase, body: RouteContext['body'], role: Role) => {
+    requireFields(body, { name: 'Nome', email: 'E-mail', password: 'Senha' });
+    const { name, email, password } = body;
+    if (!EMAIL_PATTERN.test(email)) {
+        throw new MockHttpError(400, 'Dados inválidos', { email: 'E-mail inválido' });
+    }
+    if (db.people.some((person) => person.email.toLowerCase() === String(email).toLowerCase())) {
+        throw new MockHttpError(409, 'E-mail já cadastrado', { email: 'E-mail já cadastrado' });
+    }
+
+    const person: MockPerson = { id: nextId(db.people), name, email, password, role };
+    db.people.push(person);
+    return { status: 201, data: toPublicUser(person) };
+};
+
+// ---------------------------------------------------------------------------
+// Rotas
+// ---------------------------------------------------------------------------
+
+const routes: MockRoute[] = [
+    {
+        method: 'GET',
+        path: '/health',
+        handler: () => ({ data: { status: 'UP' } }),
+    },
+
+    // Auth
+    {
+        method: 'POST',
+        path: '/auth/login',
+        handler: ({ db, body }) => {
+            const person = db.people.find(
+                (item) => item.email.toLowerCase() === String(body.email ?? '').toLowerCase()
+            );
+            if (!person || person.password !== body.password) {
+                throw new MockHttpError(400, 'Credenciais inválidas');
+            }
+            return { data: issueTokens(person) };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/auth/refresh-token',
+        handler: ({ db, body }) => {
+            const payload = body.refresh_token ? verifyToken(body.refresh_token, 'refresh') : null;
+            const person = payload && db.people.find((item) => item.id === payload.id);
+            if (!payload || !person || db.revokedTokens.includes(payload.jti)) {
+                throw new MockHttpError(401, 'Refresh token inválido ou expirado');
+            }
+
+            db.revokedTokens.push(payload.jti);
+            return { data: issueTokens(person) };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/auth/register',
+        handler: ({ db, body }) => registerPerson(db, body, Role.READER),
+    },
+    {
+        method: 'POST',
+        path: '/auth/register/librarian',
+        handler: ({ db, body }) => registerPerson(db, body, Role.LIBRARIAN),
+    },
+
+    // Books
+    {
+        method: 'GET',
+        path: '/books',
+        roles: [],
+        handler: ({ db, query }) => {
+            const matching = db.books.filter(bookSearchPredicate(query));
+            const books = sortBooks(db, applyBookFilters(matching, query), query.sort);
+            return { data: { ...paginateEnvelope(books, query), facets: buildBookFacets(matching, query) } };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/books/:id',
+        roles: [],
+        handler: ({ db, params }) => ({ data: findBook(db, params.id) }),
+    },
+    {
+        method: 'POST',
+        path: '/books',
+        roles: STAFF_ROLES,
+        handler: ({ db, body }) => {
+            const metadata = readBookMetadata(body);
+            requireFields({ ...body, ...metadata }, { title: 'Título', author: 'Autor', isbn: 'ISBN' });
+            const isbn = readIsbn(db, body.isbn);
+
+            const quantity = Math.max(1, Number(body.quantity) || 1);
+            const book: Book = {
+                id: nextId(db.books),
+                isbn,
+                title: body.title,
+                author: body.author,
+                ...metadata,
+                quantity,
+                available: quantity,
+            };
+            db.books.push(book);
+            for (let i = 0; i < quantity; i++) addCopy(db, book);
+            return { status: 201, data: book };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/books/:id/cover',
+        roles: STAFF_ROLES,
+        handler: ({ db, params, body }) => {
+            const book = findBook(db, params.id);
+            const { file } = body;
+            if (!file) {
+                throw new MockHttpError(400, 'Dados inválidos', { file: 'Envie uma imagem' });
+            }
+            if (!file.type.startsWith('image/')) {
+                throw new MockHttpError(400, 'Dados inválidos', { file: 'O arquivo deve ser uma imagem' });
+            }
+            if (file.size > MAX_COVER_UPLOAD_BYTES) {
+                throw new MockHttpError(413, `A imagem excede o limite de ${MAX_COVER_UPLOAD_LABEL}`, {
+                    file: `Imagem maior que ${MAX_COVER_UPLOAD_LABEL}`,
+                });
+            }
+
+            book.cover_url = file.dataUrl;
+            return { data: book };
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/books/:id',
+        roles: STAFF_ROLES,
+        handler: ({ db, params, body }) => {
+            const book = findBook(db, params.id);
+            const quantity = body.quantity !== undefined ? Number(body.quantity) : book.quantity;
+            // Reduzir a quantidade baixa exemplares disponíveis; os demais
+            // (emprestados, em reparo) precisam ser tratados um a um
+            const available = db.copies.filter(
+                (copy) => copy.book_id === book.id && copy.status === CopyStatus.AVAILABLE
+            );
+            const minimum = book.quantity - available.length;
+
+            if (quantity < minimum) {
+                throw new MockHttpError(409, `Existem ${minimum} exemplares emprestados ou em reparo deste livro`, {
+                    quantity: `A quantidade não pode ser menor que ${minimum} (exemplares emprestados ou em reparo)`,
+                });
+            }
+            const isbn = body.isbn ? readIsbn(db, body.isbn, book.id) : book.isbn;
+
+            Object.assign(book, {
+                isbn,
+                title: body.title ?? book.title,
+                author: body.author ?? book.author,
+                ...readBookMetadata(body),
+            });
+            for (let i = book.quantity; i < quantity; i++) addCopy(db, book);
+            available.slice(0, Math.max(0, book.quantity - quantity)).forEach((copy) => {
+                copy.status = CopyStatus.WITHDRAWN;
+            });
+            allocateHolds(db, book);
+            return { data: book };
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/books/:id',
+        roles: STAFF_ROLES,
+        handler: ({ db, params }) => {
+            const book = findBook(db, params.id);
+            if (db.loans.some((loan) => loan.bookId === book.id && !loan.return_date)) {
+                throw new MockHttpError(409, 'O livro possui empréstimos ativos');
+            }
+
+            const loanIds = db.loans.filter((loan) => loan.bookId === book.id).map((loan) => loan.id);
+            db.activities = db.activities.filter((activity) => !loanIds.includes(activity.loanId));
+            db.loans = db.loans.filter((loan) => loan.bookId !== book.id);
+            db.copies = db.copies.filter((copy) => copy.book_id !== book.id);
+            db.holds = db.holds.filter((hold) => hold.bookId !== book.id);
+            db.books = db.books.filter((item) => item.id !== book.id);
+            return { status: 204, data: null };
+        },
+    },
+
+    // Copies
+    {
+        method: 'GET',
+        path: '/books/:id/copies',
+        roles: STAFF_ROLES,
+        handler: ({ db, params }) => {
+            const book = findBook(db, params.id);
+            return { data: db.copies.filter((copy) => copy.book_id === book.id) };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/books/:id/copies',
+        roles: STAFF_ROLES,
+        handler: ({ db, params, body }) => {
+            const book = findBook(db, params.id);
+            if (body.status === CopyStatus.ON_LOAN || body.status === CopyStatus.ON_HOLD) {
+                throw new MockHttpError(400, 'Dados inválidos', {
+                    status: 'A situação do exemplar muda pelos empréstimos e reservas',
+                });
+            }
+
+            const copy = addCopy(db, book, body);
+            allocateHolds(db, book);
+            return { status: 201, data: copy };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/copies/barcode/:barcode',
+        roles: STAFF_ROLES,
+        handler: ({ db, params }) => {
+            const copy = findCopyByBarcode(db, params.barcode);
+            const loan = openLoanForCopy(db, copy);
+            const hold = readyHoldForCopy(db, copy);
+            const data: CopyLookup = {
+                ...copy,
+                book: findBook(db, copy.book_id),
+                active_loan: loan ? hydrateLoan(db, loan) : null,
+                hold: hold ? hydrateHold(db, hold) : null,
+            };
+            return { data };
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/copies/:id',
+        roles: STAFF_ROLES,
+        handler: ({ db, params, body }) => {
+            const copy = findCopy(db, params.id);
+            const barcode = body.barcode?.trim();
+            if (barcode !== undefined && !barcode) {
+                throw new MockHttpError(400, 'Dados inválidos', { barcode: 'Informe o código de barras' });
+            }
+            if (
+                barcode &&
+                db.copies.some((item) => item.id !== copy.id && item.barcode.toLowerCase() === barcode.toLowerCase())
+            ) {
+                throw new MockHttpError(409, 'Código de barras já cadastrado', {
+                    barcode: 'Já existe um exemplar com este código',
+                });
+            }
+            if (body.status && body.status !== copy.status) {
+                const circulating = [CopyStatus.ON_LOAN, CopyStatus.ON_HOLD];
+                if (circulating.includes(body.status) || circulating.includes(copy.status)) {
+                    throw new MockHttpError(409, 'A situação de exemplares emprestados muda apenas pelo empréstimo', {
+                        status: 'Registre o empréstimo ou a devolução',
+                    });
+                }
+            }
+
+            Object.assign(copy, {
+                barcode: barcode ?? copy.barcode,
+                shelf_location: body.shelf_location === null ? undefined : body.shelf_location ?? copy.shelf_location,
+                condition: body.condition ?? copy.condition,
+                acquired_at: body.acquired_at === null ? undefined : body.acquired_at ?? copy.acquired_at,
+                status: body.status ?? copy.status,
+                notes: body.notes === null ? undefined : body.notes ?? copy.notes,
+            });
+            allocateHolds(db, findBook(db, copy.book_id));
+            return { data: copy };
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/copies/:id',
+        roles: STAFF_ROLES,
+        handler: ({ db, params }) => {
+            const copy = findCopy(db, params.id);
+            if (copy.status === CopyStatus.ON_LOAN) {
+                throw new MockHttpError(409, 'O exemplar está emprestado');
+            }
+            if (copy.status === CopyStatus.ON_HOLD) {
+                throw new MockHttpError(409, 'O exemplar está separado para uma reserva');
+            }
+            // Exemplares com histórico continuam existindo para os relatórios
+            if (db.loans.some((loan) => loan.copyId === copy.id)) {
+                throw new MockHttpError(409, 'O exemplar possui histórico de empréstimos. Dê baixa em vez de excluir');
+            }
+
+            db.copies = db.copies.filter((item) => item.id !== copy.id);
+            syncBookCounters(db, findBook(db, copy.book_id));
+            return { status: 204, data: null };
+        },
+    },
+
+    // Holds
+    {
+        method: 'GET',
+        path: '/holds',
+        roles: STAFF_ROLES,
+        handler: ({ db, query }) => {
+            const statuses = query.status ? query.status.split(',') : ACTIVE_HOLD_STATUSES;
+            // Prontas primeiro (as que vencem antes no topo), depois as filas
+            const holds = db.holds
+                .filter((hold) => statuses.includes(hold.status))
+                .sort(
+                    (a, b) =>
+                        (a.expires_at ?? '\uffff').localeCompare(b.expires_at ?? '\uffff') ||
+                        a.created_at.localeCompare(b.created_at)
+                );
+            return { data: holds.map((hold) => hydrateHold(db, hold)) };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/books/:id/holds',
+        roles: [],
+        handler: (ctx) => {
+            const { db, params, body, currentUser } = ctx;
+            const book = findBook(db, params.id);
+            const personId = body.person_id ? Number(body.person_id) : currentUser.id;
+            requireSelfOrStaff(ctx, personId);
+            const person = findPerson(db, personId);
+
+            if (book.available > 0) {
+                throw new MockHttpError(409, `Há exemplares disponíveis de "${book.title}" para retirada no balcão`);
+            }
+            if (
+                db.holds.some(
+                    (hold) =>
+                        hold.bookId === book.id &&
+                        hold.personId === person.id &&
+                        ACTIVE_HOLD_STATUSES.includes(hold.status)
+                )
+            ) {
+                throw new MockHttpError(409, `${person.name} já possui uma reserva deste livro`);
+            }
+            if (db.loans.some((loan) => loan.bookId === book.id && loan.personId === person.id && !loan.return_date)) {
+                throw new MockHttpError(409, `${person.name} já está com um exemplar deste livro`);
+            }
+
+            const hold: MockHoldRecord = {
+                id: nextId(db.holds),
+                bookId: book.id,
+                personId: person.id,
+                status: HoldStatus.WAITING,
+                created_at: new Date().toISOString(),
+                ready_at: null,
+                expires_at: null,
+            };
+            db.holds.push(hold);
+            return { status: 201, data: hydrateHold(db, hold) };
+        },
+    },
+    {
+        method: 'PATCH',
+        path: '/holds/:id/cancel',
+        roles: [],
+        handler: (ctx) => {
+            const hold = findHold(ctx.db, ctx.params.id);
+            requireSelfOrStaff(ctx, hold.personId);
+            if (!ACTIVE_HOLD_STATUSES.includes(hold.status)) {
+                throw new MockHttpError(409, 'A reserva já foi encerrada');
+            }
+
+            releaseHold(ctx.db, hold, HoldStatus.CANCELED);
+            return { data: hydrateHold(ctx.db, hold) };
+        },
+    },
+
+    // Loans
+    {
+        method: 'GET',
+        path: '/loan',
+        roles: STAFF_ROLES,
+        handler: ({ db, query }) => {
+            const types = query.types ? query.types.split(',') : [];
+            const loans = db.loans
+                .filter((loan) => !query.person_id || loan.personId === Number(query.person_id))
+                .filter((loan) => !query.book_id || loan.bookId === Number(query.book_id))
+                .filter((loan) => types.length === 0 || types.includes(deriveType(db, loan)))
+                .sort((a, b) => b.start_date.localeCompare(a.start_date));
+            return { data: paginateEnvelope(loans, query, (loan) => hydrateLoan(db, loan)) };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/loan/activity',
+        roles: STAFF_ROLES,
+        handler: ({ db, query }) => {
+            const maximum = query.maximum_date ? new Date(`${query.maximum_date}T23:59:59.999`) : null;
+            const activities = db.activities
+                .filter((activity) => !maximum || new Date(activity.created_at) <= maximum)
+                .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+            const data: RecentActivityResponse[] = paginate(activities, query).map((activity) => ({
+                id: activity.id,
+                loan: hydrateLoan(db, findLoan(db, activity.loanId)),
+                activity: activity.activity,
+                created_at: activity.created_at,
+            }));
+            return { data };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/loan/:bookId/:personId',
+        roles: STAFF_ROLES,
+        handler: ({ db, params }) => {
+            // Rota antiga, sem exemplar: usa o primeiro disponível do livro
+            const book = findBook(db, params.bookId);
+            const person = findPerson(db, params.personId);
+
+            const loan = lendCopy(db, pickCopyForLoan(db, book, person), person);
+            return { status: 201, data: hydrateLoan(db, loan) };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/loan',
+        roles: STAFF_ROLES,
+        handler: ({ db, body }) => {
+            requireFields(body, { copy_barcode: 'Código do exemplar', person_id: 'Pessoa' });
+            const copy = findCopyByBarcode(db, body.copy_barcode);
+            const person = findPerson(db, body.person_id);
+
+            const loan = lendCopy(db, copy, person);
+            return { status: 201, data: hydrateLoan(db, loan) };
+        },
+    },
+    {
+        method: 'PATCH',
+        path: '/loan/:id/extend',
+        roles: [],
+        handler: (ctx) => {
+            const loan = findLoan(ctx.db, ctx.params.id);
+            requireSelfOrStaff(ctx, loan.personId);
+            const rules = rulesFor(ctx.db, loan.personId);
+            const block = getLoanActionBlock(loan, 'extend', rules);
+            if (block) throw new MockHttpError(409, block);
+
+            loan.duration += rules.extension_days;
+            loan.renewals = (loan.renewals ?? 0) + 1;
+            recordActivity(ctx.db, loan, RecentActivityTypeEnum.LOAN_EXTENDED);
+            return { data: hydrateLoan(ctx.db, loan) };
+        },
+    },
+    {
+        method: 'PATCH',
+        path: '/loan/:id/return',
+        roles: STAFF_ROLES,
+        handler: ({ db, params }) => {
+            const loan = findLoan(db, params.id);
+            const rules = rulesFor(db, loan.personId);
+            const block = getLoanActionBlock(loan, 'return', rules);
+            if (block) throw new MockHttpError(409, block);
+
+            loan.return_date = new Date().toISOString();
+            const fineAmount = computeOverdueFine(loan, rules);
+            const fine =
+                fineAmount > 0
+                    ? addFee(db, {
+                          personId: loan.personId,
+                          loanId: loan.id,
+                          type: FeeType.OVERDUE_FINE,
+                          amount: fineAmount,
+                          reason: `${getDaysOverdue(loan, rules)} dia(s) de atraso`,
+                          createdBy: null,
+                      })
+                    : null;
+            const copy = loan.copyId ? db.copies.find((item) => item.id === loan.copyId) : undefined;
+            if (copy) copy.status = CopyStatus.AVAILABLE;
+            allocateHolds(db, findBook(db, loan.bookId));
+            recordActivity(db, loan, RecentActivityTypeEnum.LOAN_RETURNED);
+
+            // Avisa o balcão quando o exemplar devolvido foi separado para uma reserva
+            const hold = copy ? readyHoldForCopy(db, copy) : null;
+            return {
+                data: {
+                    ...hydrateLoan(db, loan),
+                    hold: hold ? hydrateHold(db, hold) : null,
+                    fine: fine ? hydrateFee(db, fine) : null,
+                },
+            };
+        },
+    },
+
+    // People
+    {
+        method: 'GET',
+        path: '/people',
+        roles: [],
+        handler: ({ db, query }) => {
+            const people = db.people
+                .filter((person) => !query.roles || person.role === query.roles)
+                .filter((person) => matchesQuery(query.q, person.name, person.email));
+            return { data: paginateEnvelope(people, query, (person) => toPersonSummary(db, person)) };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/people/:id',
+        roles: [],
+        handler: (ctx) => {
+            const person = findPerson(ctx.db, ctx.params.id);
+            requireSelfOrStaff(ctx, person.id);
+            return { data: toPublicUser(person) };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/people/:id/loans',
+        roles: [],
+        handler: (ctx) => {
+            const person = findPerson(ctx.db, ctx.params.id);
+            requireSelfOrStaff(ctx, person.id);
+            const loans = ctx.db.loans
+                .filter((loan) => loan.personId === person.id)
+                .sort((a, b) => b.start_date.localeCompare(a.start_date));
+            return { data: loans.map((loan) => hydrateLoan(ctx.db, loan)) };
+        },
+    },
+    {
+        // Autoatendimento: o leitor pede o empréstimo pela página do livro
+        method: 'POST',
+        path: '/people/:id/loans',
+        roles: [],
+        handler: (ctx) => {
+            const { db, params, body } = ctx;
+            const person = findPerson(db, params.id);
+            requireSelfOrStaff(ctx, person.id);
+            requireFields(body, { book_id: 'Livro' });
+            const book = findBook(db, body.book_id);
+            if (db.loans.some((loan) => loan.bookId === book.id && loan.personId === person.id && !loan.return_date)) {
+                throw new MockHttpError(409, `${person.name} já está com um exemplar deste livro`);
+            }
+
+            const loan = lendCopy(db, pickCopyForLoan(db, book, person), person);
+            return { status: 201, data: hydrateLoan(db, loan) };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/people/:id/fees',
+        roles: [],
+        handler: (ctx) => {
+            const person = findPerson(ctx.db, ctx.params.id);
+            requireSelfOrStaff(ctx, person.id);
+            const entries = ctx.db.fees
+                .filter((fee) => fee.personId === person.id)
+                .sort((a, b) => b.created_at.localeCompare(a.created_at));
+            const data: FeeLedger = {
+                entries: entries.map((fee) => hydrateFee(ctx.db, fee)),
+                accruing: accruingFines(ctx.db, person.id),
+                balance: personBalance(ctx.db, person.id),
+            };
+            return { data };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/people/:id/fees',
+        roles: STAFF_ROLES,
+        handler: ({ db, params, body, currentUser }) => {
+            const person = findPerson(db, params.id);
+            requireFields(body, { type: 'Tipo', amount: 'Valor' });
+            if (![...FEE_CHARGE_TYPES, ...CREDIT_FEE_TYPES].includes(body.type)) {
+                throw new MockHttpError(400, 'Multas por atraso são lançadas automaticamente na devolução');
+            }
+
+            const amount = Number(body.amount);
+            const fieldErrors: Record<string, string> = {};
+            if (!isCurrencyAmount(amount) || amount <= 0) {
+                fieldErrors.amount = 'Informe um valor maior que zero, com até dois decimais';
+            }
+            const reason = body.reason?.trim() || null;
+            if (!reason && body.type !== FeeType.PAYMENT) {
+                fieldErrors.reason = 'Motivo é obrigatório';
+            }
+            const balance = personBalance(db, person.id);
+            if (!fieldErrors.amount && CREDIT_FEE_TYPES.includes(body.type) && amount > balance) {
+                fieldErrors.amount = `Valor maior que o saldo devedor (${formatCurrency(balance)})`;
+            }
+            if (body.loan_id && findLoan(db, body.loan_id).personId !== person.id) {
+                fieldErrors.loan_id = 'Empréstimo de outra pessoa';
+            }
+            if (Object.keys(fieldErrors).length > 0) {
+                throw new MockHttpError(400, 'Dados inválidos', fieldErrors);
+            }
+
+            const fee = addFee(db, {
+                personId: person.id,
+                loanId: body.loan_id ? Number(body.loan_id) : null,
+                type: body.type,
+                amount: CREDIT_FEE_TYPES.includes(body.type) ? -amount : amount,
+                reason,
+                createdBy: currentUser?.name ?? null,
+            });
+            return { status: 201, data: hydrateFee(db, fee) };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/people/:id/holds',
+        roles: [],
+        handler: (ctx) => {
+            const person = findPerson(ctx.db, ctx.params.id);
+            requireSelfOrStaff(ctx, person.id);
+            const holds = ctx.db.holds
+                .filter((hold) => hold.personId === person.id)
+                .sort((a, b) => b.created_at.localeCompare(a.created_at));
+            return { data: holds.map((hold) => hydrateHold(ctx.db, hold)) };
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/people/:id',
+        roles: [],
+        handler: ({ db, params, body, currentUser }) => {
+            const person = findPerson(db, params.id);
+            if (currentUser?.role !== Role.ADMIN && currentUser?.id !== person.id) {
+                throw new MockHttpError(403, 'Acesso negado');
+            }
+            if (body.name !== undefined && body.name.trim().length < 2) {
+                throw new MockHttpError(400, 'Dados inválidos', { name: 'Nome deve ter pelo menos 2 caracteres' });
+            }
+            if (body.email !== undefined && !EMAIL_PATTERN.test(body.email)) {
+                throw new MockHttpError(400, 'Dados inválidos', { email: 'E-mail inválido' });
+            }
+            if (body.email && db.people.some((item) => item.email === body.email && item.id !== person.id)) {
+                throw new MockHttpError(409, 'E-mail já cadastrado', { email: 'E-mail já cadastrado' });
+            }
+
+            person.name = body.name ?? person.name;
+            person.email = body.email ?? person.email;
+            return { data: toPublicUser(person) };
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/people/:id',
+        roles: [Role.ADMIN],
+        handler: ({ db, params }) => {
+            const person = findPerson(db, params.id);
+            if (db.loans.some((loan) => loan.personId === person.id && !loan.return_date)) {
+                throw new MockHttpError(409, 'O usuário possui empréstimos ativos');
+            }
+            if (personBalance(db, person.id) > 0) {
+                throw new MockHttpError(409, 'O usuário possui débitos em aberto');
+            }
+
+            // Exemplares separados para o usuário passam ao próximo da fila
+            db.holds
+                .filter((hold) => hold.personId === person.id && ACTIVE_HOLD_STATUSES.includes(hold.status))
+                .forEach((hold) => releaseHold(db, hold, HoldStatus.CANCELED));
+            db.holds = db.holds.filter((hold) => hold.personId !== person.id);
+            db.fees = db.fees.filter((fee) => fee.personId !== person.id);
+            // Empréstimos devolvidos e suas atividades saem junto, como na
+            // exclusão de livros; senão as listagens apontariam para ninguém
+            const loanIds = db.loans.filter((loan) => loan.personId === person.id).map((loan) => loan.id);
+            db.activities = db.activities.filter((activity) => !loanIds.includes(activity.loanId));
+            db.loans = db.loans.filter((loan) => loan.personId !== person.id);
+            db.people = db.people.filter((item) => item.id !== person.id);
+            return { status: 204, data: null };
+        },
+    },
+    {
+        method: 'PATCH',
+        path: '/people/:id/:role',
+        roles: [Role.ADMIN],
+        handler: ({ db, params }) => {
+            const person = findPerson(db, params.id);
+            if (!Object.values(Role).includes(params.role as Role)) {
+                throw new MockHttpError(400, `Função inválida: ${params.role}`);
+            }
+
+            person.role = params.role as Role;
+            return { data: toPublicUser(person) };
+        },
+    },
+
+    // Loan policy
+    {
+        method: 'GET',
+        path: '/loan-policy',
+        roles: [],
+        handler: ({ db }) => ({ data: db.policy }),
+    },
+    {
+        method: 'PUT',
+        path: '/loan-policy',
+        roles: [Role.ADMIN],
+        handler: (ctx) => {
+            ctx.db.policy = parseLoanPolicy(ctx.body);
+            return { data: ctx.db.policy };
+        },
+    },
+
+    // Summary
+    {
+        method: 'GET',
+        path: '/summary',
+        roles: STAFF_ROLES,
+        handler: ({ db }) => {
+            const active = db.loans.filter((loan) => !loan.return_date);
+            const data: SummaryResponse = {
+                total_books: db.books.length,
+                active_loans_count: active.length,
+                readers_count: db.people.filter((person) => person.role === Role.READER).length,
+                overdue_loans_count: active.filter((loan) => deriveType(db, loan) === LoanStatus.OVERDUE).length,
+            };
+            return { data };
+        },
+    },
+];
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+const matchRoute = (method: string, url: string) => {
+    const segments = url.split('/').filter(Boolean);
+
+    for (const route of routes) {
+        if (route.method !== method) continue;
+
+        const routeSegments = route.path.split('/').filter(Boolean);
+        if (routeSegments.length !== segments.length) continue;
+
+        const params: Record<string, string> = {};
+        const matches = routeSegments.every((segment, index) => {
+            if (segment.startsWith(':')) {
+                params[segment.slice(1)] = decodeURIComponent(segments[index]);
+                return true;
+            }
+            return segment === segments[index];
+        });
+
+        if (matches) return { route, params };
+    }
+
+    return null;
+};
+
+const authenticate = (db: MockDatabase, config: InternalAxiosRequestConfig) => {
+    const header = config.headers?.Authorization;
+    const token = typeof header === 'string' ? header.replace(/^Bearer\s+/i, '') : '';
+    const payload = token ? verifyToken(token, 'access') : null;
+    return payload ? db.people.find((person) => person.id === payload.id) ?? null : null;
+};
+
+const toUploadedFile = async (file: File): Promise<UploadedFile> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = '';
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return { name: file.name, type: file.type, size: file.size, dataUrl: `data:${file.type};base64,${btoa(binary)}` };
+};
+
+const parseBody = async (data: unknown): Promise<MockRequestBody> => {
+    if (!data) return {};
+    // Uploads: os arquivos viram data URLs para caber no localStorage (ver storeCovers)
+    if (typeof FormData !== 'undefined' && data instanceof FormData) {
+        const body: Record<string, unknown> = {};
+        for (const [key, value] of data.entries()) {
+            body[key] = typeof value === 'string' ? value : await toUploadedFile(value);
+        }
+        return body as MockRequestBody;
+    }
+    if (typeof data === 'string') {
+        try {
+            return JSON.parse(data);
+        } catch {
+            return {};
+        }
+    }
+    return data as MockRequestBody;
+};
+
+const parseQuery = (config: InternalAxiosRequestConfig) => {
+    const query: Record<string, string | undefined> = {};
+    const [, search] = (config.url ?? '').split('?');
+    new URLSearchParams(search ?? '').forEach((value, key) => {
+        query[key] = value;
+    });
+    Object.entries(config.params ?? {}).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+            query[key] = String(value);
+        }
+    });
+    return query;
+};
+
+const buildResponse = (config: InternalAxiosRequestConfig, status: number, data: unknown): AxiosResponse => ({
+    data,
+    status,
+    statusText: String(status),
+    headers: { 'content-type': 'application/json' },
+    config,
+    request: {},
+});
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+    await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+    const method = (config.method ?? 'get').toUpperCase();
+    const path = (config.url ?? '').split('?')[0];
+    try {
+        const db = loadDatabase();
+        const match = matchRoute(method, path);
+        if (!match) {
+            throw new MockHttpError(404, `Rota não encontrada: ${method} ${path}`);
+        }
+
+        const currentUser = authenticate(db, config);
+        expireHolds(db);
+        const { roles } = match.route;
+
+        if (roles !== undefined) {
+            if (!currentUser) {
+                throw new MockHttpError(401, 'Token ausente ou expirado');
+            }
+            if (roles.length > 0 && !roles.includes(currentUser.role)) {
+                throw new MockHttpError(403, 'Acesso negado');
+            }
+        }
+
+        const result = match.route.handler({
+            db,
+            params: match.params,
+            query: parseQuery(config),
+            body: await parseBody(config.data),
+            currentUser,
+        });
+
+        saveDatabase(db);
+        return buildResponse(config, result.status ?? 200, result.data);
+    } catch (error) {
+        if (!(error instanceof MockHttpError)) throw error;
+
+        const errors = Object.entries(error.fieldErrors).map(([field, message]) => ({ field, message }));
+        const response = buildResponse(config, error.status, {
+            status: error.status,
+            message: error.message,
+            ...(errors.length > 0 ? { errors } : {}),
+        });
+        throw new AxiosError(
+            error.message,
+            error.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            response.request,
+            response
+        );
+    }
+};
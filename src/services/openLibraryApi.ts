@@ -1,9 +1,10 @@
 
 import axios from 'axios';
-import { OpenLibraryResponse, OpenLibraryBook } from '@/types';
+import { ContributorRole, OpenLibraryResponse, OpenLibraryBook } from '@/types';
+import { getEnvironment } from './environment';
 
 const openLibraryApi = axios.create({
-  baseURL: 'https://openlibrary.org',
+  baseURL: getEnvironment().openLibraryBaseUrl,
   headers: {
     'Content-Type': 'application/json'
   }
@@ -33,18 +34,37 @@ export const searchByISBN = async (isbn: string): Promise<OpenLibraryBook | null
   }
 };
 
+// Open Library usa códigos MARC; o catálogo guarda ISO 639-1
+const MARC_LANGUAGES: Record<string, string> = {
+  por: 'pt',
+  eng: 'en',
+  spa: 'es',
+  fre: 'fr',
+  ger: 'de',
+  ita: 'it',
+};
+
+// Quantos assuntos do Open Library aproveitar (a lista costuma ser enorme)
+const MAX_SUBJECTS = 8;
+
 // Parse OpenLibrary book to our format
 export const parseOpenLibraryBook = (book: OpenLibraryBook) => {
-  const authorName = book.author_name && book.author_name.length > 0 
-    ? book.author_name.join(', ')
-    : book.authors?.map(author => author.name).join(', ') || 'Desconhecido';
-    
+  const authorNames = book.author_name && book.author_name.length > 0
+    ? book.author_name
+    : book.authors?.map(author => author.name) || [];
+  const authorName = authorNames.join(', ') || 'Desconhecido';
+  const language = book.language?.map(code => MARC_LANGUAGES[code]).find(Boolean);
+
   return {
     title: book.title,
     author: authorName,
+    contributors: authorNames.map(name => ({ name, role: ContributorRole.AUTHOR })),
     isbn: book.isbn?.[0] || '',
     publisher: book.publisher?.[0] || '',
     publishedYear: book.publish_date ? parseInt(book.publish_date.slice(-4)) : undefined,
+    language,
+    pageCount: book.number_of_pages_median,
+    subjects: book.subject?.slice(0, MAX_SUBJECTS) || [],
     description: book.description || '',
     quantity: 1,
     availableQuantity: 1
@@ -0,0 +1,50 @@
+import { ACCESS_TOKEN_KEY, getRefreshToken } from './tokenStorage';
+
+// Sincroniza login, logout e renovação de token entre abas abertas.
+// Usa BroadcastChannel quando disponível e cai para o evento "storage" nos
+// navegadores que não o suportam (os tokens já ficam no localStorage).
+
+export type SessionSyncMessage =
+    | { type: 'LOGIN'; token: string; refreshToken: string | null }
+    | { type: 'TOKEN_REFRESHED'; token: string; refreshToken: string | null }
+    | { type: 'LOGOUT' };
+
+const CHANNEL_NAME = 'biblioteca-session';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const broadcastSession = (message: SessionSyncMessage) => {
+    channel?.postMessage(message);
+};
+
+export const subscribeSession = (handler: (message: SessionSyncMessage) => void) => {
+    if (channel) {
+        const onMessage = (event: MessageEvent<SessionSyncMessage>) => handler(event.data);
+        channel.addEventListener('message', onMessage);
+        return () => channel.removeEventListener('message', onMessage);
+    }
+
+    const onStorage = (event: StorageEvent) => {
+        if (event.key !== ACCESS_TOKEN_KEY) return;
+
+        if (!event.newValue) {
+            handler({ type: 'LOGOUT' });
+        } else if (!event.oldValue) {
+            handler({ type: 'LOGIN', token: event.newValue, refreshToken: getRefreshToken() });
+        } else {
+            handler({ type: 'TOKEN_REFRESHED', token: event.newValue, refreshToken: getRefreshToken() });
+        }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+};
+
+// Garante que só uma aba por vez chame o endpoint de refresh. Sem isso, duas
+// abas renovando juntas usariam o mesmo refresh token e a segunda seria
+// rejeitada pela rotação.
+export const withSessionLock = <T>(task: () => Promise<T>): Promise<T> => {
+    if (typeof navigator !== 'undefined' && navigator.locks?.request) {
+        return navigator.locks.request('biblioteca-token-refresh', task) as Promise<T>;
+    }
+    return task();
+};
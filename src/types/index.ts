@@ -9,6 +9,7 @@ export enum Role {
 export interface AuthState {
     user: User | null;
     token: string | null;
+    refreshToken: string | null;
     isAuthenticated: boolean;
     loading: boolean;
     error: string | null;
@@ -20,9 +21,26 @@ export interface User {
     name: string;
     role: Role;
     email: string;
+    // Resumo de circulação, enviado na listagem de pessoas (/people)
+    active_loans_count?: number;
+    overdue_loans_count?: number;
+    // Saldo devedor de multas e taxas, já somadas as multas dos atrasos em aberto
+    balance?: number;
+    blocked?: boolean;
 }
 
 // Book related interfaces
+export enum ContributorRole {
+    AUTHOR = 'AUTHOR',
+    TRANSLATOR = 'TRANSLATOR',
+    ILLUSTRATOR = 'ILLUSTRATOR'
+}
+
+export interface BookContributor {
+    name: string;
+    role: ContributorRole;
+}
+
 export interface Book {
     id?: number;
     isbn: string;
@@ -31,16 +49,97 @@ export interface Book {
     quantity: number;
     available: number;
     description?: string;
+    publisher?: string;
+    published_year?: number;
+    // Código ISO 639-1 (pt, en, es...)
+    language?: string;
+    edition?: string;
+    page_count?: number;
+    subjects?: string[];
+    series?: string;
+    series_number?: number;
+    // Autores, tradutores e ilustradores; "author" resume os de papel AUTHOR
+    contributors?: BookContributor[];
+    // Capa enviada pela biblioteca; sem ela a capa vem do provedor (Open Library)
+    cover_url?: string;
+}
+
+// Exemplares físicos de um livro, cada um com seu código de tombo
+export enum CopyStatus {
+    AVAILABLE = 'AVAILABLE',
+    ON_LOAN = 'ON_LOAN',
+    // Separado na estante de reservas, aguardando quem reservou
+    ON_HOLD = 'ON_HOLD',
+    IN_REPAIR = 'IN_REPAIR',
+    LOST = 'LOST',
+    WITHDRAWN = 'WITHDRAWN'
+}
+
+export enum CopyCondition {
+    NEW = 'NEW',
+    GOOD = 'GOOD',
+    WORN = 'WORN',
+    DAMAGED = 'DAMAGED'
+}
+
+export interface BookCopy {
+    id: number;
+    book_id: number;
+    barcode: string;
+    shelf_location?: string;
+    condition: CopyCondition;
+    // Data no formato yyyy-mm-dd
+    acquired_at?: string;
+    status: CopyStatus;
+    notes?: string;
+}
+
+// Resultado da leitura de um código de barras de exemplar
+export interface CopyLookup extends BookCopy {
+    book: Book;
+    active_loan: Loan | null;
+    // Reserva para a qual o exemplar está separado (status ON_HOLD)
+    hold: Hold | null;
+}
+
+// Catalog search
+export type BookSort = 'title' | 'author' | 'newest' | 'most_borrowed';
+
+export interface BookSearchFilters {
+    author?: string;
+    publisher?: string;
+    language?: string;
+    year_from?: number;
+    year_to?: number;
+    available?: boolean;
+    sort?: BookSort;
+}
+
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+// Contagens de cada faceta considerando a busca e os demais filtros
+export interface BookFacets {
+    author: FacetCount[];
+    publisher: FacetCount[];
+    language: FacetCount[];
+    published_year: FacetCount[];
+    availability: { available: number; unavailable: number };
 }
 
 // Loan related interfaces
+// Situação enviada pelo servidor. As telas usam a situação derivada em
+// services/loanStatus.ts, que também considera a carência e o "vence em breve".
+// Os valores são o contrato com o servidor Java e não devem mudar.
 export enum LoanStatus {
     PENDING = 'pending',
     CANCELED = 'canceled',
     EXTENDED = 'extended',
-    IN_DAYS = "IN_DAYS",
-    RETURNED = "RETURNED",
-    OVERDUE = "OVERDUE",
+    IN_DAYS = 'IN_DAYS',
+    RETURNED = 'RETURNED',
+    OVERDUE = 'OVERDUE',
 }
 
 export enum RecentActivityTypeEnum {
@@ -53,10 +152,110 @@ export interface Loan {
     id: number;
     person: User;
     book: Book;
+    // Ausente em empréstimos anteriores ao controle por exemplar
+    copy?: BookCopy;
     start_date: string;
+    // Dias desde start_date, já somadas as renovações
     duration: number;
+    // Calculada pelo servidor; clientes antigos recebem só start_date + duration
+    due_date?: string;
+    renewals?: number;
     return_date: string | null;
     type: LoanStatus;
+    // Só na resposta da devolução: reserva que recebeu o exemplar devolvido
+    hold?: Hold | null;
+    // Só na resposta da devolução: multa lançada pelo atraso
+    fine?: FeeEntry | null;
+}
+
+// Política de empréstimos editada pelos administradores. As regras por papel
+// sobrescrevem só os campos informados; o restante vem do padrão.
+export interface LoanPolicyRules {
+    loan_duration_days: number;
+    extension_days: number;
+    max_renewals: number;
+    max_active_loans: number;
+    // Dias após o vencimento antes de o empréstimo contar como atrasado
+    grace_period_days: number;
+    // Valores em reais
+    daily_fine: number;
+    // Saldo devedor acima do qual novos empréstimos são recusados
+    max_balance: number;
+}
+
+export interface LoanPolicy extends LoanPolicyRules {
+    // Prazo para retirar um exemplar separado para uma reserva
+    hold_pickup_days: number;
+    overrides: Partial<Record<Role, Partial<LoanPolicyRules>>>;
+}
+
+// Lançamentos do extrato de multas e taxas de cada leitor. Cobranças têm valor
+// positivo; pagamentos e isenções, negativo.
+export enum FeeType {
+    OVERDUE_FINE = 'OVERDUE_FINE',
+    LOST_ITEM = 'LOST_ITEM',
+    DAMAGED_ITEM = 'DAMAGED_ITEM',
+    PAYMENT = 'PAYMENT',
+    WAIVER = 'WAIVER',
+}
+
+export interface FeeEntry {
+    id: number;
+    type: FeeType;
+    amount: number;
+    // Motivo da cobrança ou da isenção; observação do pagamento
+    reason: string | null;
+    loan?: Pick<Loan, 'id' | 'book' | 'copy'> | null;
+    created_at: string;
+    created_by: string | null;
+}
+
+export interface FeeLedger {
+    entries: FeeEntry[];
+    // Multas dos empréstimos ainda em atraso, lançadas só na devolução
+    accruing: number;
+    balance: number;
+}
+
+export type FeeRequest = { type: FeeType; amount: number; reason?: string; loan_id?: number };
+
+// Reservas de livros sem exemplares disponíveis. A fila é por livro, em ordem
+// de chegada; quando um exemplar volta, fica separado (READY) para o primeiro
+// da fila até "expires_at".
+export enum HoldStatus {
+    WAITING = 'WAITING',
+    READY = 'READY',
+    FULFILLED = 'FULFILLED',
+    CANCELED = 'CANCELED',
+    EXPIRED = 'EXPIRED',
+}
+
+export interface Hold {
+    id: number;
+    book: Book;
+    person: User;
+    status: HoldStatus;
+    created_at: string;
+    // Posição na fila (1 = próximo); null fora da fila
+    position: number | null;
+    ready_at: string | null;
+    expires_at: string | null;
+    copy?: BookCopy;
+}
+
+// Pagination
+// Página normalizada pelo client. "page" começa em 0, como nos parâmetros dos
+// métodos da API; "total" é null quando o servidor devolve só o array.
+export interface Paginated<T> {
+    items: T[];
+    total: number | null;
+    page: number;
+    pageSize: number;
+}
+
+export interface BookSearchResult extends Paginated<Book> {
+    // null quando o servidor não calcula facetas
+    facets: BookFacets | null;
 }
 
 // OpenLibrary API response interfaces
@@ -69,6 +268,10 @@ export interface OpenLibraryBook {
     publisher?: string[];
     publish_date?: string;
     description?: string;
+    // Códigos MARC de três letras (eng, por, spa...)
+    language?: string[];
+    number_of_pages_median?: number;
+    subject?: string[];
 }
 
 export interface OpenLibraryResponse {
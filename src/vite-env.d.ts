@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APP_PROFILE?: string;
+  readonly VITE_API_URL?: string;
+  readonly VITE_API_URL_DEV?: string;
+  readonly VITE_API_URL_STAGING?: string;
+  readonly VITE_API_URL_PROD?: string;
+  readonly VITE_OPEN_LIBRARY_URL?: string;
+  readonly VITE_OPEN_LIBRARY_COVERS_URL?: string;
+  readonly VITE_USE_MOCK_API?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}